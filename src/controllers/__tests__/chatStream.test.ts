@@ -0,0 +1,191 @@
+import { EventEmitter } from "events";
+import { Response } from "express";
+import { Types } from "mongoose";
+import { sendMessage } from "../chat";
+import { ChatSession, IChatSession } from "../../models/ChatSession";
+import { FakeLLMProvider, FakeScriptEntry } from "../../llm/providers/fake";
+import { setLLMProvider } from "../../llm";
+import { getCatalog } from "../../services/i18n";
+
+// uuid ships as ES modules only, which Jest can't load as-is
+jest.mock("uuid", () => ({ v4: () => require("crypto").randomUUID() }));
+
+jest.mock("../../utils/logger", () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+// Everything around the reply that needs MongoDB or Inngest
+jest.mock("../../services/therapyMemory", () => ({
+  getActiveMemory: jest.fn().mockResolvedValue(null),
+  buildMemorySummary: jest.fn().mockReturnValue(""),
+  toAgentMemory: jest.fn(),
+}));
+jest.mock("../../services/prompts", () => ({
+  renderPrompt: jest.fn().mockResolvedValue({
+    content: "You are Leo.",
+    ref: { name: "chat.system", version: 0 },
+  }),
+}));
+jest.mock("../../services/messageAnalysis", () => ({
+  tryAnalyzeMessage: jest.fn().mockResolvedValue(null),
+}));
+jest.mock("../../services/assessments", () => ({
+  suggestAssessment: jest.fn().mockResolvedValue(null),
+}));
+jest.mock("../../services/sessionTitle", () => ({
+  generateSessionTitle: jest.fn(() => new Promise(() => {})),
+}));
+jest.mock("../../services/crisis", () => ({
+  ...jest.requireActual("../../services/crisis"),
+  recordCrisisEvent: jest.fn().mockResolvedValue(undefined),
+}));
+jest.mock("../../utils/inngestEvents");
+
+// Records what an SSE handler writes
+class StreamRecorder extends EventEmitter {
+  statusCode = 0;
+  headers: Record<string, string> = {};
+  body = "";
+  writableEnded = false;
+
+  status(code: number) {
+    this.statusCode = code;
+    return this;
+  }
+  setHeader(name: string, value: string) {
+    this.headers[name] = value;
+  }
+  flushHeaders() {}
+  write(chunk: string) {
+    this.body += chunk;
+    return true;
+  }
+  end() {
+    this.writableEnded = true;
+  }
+  json(body: unknown) {
+    this.body = JSON.stringify(body);
+    this.end();
+    return this;
+  }
+
+  events(): { event: string; data: any }[] {
+    return this.body
+      .split("\n\n")
+      .filter(Boolean)
+      .map((block) => {
+        const [event, data] = block.split("\n");
+        return {
+          event: event.replace("event: ", ""),
+          data: JSON.parse(data.replace("data: ", "")),
+        };
+      });
+  }
+
+  named(name: string) {
+    return this.events().filter((e) => e.event === name);
+  }
+}
+
+const userId = new Types.ObjectId();
+
+const newSession = (): IChatSession => {
+  const session = new ChatSession({
+    sessionId: "session-1",
+    userId,
+    startTime: new Date(),
+    messages: [],
+  });
+  jest.spyOn(session, "save").mockResolvedValue(session);
+  return session;
+};
+
+const send = async (message: string, script: FakeScriptEntry[]) => {
+  const session = newSession();
+  jest.spyOn(ChatSession, "findOne").mockResolvedValue(session as any);
+  const provider = new FakeLLMProvider(script);
+  setLLMProvider(provider);
+
+  const res = new StreamRecorder();
+  await sendMessage(
+    {
+      params: { sessionId: session.sessionId },
+      body: { message },
+      headers: { accept: "text/event-stream" },
+      user: { id: userId.toString(), _id: userId },
+    } as any,
+    res as unknown as Response
+  );
+  return { res, session, provider };
+};
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  setLLMProvider(null);
+});
+
+describe("sendMessage over SSE", () => {
+  it("streams the reply token by token and finishes with done", async () => {
+    const { res, session } = await send("Exams have me stressed", [
+      { response: "Exams can feel like a lot. What's weighing on you most?" },
+    ]);
+
+    expect(res.statusCode).toBe(200);
+    expect(res.headers["Content-Type"]).toBe("text/event-stream");
+    expect(res.writableEnded).toBe(true);
+
+    const tokens = res.named("token").map((e) => e.data.content);
+    expect(tokens.length).toBeGreaterThan(1);
+    expect(tokens.join("")).toBe("Exams can feel like a lot. What's weighing on you most?");
+
+    const [done] = res.named("done");
+    expect(done.data).toMatchObject({
+      response: "Exams can feel like a lot. What's weighing on you most?",
+      conversationComplete: false,
+    });
+    expect(res.events().pop()?.event).toBe("done");
+    expect(session.messages.map((m) => m.role)).toEqual(["user", "assistant"]);
+  });
+
+  it("doesn't send replace when the model only padded the reply with whitespace", async () => {
+    const { res } = await send("Exams have me stressed", [
+      { response: "\n  That sounds draining. What's been hardest?  \n" },
+    ]);
+
+    expect(res.named("replace")).toEqual([]);
+    expect(res.named("done")[0].data.response).toBe("That sounds draining. What's been hardest?");
+  });
+
+  it("replaces a streamed reply that fails the safety check", async () => {
+    const { res, session } = await send("Why do I feel like this", [
+      { response: "It sounds like you have clinical depression." },
+    ]);
+
+    const unsafeReply = getCatalog("en").unsafeReply;
+    expect(res.named("replace").map((e) => e.data.content)).toEqual([unsafeReply]);
+    expect(res.named("done")[0].data.response).toBe(unsafeReply);
+    expect(session.messages[1].content).toBe(unsafeReply);
+  });
+
+  it("answers a crisis message without asking the model", async () => {
+    const { res, provider } = await send("I want to kill myself", [{ response: "unused" }]);
+
+    expect(provider.calls.filter((call) => call.method === "stream")).toEqual([]);
+    expect(res.named("replace")).toEqual([]);
+    const [done] = res.named("done");
+    expect(done.data.crisis).toBeDefined();
+    expect(res.named("token")[0].data.content).toBe(done.data.response);
+  });
+
+  it("saves a placeholder and sends it as replace when the model fails", async () => {
+    const { res, session } = await send("Exams have me stressed", [
+      { error: { status: 503, message: "overloaded" } },
+    ]);
+
+    const [replace] = res.named("replace");
+    const [done] = res.named("done");
+    expect(done.data.replyUnavailable).toBe(true);
+    expect(replace.data.content).toBe(done.data.response);
+    expect(session.messages[1].metadata?.unavailable).toBe(true);
+  });
+});
@@ -0,0 +1,55 @@
+import { Response } from "express";
+import { Types } from "mongoose";
+import { createMood } from "../moodController";
+import { Mood } from "../../models/Mood";
+
+jest.mock("../../utils/logger", () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+jest.mock("../../utils/inngestEvents");
+
+const respond = () => {
+  const res: any = { statusCode: 0, body: undefined };
+  res.status = (code: number) => ((res.statusCode = code), res);
+  res.json = (body: unknown) => ((res.body = body), res);
+  return res as Response & { statusCode: number; body: any };
+};
+
+const create = async (body: Record<string, unknown>) => {
+  const res = respond();
+  const next = jest.fn();
+  await createMood({ body, user: { _id: new Types.ObjectId() } } as any, res, next);
+  expect(next).not.toHaveBeenCalled();
+  return res;
+};
+
+describe("createMood", () => {
+  beforeEach(() => {
+    jest.spyOn(Mood.prototype, "save").mockImplementation(function (this: any) {
+      return Promise.resolve(this);
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("accepts numeric strings, as it always has", async () => {
+    const res = await create({ score: "70", energy: "40", sleepHours: "7.5", sleepQuality: "4" });
+
+    expect(res.statusCode).toBe(201);
+    expect(res.body.data).toMatchObject({ score: 70, energy: 40, sleepHours: 7.5, sleepQuality: 4 });
+  });
+
+  it("rejects values that aren't numbers", async () => {
+    for (const score of ["seventy", "", null, true, [70]]) {
+      const res = await create({ score });
+      expect(res.statusCode).toBe(400);
+    }
+  });
+
+  it("rejects numbers out of range", async () => {
+    expect((await create({ score: "101" })).statusCode).toBe(400);
+    expect((await create({ score: 70, sleepQuality: "3.5" })).statusCode).toBe(400);
+  });
+});
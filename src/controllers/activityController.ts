@@ -2,7 +2,127 @@ import { Request, Response, NextFunction } from "express";
 import { Types } from "mongoose";
 import { Activity, IActivity } from "../models/Activity";
 import { logger } from "../utils/logger";
-import { sendActivityCompletionEvent } from "../utils/inngestEvents";
+import { notifyActivityCompleted } from "../services/activities";
+import { dayRange, parseDate, startOfDayOffset } from "../utils/dateRange";
+import { cursorFilter, parseLimit, SortDirection, toPage } from "../utils/pagination";
+import { getActivityStats as buildActivityStats } from "../services/activityStats";
+import {
+  ActivityDifficulty,
+  ActivityStatus,
+  ActivityType,
+  ACTIVITY_DIFFICULTIES,
+  ACTIVITY_STATUSES,
+  ACTIVITY_TYPES,
+} from "../types/activity";
+
+const MAX_NAME_LENGTH = 200;
+const MAX_TEXT_LENGTH = 2000;
+// Longest single activity, in minutes
+const MAX_DURATION = 24 * 60;
+// Clock skew allowed for client-supplied timestamps
+const FUTURE_TIMESTAMP_SLACK_MS = 5 * 60 * 1000;
+// Stats cover the last 12 weeks unless a range is given
+const DEFAULT_STATS_DAYS = 84;
+
+// Optional fields that PATCH can clear by sending null
+const CLEARABLE_FIELDS = [
+  "description",
+  "duration",
+  "difficulty",
+  "feedback",
+  "moodBefore",
+  "moodAfter",
+] as const;
+
+type ActivityInput =
+  | { set: Record<string, unknown>; unset: string[] }
+  | { error: string };
+
+const isInRange = (value: unknown, min: number, max: number) =>
+  typeof value === "number" && Number.isFinite(value) && value >= min && value <= max;
+
+const isText = (value: unknown, maxLength: number) =>
+  typeof value === "string" && value.trim().length > 0 && value.length <= maxLength;
+
+/**
+ * Validates a create (all required fields) or PATCH (only the fields sent)
+ * body.
+ */
+const parseActivityInput = (body: any, partial: boolean): ActivityInput => {
+  const set: Record<string, unknown> = {};
+  const unset: string[] = [];
+  const has = (field: string) => body?.[field] !== undefined;
+
+  if (!partial || has("type")) {
+    if (!ACTIVITY_TYPES.includes(body?.type as ActivityType)) {
+      return { error: `type must be one of ${ACTIVITY_TYPES.join(", ")}` };
+    }
+    set.type = body.type;
+  }
+
+  if (!partial || has("name")) {
+    if (!isText(body?.name, MAX_NAME_LENGTH)) {
+      return { error: `name is required and at most ${MAX_NAME_LENGTH} characters` };
+    }
+    set.name = body.name.trim();
+  }
+
+  for (const field of CLEARABLE_FIELDS) {
+    if (partial && body?.[field] === null) unset.push(field);
+  }
+
+  for (const field of ["description", "feedback"]) {
+    if (has(field) && body[field] !== null) {
+      if (typeof body[field] !== "string" || body[field].length > MAX_TEXT_LENGTH) {
+        return { error: `${field} must be a string of at most ${MAX_TEXT_LENGTH} characters` };
+      }
+      set[field] = body[field];
+    }
+  }
+
+  if (has("duration") && body.duration !== null) {
+    if (!isInRange(body.duration, 0, MAX_DURATION)) {
+      return { error: `duration must be a number of minutes between 0 and ${MAX_DURATION}` };
+    }
+    set.duration = body.duration;
+  }
+
+  if (has("difficulty") && body.difficulty !== null) {
+    if (!ACTIVITY_DIFFICULTIES.includes(body.difficulty as ActivityDifficulty)) {
+      return { error: `difficulty must be one of ${ACTIVITY_DIFFICULTIES.join(", ")}` };
+    }
+    set.difficulty = body.difficulty;
+  }
+
+  for (const field of ["moodBefore", "moodAfter"]) {
+    if (has(field) && body[field] !== null) {
+      if (!isInRange(body[field], 0, 100)) {
+        return { error: `${field} must be a number between 0 and 100` };
+      }
+      set[field] = body[field];
+    }
+  }
+
+  if (has("status")) {
+    if (!ACTIVITY_STATUSES.includes(body.status as ActivityStatus)) {
+      return { error: `status must be one of ${ACTIVITY_STATUSES.join(", ")}` };
+    }
+    set.status = body.status;
+  }
+
+  if (has("timestamp")) {
+    const timestamp = parseDate(body.timestamp);
+    if (!timestamp) {
+      return { error: "timestamp must be a valid date" };
+    }
+    if (timestamp.getTime() > Date.now() + FUTURE_TIMESTAMP_SLACK_MS) {
+      return { error: "timestamp cannot be in the future" };
+    }
+    set.timestamp = timestamp;
+  }
+
+  return { set, unset };
+};
 
 // Log a new activity
 export const logActivity = async (
@@ -11,39 +131,30 @@ export const logActivity = async (
   next: NextFunction
 ) => {
   try {
-    const { type, name, description, duration, difficulty, feedback } =
-      req.body;
     const userId = req.user?._id;
 
     if (!userId) {
       return res.status(401).json({ message: "User not authenticated" });
     }
 
+    const input = parseActivityInput(req.body, false);
+    if ("error" in input) {
+      return res.status(400).json({ message: input.error });
+    }
+
     const activity = new Activity({
-      userId,
-      type,
-      name,
-      description,
-      duration,
-      difficulty,
-      feedback,
       timestamp: new Date(),
+      ...input.set,
+      userId,
     });
 
     await activity.save();
     logger.info(`Activity logged for user ${userId}`);
 
     // Send activity completion event to Inngest
-    await sendActivityCompletionEvent({
-      userId,
-      id: activity._id,
-      type,
-      name,
-      duration,
-      difficulty,
-      feedback,
-      timestamp: activity.timestamp,
-    });
+    if (activity.status === "completed") {
+      await notifyActivityCompleted(activity);
+    }
 
     res.status(201).json({
       success: true,
@@ -63,18 +174,14 @@ export const getTodayActivities = async (req: Request, res: Response) => {
 
     const userId = req.user._id;
 
-    // Get today's start and end time
-    const startOfDay = new Date();
-    startOfDay.setHours(0, 0, 0, 0);
+    // Today in the user's timezone
+    const today = dayRange(new Date(), req.timeZone);
 
-    const endOfDay = new Date();
-    endOfDay.setHours(23, 59, 59, 999);
-
-    // Find all activities for this user created today
-   const activities = await Activity.find({
-    userId,
-    timestamp: { $gte: startOfDay, $lte: endOfDay },
-  }).sort({ timestamp: -1 });
+    // Find all activities for this user logged today
+    const activities = await Activity.find({
+      userId,
+      timestamp: { $gte: today.start, $lt: today.end },
+    }).sort({ timestamp: -1 });
 
 
     res.status(200).json(activities);
@@ -86,3 +193,171 @@ export const getTodayActivities = async (req: Request, res: Response) => {
     });
   }
 };
+
+// Activity history, newest first by default (?from&to&type&status&order&limit&cursor)
+export const getActivities = async (req: Request, res: Response) => {
+  try {
+    if (!req.user || !req.user._id) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const order = (req.query.order as string) || "desc";
+    if (order !== "asc" && order !== "desc") {
+      return res.status(400).json({ message: "order must be asc or desc" });
+    }
+    const direction: SortDirection = order === "asc" ? 1 : -1;
+
+    const from = parseDate(req.query.from);
+    const to = parseDate(req.query.to);
+    if (from === null || to === null) {
+      return res.status(400).json({ message: "from and to must be valid dates" });
+    }
+
+    const filter: Record<string, any> = { userId: req.user._id };
+    if (from || to) {
+      filter.timestamp = {};
+      if (from) filter.timestamp.$gte = from;
+      if (to) filter.timestamp.$lte = to;
+    }
+
+    if (req.query.type !== undefined) {
+      if (!ACTIVITY_TYPES.includes(req.query.type as ActivityType)) {
+        return res
+          .status(400)
+          .json({ message: `type must be one of ${ACTIVITY_TYPES.join(", ")}` });
+      }
+      filter.type = req.query.type;
+    }
+
+    if (req.query.status !== undefined) {
+      if (!ACTIVITY_STATUSES.includes(req.query.status as ActivityStatus)) {
+        return res
+          .status(400)
+          .json({ message: `status must be one of ${ACTIVITY_STATUSES.join(", ")}` });
+      }
+      // Activities saved before statuses existed were completed
+      filter.status =
+        req.query.status === "completed" ? { $in: ["completed", null] } : req.query.status;
+    }
+
+    if (typeof req.query.cursor === "string") {
+      const after = cursorFilter(req.query.cursor, "timestamp", direction);
+      if (!after) return res.status(400).json({ message: "Invalid cursor" });
+      Object.assign(filter, after);
+    }
+
+    const limit = parseLimit(req.query.limit);
+    const activities = await Activity.find(filter)
+      .sort({ timestamp: direction, _id: direction })
+      .limit(limit + 1);
+
+    const page = toPage(activities, limit, (activity) => activity.timestamp);
+
+    res.status(200).json({ activities: page.items, nextCursor: page.nextCursor });
+  } catch (error) {
+    logger.error("Error fetching activities:", error);
+    res.status(500).json({ message: "Error fetching activities" });
+  }
+};
+
+// Correct an activity or move it along (e.g. to completed); null clears a field
+export const updateActivity = async (req: Request, res: Response) => {
+  try {
+    if (!req.user || !req.user._id) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    if (!Types.ObjectId.isValid(req.params.id)) {
+      return res.status(404).json({ message: "Activity not found" });
+    }
+
+    const input = parseActivityInput(req.body, true);
+    if ("error" in input) {
+      return res.status(400).json({ message: input.error });
+    }
+    if (Object.keys(input.set).length === 0 && input.unset.length === 0) {
+      return res.status(400).json({ message: "No changes to apply" });
+    }
+
+    const activity = await Activity.findOne({
+      _id: req.params.id,
+      userId: req.user._id,
+    });
+    if (!activity) {
+      return res.status(404).json({ message: "Activity not found" });
+    }
+
+    const wasCompleted = activity.status === "completed";
+    activity.set(input.set);
+    for (const field of input.unset) {
+      activity.set(field, undefined);
+    }
+    await activity.save();
+
+    // Completing a planned or in-progress activity counts as a completion
+    if (!wasCompleted && activity.status === "completed") {
+      await notifyActivityCompleted(activity);
+    }
+
+    res.status(200).json({ success: true, data: activity });
+  } catch (error) {
+    logger.error("Error updating activity:", error);
+    res.status(500).json({ message: "Error updating activity" });
+  }
+};
+
+// Delete an activity
+export const deleteActivity = async (req: Request, res: Response) => {
+  try {
+    if (!req.user || !req.user._id) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    if (!Types.ObjectId.isValid(req.params.id)) {
+      return res.status(404).json({ message: "Activity not found" });
+    }
+
+    const activity = await Activity.findOneAndDelete({
+      _id: req.params.id,
+      userId: req.user._id,
+    });
+    if (!activity) {
+      return res.status(404).json({ message: "Activity not found" });
+    }
+
+    res.status(200).json({ success: true, message: "Activity deleted" });
+  } catch (error) {
+    logger.error("Error deleting activity:", error);
+    res.status(500).json({ message: "Error deleting activity" });
+  }
+};
+
+// Totals and minutes per type and per week, plus streaks (?from&to)
+export const getActivityStats = async (req: Request, res: Response) => {
+  try {
+    if (!req.user || !req.user._id) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const from = parseDate(req.query.from);
+    const to = parseDate(req.query.to);
+    if (from === null || to === null) {
+      return res.status(400).json({ message: "from and to must be valid dates" });
+    }
+
+    const end = to || new Date();
+    // Whole local days, ending with the day of `end`
+    const start =
+      from || startOfDayOffset(end, -(DEFAULT_STATS_DAYS - 1), req.timeZone);
+    if (start > end) {
+      return res.status(400).json({ message: "from must be before to" });
+    }
+
+    const stats = await buildActivityStats(req.user._id, start, end, req.timeZone);
+
+    res.status(200).json(stats);
+  } catch (error) {
+    logger.error("Error fetching activity stats:", error);
+    res.status(500).json({ message: "Error fetching activity stats" });
+  }
+};
@@ -0,0 +1,265 @@
+import { Request, Response } from "express";
+import { Types } from "mongoose";
+import { ChatSession } from "../models/ChatSession";
+import { PromptExperiment } from "../models/PromptExperiment";
+import { logger } from "../utils/logger";
+import { parseDate } from "../utils/dateRange";
+import { isOwnKey } from "../utils/objects";
+import {
+  buildUsageReport,
+  USAGE_GROUPS,
+  UsageGroup,
+} from "../services/usageAccounting";
+
+// How ratings can be grouped in the report
+const RATING_GROUPS: Record<string, Record<string, string>> = {
+  model: {
+    provider: "$reply.generatedBy.provider",
+    model: "$reply.generatedBy.model",
+  },
+  provider: {
+    provider: "$reply.generatedBy.provider",
+  },
+  persona: {
+    persona: "$reply.generatedBy.persona",
+  },
+};
+
+// Thumbs up/down totals for assistant replies, including replaced variants
+export const getRatingsReport = async (req: Request, res: Response) => {
+  try {
+    const groupBy = (req.query.groupBy as string) || "model";
+    if (!isOwnKey(RATING_GROUPS, groupBy)) {
+      return res.status(400).json({
+        message: `groupBy must be one of ${Object.keys(RATING_GROUPS).join(", ")}`,
+      });
+    }
+
+    const from = parseDate(req.query.from);
+    const to = parseDate(req.query.to);
+    if (from === null || to === null) {
+      return res.status(400).json({ message: "from and to must be valid dates" });
+    }
+
+    const ratedAt: Record<string, Date> = {};
+    if (from) ratedAt.$gte = from;
+    if (to) ratedAt.$lte = to;
+
+    const rows = await ChatSession.aggregate([
+      // Skip sessions without a single rating
+      {
+        $match: {
+          $or: [
+            { "messages.metadata.rating.value": { $exists: true } },
+            { "messages.metadata.variants.rating.value": { $exists: true } },
+          ],
+        },
+      },
+      { $unwind: "$messages" },
+      { $match: { "messages.role": "assistant" } },
+      {
+        $project: {
+          replies: {
+            $concatArrays: [
+              [
+                {
+                  generatedBy: "$messages.metadata.generatedBy",
+                  rating: "$messages.metadata.rating",
+                },
+              ],
+              { $ifNull: ["$messages.metadata.variants", []] },
+            ],
+          },
+        },
+      },
+      { $unwind: "$replies" },
+      { $replaceRoot: { newRoot: { reply: "$replies" } } },
+      {
+        $match: {
+          "reply.rating.value": { $in: ["up", "down"] },
+          ...(Object.keys(ratedAt).length > 0 && { "reply.rating.ratedAt": ratedAt }),
+        },
+      },
+      {
+        $group: {
+          _id: RATING_GROUPS[groupBy],
+          up: { $sum: { $cond: [{ $eq: ["$reply.rating.value", "up"] }, 1, 0] } },
+          down: { $sum: { $cond: [{ $eq: ["$reply.rating.value", "down"] }, 1, 0] } },
+          total: { $sum: 1 },
+        },
+      },
+      { $sort: { total: -1 } },
+    ]);
+
+    res.json({
+      groupBy,
+      from: from || null,
+      to: to || null,
+      groups: rows.map(({ _id, up, down, total }) => ({
+        ...(_id || {}),
+        up,
+        down,
+        total,
+        approvalRate: total > 0 ? up / total : null,
+      })),
+    });
+  } catch (error) {
+    logger.error("Error building ratings report:", error);
+    res.status(500).json({ message: "Error building ratings report" });
+  }
+};
+
+// Compares the arms of a prompt experiment by reply ratings and by how
+// many of their sessions were completed
+export const getPromptExperimentReport = async (req: Request, res: Response) => {
+  try {
+    const experiment = await PromptExperiment.findOne({ key: req.params.key });
+    if (!experiment) {
+      return res.status(404).json({ message: "Experiment not found" });
+    }
+
+    const rows = await ChatSession.aggregate([
+      { $match: { "messages.metadata.prompt.experiment": experiment.key } },
+      {
+        $project: {
+          // Archived sessions count by the status they had before
+          completed: {
+            $eq: [
+              {
+                $cond: [
+                  { $eq: ["$status", "archived"] },
+                  "$statusBeforeArchive",
+                  "$status",
+                ],
+              },
+              "completed",
+            ],
+          },
+          messages: 1,
+        },
+      },
+      { $unwind: "$messages" },
+      { $match: { "messages.role": "assistant" } },
+      {
+        $project: {
+          completed: 1,
+          replies: {
+            $concatArrays: [
+              [
+                {
+                  prompt: "$messages.metadata.prompt",
+                  rating: "$messages.metadata.rating",
+                },
+              ],
+              { $ifNull: ["$messages.metadata.variants", []] },
+            ],
+          },
+        },
+      },
+      { $unwind: "$replies" },
+      { $match: { "replies.prompt.experiment": experiment.key } },
+      {
+        $group: {
+          _id: { session: "$_id", variant: "$replies.prompt.variant" },
+          completed: { $first: "$completed" },
+          replies: { $sum: 1 },
+          up: { $sum: { $cond: [{ $eq: ["$replies.rating.value", "up"] }, 1, 0] } },
+          down: { $sum: { $cond: [{ $eq: ["$replies.rating.value", "down"] }, 1, 0] } },
+        },
+      },
+      {
+        $group: {
+          _id: "$_id.variant",
+          sessions: { $sum: 1 },
+          completedSessions: { $sum: { $cond: ["$completed", 1, 0] } },
+          replies: { $sum: "$replies" },
+          up: { $sum: "$up" },
+          down: { $sum: "$down" },
+        },
+      },
+    ]);
+
+    const variants = experiment.variants.map((variant) => {
+      const row = rows.find((r) => r._id === variant.name);
+      const sessions = row?.sessions || 0;
+      const up = row?.up || 0;
+      const down = row?.down || 0;
+
+      return {
+        ...variant,
+        sessions,
+        completedSessions: row?.completedSessions || 0,
+        completionRate: sessions > 0 ? (row?.completedSessions || 0) / sessions : null,
+        replies: row?.replies || 0,
+        up,
+        down,
+        approvalRate: up + down > 0 ? up / (up + down) : null,
+      };
+    });
+
+    res.json({
+      experiment: {
+        key: experiment.key,
+        promptName: experiment.promptName,
+        status: experiment.status,
+        startedAt: experiment.startedAt,
+        stoppedAt: experiment.stoppedAt || null,
+      },
+      variants,
+    });
+  } catch (error) {
+    logger.error("Error building prompt experiment report:", error);
+    res.status(500).json({ message: "Error building prompt experiment report" });
+  }
+};
+
+// LLM tokens and estimated cost, grouped by any of day, provider, model
+// and feature (?groupBy=day,model,feature&from=&to=&userId=&sessionId=)
+export const getUsageReport = async (req: Request, res: Response) => {
+  try {
+    const groupBy = String(req.query.groupBy || "day,model,feature")
+      .split(",")
+      .map((group) => group.trim())
+      .filter(Boolean);
+    const unknownGroup = groupBy.find(
+      (group) => !USAGE_GROUPS.includes(group as UsageGroup)
+    );
+    if (unknownGroup) {
+      return res.status(400).json({
+        message: `groupBy must be a list of ${USAGE_GROUPS.join(", ")}`,
+      });
+    }
+
+    const from = parseDate(req.query.from);
+    const to = parseDate(req.query.to);
+    if (from === null || to === null) {
+      return res.status(400).json({ message: "from and to must be valid dates" });
+    }
+
+    const userId = req.query.userId as string | undefined;
+    if (userId !== undefined && !Types.ObjectId.isValid(userId)) {
+      return res.status(400).json({ message: "userId is not valid" });
+    }
+    const sessionId = req.query.sessionId as string | undefined;
+
+    const report = await buildUsageReport(groupBy as UsageGroup[], {
+      from,
+      to,
+      userId,
+      sessionId,
+      timeZone: req.timeZone,
+    });
+
+    res.json({
+      groupBy,
+      from: from || null,
+      to: to || null,
+      timeZone: req.timeZone,
+      currency: "USD",
+      ...report,
+    });
+  } catch (error) {
+    logger.error("Error building usage report:", error);
+    res.status(500).json({ message: "Error building usage report" });
+  }
+};
@@ -0,0 +1,172 @@
+import { Request, Response } from "express";
+import { Types } from "mongoose";
+import { AssessmentResult, IAssessmentResult } from "../models/AssessmentResult";
+import { logger } from "../utils/logger";
+import { parseLimit, cursorFilter, toPage } from "../utils/pagination";
+import { resolveLocale } from "../utils/locale";
+import {
+  getAssessment,
+  isAssessmentType,
+  listAssessments,
+  scoreAssessment,
+  screenAnswers,
+  validateAnswers,
+} from "../services/assessments";
+import { getCrisisResponse, recordCrisisEvent } from "../services/crisis";
+
+// A stored result with its title and severity label
+const toResultResponse = (result: IAssessmentResult) => {
+  const definition = getAssessment(result.type);
+  const { label } = scoreAssessment(definition, result.answers);
+  return {
+    id: result.id,
+    type: result.type,
+    title: definition.title,
+    answers: result.answers,
+    score: result.score,
+    maxScore: result.maxScore,
+    severity: result.severity,
+    label,
+    safetyFlagged: Boolean(result.safety),
+    completedAt: result.completedAt,
+  };
+};
+
+const unknownTypeMessage = () =>
+  `type must be one of ${listAssessments().map((a) => a.type).join(", ")}`;
+
+// List the questionnaires a user can take
+export const getAssessmentTypes = async (req: Request, res: Response) => {
+  try {
+    res.status(200).json({
+      assessments: listAssessments().map(({ type, title, description, questions }) => ({
+        type,
+        title,
+        description,
+        questions: questions.length,
+      })),
+    });
+  } catch (error) {
+    logger.error("Error listing assessments:", error);
+    res.status(500).json({ message: "Error listing assessments" });
+  }
+};
+
+// One questionnaire with its questions, answer scale and severity bands
+export const getAssessmentDefinition = async (req: Request, res: Response) => {
+  try {
+    if (!isAssessmentType(req.params.type)) {
+      return res.status(404).json({ message: "Assessment not found" });
+    }
+
+    const { safetyItems, retakeAfterDays, ...definition } = getAssessment(
+      req.params.type
+    );
+    res.status(200).json({ assessment: definition });
+  } catch (error) {
+    logger.error("Error fetching assessment:", error);
+    res.status(500).json({ message: "Error fetching assessment" });
+  }
+};
+
+// Score and store a completed questionnaire (body: { answers: number[] })
+export const submitAssessment = async (req: Request, res: Response) => {
+  try {
+    if (!req.user || !req.user._id) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    if (!isAssessmentType(req.params.type)) {
+      return res.status(404).json({ message: "Assessment not found" });
+    }
+    const definition = getAssessment(req.params.type);
+
+    const invalid = validateAnswers(definition, req.body?.answers);
+    if (invalid) {
+      return res.status(400).json({ message: invalid });
+    }
+    const answers: number[] = req.body.answers;
+    const { score, maxScore, severity } = scoreAssessment(definition, answers);
+
+    const result = await AssessmentResult.create({
+      userId: req.user._id,
+      type: definition.type,
+      answers,
+      score,
+      maxScore,
+      severity,
+      completedAt: new Date(),
+    });
+
+    // Endorsed safety items take the same path as risky chat messages
+    const crisis = screenAnswers(definition, answers);
+    const locale = resolveLocale(req);
+    if (crisis) {
+      const event = await recordCrisisEvent({
+        userId: req.user._id,
+        assessment: crisis,
+        source: "assessment",
+        assessmentResultId: result._id as Types.ObjectId,
+        locale,
+      });
+      result.safety = {
+        tier: crisis.tier,
+        crisisEventId: event?._id as Types.ObjectId | undefined,
+      };
+      await result.save();
+    }
+
+    res.status(201).json({
+      result: toResultResponse(result),
+      // Support resources whenever a safety item was endorsed
+      ...(crisis && {
+        crisis: {
+          tier: crisis.tier,
+          ...getCrisisResponse(locale, req.user.preferredLanguage || undefined),
+        },
+      }),
+    });
+  } catch (error) {
+    logger.error("Error submitting assessment:", error);
+    res.status(500).json({ message: "Error submitting assessment" });
+  }
+};
+
+// Score history, newest first (?type=&limit=&cursor=)
+export const getAssessmentResults = async (req: Request, res: Response) => {
+  try {
+    if (!req.user || !req.user._id) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const filter: Record<string, any> = { userId: req.user._id };
+
+    if (req.query.type !== undefined) {
+      if (!isAssessmentType(req.query.type)) {
+        return res.status(400).json({ message: unknownTypeMessage() });
+      }
+      filter.type = req.query.type;
+    }
+
+    if (typeof req.query.cursor === "string") {
+      const after = cursorFilter(req.query.cursor, "completedAt", -1);
+      if (!after) return res.status(400).json({ message: "Invalid cursor" });
+      Object.assign(filter, after);
+    }
+
+    const limit = parseLimit(req.query.limit);
+    const results = await AssessmentResult.find(filter)
+      .sort({ completedAt: -1, _id: -1 })
+      .limit(limit + 1);
+
+    const page = toPage(results, limit, (result) => result.completedAt);
+
+    res.status(200).json({
+      results: page.items.map(toResultResponse),
+      nextCursor: page.nextCursor,
+    });
+  } catch (error) {
+    logger.error("Error fetching assessment results:", error);
+    res.status(500).json({ message: "Error fetching assessment results" });
+  }
+};
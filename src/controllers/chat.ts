@@ -1,14 +1,122 @@
 import { Request, Response } from "express";
-import { ChatSession } from "../models/ChatSession";
+import {
+  ChatSession,
+  IChatSession,
+  IChatMessage,
+  MessageEdit,
+  MessageRating,
+  GeneratedBy,
+} from "../models/ChatSession";
 import { v4 as uuidv4 } from "uuid";
 import { logger } from "../utils/logger";
 import { User } from "../models/User";
 import { Types } from "mongoose";
-import Groq from "groq-sdk";
+import {
+  getLLMProvider,
+  getModel,
+  LLMCircuitOpenError,
+  LLMError,
+  LLMMessage,
+  LLMUsageOwner,
+} from "../llm";
+import { tryAnalyzeMessage } from "../services/messageAnalysis";
+import {
+  getActiveMemory,
+  buildMemorySummary,
+  toAgentMemory,
+} from "../services/therapyMemory";
+import { sendSessionCompletedEvent } from "../utils/inngestEvents";
+import {
+  ensureSessionSummary,
+  findWindowStart,
+  invalidateSummaryFrom,
+  getContextBudget,
+  toHistoryMessages,
+} from "../services/conversationContext";
+import { estimateTokens, truncateToTokens } from "../utils/tokens";
+import { parseLimit, cursorFilter, toPage } from "../utils/pagination";
+import { isOwnKey } from "../utils/objects";
+import { generateSessionTitle } from "../services/sessionTitle";
+import { searchChatMessages } from "../services/chatSearch";
+import { ensureLastActivityBackfilled } from "../services/chatSessions";
+import {
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  ExportFormat,
+  renderExport,
+  toExportedSession,
+} from "../services/transcriptExport";
+import {
+  detectEndIntent,
+  decideEnd,
+  getSoftCloseResponse,
+  EndDecision,
+} from "../services/conversationEnd";
+import { MessageAnalysis } from "../types/inngest";
+import { Persona } from "../types/persona";
+import { LanguageCode } from "../types/language";
+import {
+  getCatalog,
+  getLanguage,
+  listLanguages,
+  pickLine,
+  resolveLanguage,
+} from "../services/i18n";
+import { ActiveExercise, ExerciseProgress, ExerciseSnapshot } from "../types/exercise";
+import { AssessmentDefinition, AssessmentType } from "../types/assessment";
+import { suggestAssessment } from "../services/assessments";
+import { resolveLocale } from "../utils/locale";
+import {
+  advanceExercise,
+  discardExerciseRecord,
+  isExerciseType,
+  listExercises,
+  rewindExercise,
+  startExercise,
+  toExerciseProgress,
+} from "../services/exercises";
+import {
+  getPersona,
+  isPersonaId,
+  listPersonas,
+  personaPromptValues,
+  toPersonaSummary,
+} from "../services/personas";
+import { PromptRef } from "../types/prompt";
+import { renderPrompt } from "../services/prompts";
+import {
+  CrisisAssessment,
+  CrisisResponse,
+  CrisisTier,
+} from "../types/crisis";
+import {
+  screenMessage,
+  combineWithAnalysis,
+  findUnsafeReplyRules,
+  shouldEscalate,
+  getCrisisResponse,
+  formatCrisisResponse,
+  recordCrisisEvent,
+} from "../services/crisis";
+import {
+  wantsEventStream,
+  initEventStream,
+  sendEvent,
+  closeEventStream,
+} from "../utils/sse";
 
-// Initialize Groq
-const groq = new Groq({
-  apiKey: process.env.GROQ_API_KEY || "",
+// Sampling settings for Leo's replies
+const CHAT_COMPLETION_SETTINGS = {
+  temperature: 0.65,
+  maxTokens: 240,
+  topP: 0.9,
+};
+
+// The persona sets its own temperature and length limit
+const completionSettings = (persona: Persona) => ({
+  ...CHAT_COMPLETION_SETTINGS,
+  temperature: persona.temperature,
+  maxTokens: persona.responseLength.maxTokens,
 });
 
 interface AuthenticatedRequest extends Request {
@@ -16,6 +124,7 @@ interface AuthenticatedRequest extends Request {
     id: string;
     email?: string;
     name?: string;
+    preferredLanguage?: LanguageCode;
   };
 }
 
@@ -26,6 +135,13 @@ export const createChatSession = async (req: AuthenticatedRequest, res: Response
       return res.status(401).json({ message: "Unauthorized" });
     }
 
+    const { persona } = req.body || {};
+    if (persona !== undefined && !isPersonaId(persona)) {
+      return res.status(400).json({
+        message: `persona must be one of ${listPersonas().map((p) => p.id).join(", ")}`,
+      });
+    }
+
     const userId = new Types.ObjectId(req.user.id);
     const user = await User.findById(userId);
     if (!user) return res.status(404).json({ message: "User not found" });
@@ -34,6 +150,7 @@ export const createChatSession = async (req: AuthenticatedRequest, res: Response
     const session = new ChatSession({
       sessionId,
       userId,
+      persona: getPersona(persona || user.defaultPersona).id,
       startTime: new Date(),
       status: "active",
       messages: [],
@@ -44,6 +161,7 @@ export const createChatSession = async (req: AuthenticatedRequest, res: Response
     res.status(201).json({
       message: "Chat session created",
       sessionId: session.sessionId,
+      persona: session.persona,
     });
   } catch (error) {
     logger.error("Error creating chat session:", error);
@@ -54,6 +172,62 @@ export const createChatSession = async (req: AuthenticatedRequest, res: Response
   }
 };
 
+// Everything needed to finish one user turn, shared by JSON and SSE replies
+interface ChatTurn {
+  session: IChatSession;
+  userId: Types.ObjectId;
+  userMessage: string;
+  messagesForAPI: LLMMessage[];
+  // System prompt version the reply is generated with
+  prompt: PromptRef;
+  endDecision: EndDecision;
+  analysisPromise: Promise<MessageAnalysis | null>;
+  crisis: CrisisAssessment;
+  locale: string;
+  // Language Leo answers in, and the one the message was detected as
+  language: LanguageCode;
+  detectedLanguage: LanguageCode | null;
+  // Earlier versions of the user's message, when the turn is an edit
+  edits?: MessageEdit[];
+  // Exercise state when the message arrived, saved so an edit can rewind it
+  exerciseBefore?: ActiveExercise;
+  // Set when the message answered a step of a guided exercise
+  exercise?: { reply: string; progress: ExerciseProgress };
+  // Questionnaire Leo was told it may offer in this reply
+  suggestedAssessment?: AssessmentDefinition;
+}
+
+// Extra system context for the reply, on top of the persona prompt
+interface PromptContext {
+  memorySummary?: string | null;
+  suggestedAssessment?: AssessmentDefinition | null;
+}
+
+// Leo's reply plus where it came from (absent for canned replies)
+interface AssistantReply {
+  content: string;
+  generatedBy?: GeneratedBy;
+  prompt?: PromptRef;
+  // The model couldn't be reached; the content is a stand-in
+  unavailable?: boolean;
+}
+
+interface ChatTurnResult {
+  response: string;
+  conversationComplete: boolean;
+  // Leo is checking whether the user is done
+  softClose: boolean;
+  sessionStatus: IChatSession["status"];
+  crisis?: CrisisResponse & { tier: CrisisTier };
+  exercise?: ExerciseProgress;
+  // The saved assistant message, for regenerate and ratings
+  messageId?: string;
+  // Leo's reply is a placeholder; regenerate messageId to retry
+  replyUnavailable?: boolean;
+  // Questionnaire Leo may have offered, so the client can link to it
+  suggestedAssessment?: { type: AssessmentType; title: string };
+}
+
 // Send message - simplified for natural flow
 export const sendMessage = async (req: AuthenticatedRequest, res: Response) => {
   try {
@@ -70,7 +244,6 @@ export const sendMessage = async (req: AuthenticatedRequest, res: Response) => {
     
     const userId = new Types.ObjectId(req.user.id);
     const trimmedMessage = message.trim();
-    const lowerMessage = trimmedMessage.toLowerCase();
 
     // Get session
     const session = await ChatSession.findOne({ sessionId });
@@ -82,226 +255,619 @@ export const sendMessage = async (req: AuthenticatedRequest, res: Response) => {
       return res.status(403).json({ message: "Unauthorized" });
     }
 
-    // Check if conversation should end
-    const shouldEndConversation = checkIfConversationShouldEnd(lowerMessage);
+    if (session.status === "archived") {
+      return res
+        .status(409)
+        .json({ message: "Session is archived. Unarchive it to keep chatting." });
+    }
 
-    // Build message array for Groq API
-    const messagesForAPI = buildMessagesForAPI(session, trimmedMessage);
+    await runChatTurn(req, res, session, trimmedMessage);
 
-    // If conversation should end, skip API call and provide closing response
-    let leoResponse: string;
-    
-    if (shouldEndConversation) {
-      leoResponse = getClosingResponse();
-    } else {
-      // Call Groq for regular response
-      const response = await groq.chat.completions.create({
-        messages: messagesForAPI,
-        model: "llama-3.3-70b-versatile",
-        temperature: 0.65,
-        max_tokens: 240,
-        top_p: 0.9,
-      });
+  } catch (error) {
+    logger.error("Error in sendMessage:", error);
+    res.status(500).json({
+      message: "Error processing message",
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
+/**
+ * Runs one user turn end to end: crisis screening, end-of-conversation
+ * detection, analysis, the reply (JSON or SSE) and saving.
+ * Errors on the JSON path are left to the calling handler.
+ */
+async function runChatTurn(
+  req: AuthenticatedRequest,
+  res: Response,
+  session: IChatSession,
+  trimmedMessage: string,
+  edits?: MessageEdit[]
+) {
+  const userId = session.userId;
+
+  // Answer in the user's preferred language, else the one they write in
+  const locale = resolveLocale(req);
+  const { language, detected } = resolveLanguage({
+    message: trimmedMessage,
+    preferred: req.user?.preferredLanguage,
+    conversation: session.language,
+    locale,
+  });
+  session.language = language;
+
+  // Screen the user's message before anything reaches the model, in English
+  // and in the language it's written or answered in
+  const crisis = screenMessage(
+    trimmedMessage,
+    detected ? [detected, language] : [language]
+  );
+  const escalated = shouldEscalate(crisis);
+
+  // Typing into a finished session picks it back up
+  if (session.status === "completed") {
+    session.status = "active";
+  }
+
+  // A crisis stops any guided exercise; otherwise the message answers its
+  // current step
+  const exerciseBefore = session.activeExercise;
+  if (escalated) {
+    session.activeExercise = undefined;
+  }
+  const exercise = session.activeExercise
+    ? await advanceExercise(session, trimmedMessage)
+    : undefined;
+
+  // Check if conversation should end (never in the middle of a crisis
+  // or an exercise)
+  const awaitingConfirmation = session.status === "closing";
+  const endDecision: EndDecision = escalated || exercise
+    ? "continue"
+    : decideEnd(
+        await detectEndIntent(
+          trimmedMessage,
+          toHistoryMessages(session.messages.slice(-4)),
+          awaitingConfirmation,
+          { owner: usageOwner(session), language }
+        ),
+        awaitingConfirmation
+      );
+
+  // Long-term memory from earlier sessions
+  const memory = await getActiveMemory(userId);
+
+  // Summarize turns that no longer fit in the context window
+  if (!escalated && endDecision === "continue") {
+    await ensureSessionSummary(session, trimmedMessage);
+  }
+
+  // Persistent low mood: Leo may offer a questionnaire, once per session
+  const suggestedAssessment =
+    !escalated && !exercise && endDecision === "continue" && !session.suggestedAssessment
+      ? await suggestAssessment(userId).catch((error) => {
+          logger.error("Error checking for an assessment suggestion:", error);
+          return null;
+        })
+      : null;
 
-      leoResponse = response.choices[0]?.message?.content?.trim() || 
-        "I'm here with you. What's been on your mind?";
-      
-      // Validate and sanitize the response
-      leoResponse = validateAndSanitizeResponse(leoResponse);
+  // Build message array for the LLM
+  const { messages: messagesForAPI, prompt } = await buildMessagesForAPI(
+    session,
+    trimmedMessage,
+    { memorySummary: buildMemorySummary(memory), suggestedAssessment }
+  );
+
+  // Analyze the user's turn alongside the reply
+  const analysisPromise = tryAnalyzeMessage(trimmedMessage, {
+    history: messagesForAPI,
+    memory: memory ? toAgentMemory(memory) : undefined,
+    owner: usageOwner(session),
+  });
+
+  const turn: ChatTurn = {
+    session,
+    userId,
+    userMessage: trimmedMessage,
+    messagesForAPI,
+    prompt,
+    endDecision,
+    analysisPromise,
+    crisis,
+    locale,
+    language,
+    detectedLanguage: detected,
+    edits,
+    exerciseBefore,
+    exercise,
+    ...(suggestedAssessment && { suggestedAssessment }),
+  };
+
+  // Stream the reply over SSE when the client asks for it
+  if (wantsEventStream(req)) {
+    return streamMessage(res, turn);
+  }
+
+  // Crisis, exercise, closing and soft-close replies skip the API call
+  const canned = getCannedReply(turn);
+  const reply = canned !== null
+    ? { content: canned }
+    : await generateReply(messagesForAPI, session, prompt).catch((error) =>
+        unavailableReply(error, turn.language)
+      );
+
+  const result = await completeTurn(turn, reply, await analysisPromise);
+
+  // Send response
+  res.json(result);
+}
+
+/**
+ * Streams Leo's reply token-by-token as Server-Sent Events.
+ *
+ * Events: `token` (partial text), `replace` (the final text differs from
+ * what was streamed, e.g. sanitized or swapped for the crisis response),
+ * `done` (final response + conversationComplete) and `error`.
+ * Messages are only saved once the stream has completed. If the model
+ * fails, the turn is saved with a placeholder reply sent as `replace`.
+ */
+async function streamMessage(res: Response, turn: ChatTurn) {
+  initEventStream(res);
+
+  const abortController = new AbortController();
+  let clientClosed = false;
+  res.on("close", () => {
+    if (!res.writableEnded) {
+      clientClosed = true;
+      abortController.abort();
     }
+  });
 
-    // Save messages to session
-    session.messages.push({
-      role: "user",
-      content: trimmedMessage,
-      timestamp: new Date(),
-    });
+  try {
+    let streamed = "";
+    let reply: AssistantReply;
+    const canned = getCannedReply(turn);
 
-    session.messages.push({
-      role: "assistant",
-      content: leoResponse,
-      timestamp: new Date(),
-    });
+    if (canned !== null) {
+      streamed = canned;
+      reply = { content: canned };
+      sendEvent(res, "token", { content: streamed });
+    } else {
+      const persona = getPersona(turn.session.persona);
+      try {
+        const completion = await getLLMProvider().stream(turn.messagesForAPI, {
+          model: getModel("chat"),
+          ...completionSettings(persona),
+          signal: abortController.signal,
+          accounting: { feature: "chat", ...usageOwner(turn.session) },
+          onToken: (content) => {
+            streamed += content;
+            sendEvent(res, "token", { content });
+          },
+        });
 
-    // Mark session as potentially complete if conversation is ending
-    if (shouldEndConversation) {
-      session.status = 'completed';
+        streamed = completion.content;
+        reply = {
+          content: validateAndSanitizeResponse(
+            streamed.trim() || getCatalog(turn.language).emptyReply,
+            turn.language
+          ),
+          generatedBy: {
+            provider: completion.provider,
+            model: completion.model,
+            persona: persona.id,
+          },
+          prompt: turn.prompt,
+        };
+      } catch (error) {
+        if (clientClosed) throw error;
+        reply = unavailableReply(error, turn.language);
+      }
     }
 
-    await session.save();
+    const analysis = await turn.analysisPromise;
+    if (clientClosed) return;
 
-    // Send response
-    res.json({
-      response: leoResponse,
-      conversationComplete: shouldEndConversation
-    });
+    const result = await completeTurn(turn, reply, analysis);
+
+    // Let the client drop what it rendered if the final text differs. The
+    // saved reply is trimmed, so surrounding whitespace alone doesn't count.
+    if (result.response !== streamed.trim()) {
+      sendEvent(res, "replace", { content: result.response });
+    }
 
+    sendEvent(res, "done", result);
   } catch (error) {
-    logger.error("Error in sendMessage:", error);
-    res.status(500).json({
+    if (clientClosed) {
+      logger.info(`Client closed stream for session ${turn.session.sessionId}`);
+      return;
+    }
+    logger.error("Error in streamMessage:", error);
+    sendEvent(res, "error", {
       message: "Error processing message",
       error: error instanceof Error ? error.message : "Unknown error",
     });
+  } finally {
+    closeEventStream(res);
   }
-};
+}
+
+/**
+ * Applies the post-analysis crisis check, saves both messages and records
+ * a CrisisEvent when needed.
+ */
+async function completeTurn(
+  turn: ChatTurn,
+  reply: AssistantReply,
+  analysis: MessageAnalysis | null
+): Promise<ChatTurnResult> {
+  const { session } = turn;
+
+  // The model's risk level can escalate a message the lexicon let through
+  const assessment = combineWithAnalysis(turn.crisis, analysis);
+  const crisisResponse = shouldEscalate(assessment)
+    ? getCrisisResponse(turn.locale, turn.language)
+    : null;
+
+  const response = crisisResponse
+    ? formatCrisisResponse(crisisResponse)
+    : reply.content;
+  const endDecision = crisisResponse ? "continue" : turn.endDecision;
+  if (crisisResponse) {
+    session.activeExercise = undefined;
+  }
+  const conversationComplete = endDecision === "close";
+
+  session.messages.push({
+    role: "user",
+    content: turn.userMessage,
+    timestamp: new Date(),
+    metadata: buildUserMessageMetadata(
+      analysis,
+      assessment,
+      turn.edits,
+      turn.detectedLanguage,
+      turn.exerciseBefore && {
+        before: turn.exerciseBefore,
+        ...(turn.exercise?.progress.recordId && {
+          recordId: turn.exercise.progress.recordId,
+        }),
+      }
+    ),
+  });
+  const userMessageId = session.messages[session.messages.length - 1]._id;
+
+  const unavailable = !crisisResponse && reply.unavailable === true;
+  const suggestion =
+    !crisisResponse && !unavailable && reply.generatedBy
+      ? turn.suggestedAssessment
+      : undefined;
+  if (suggestion) {
+    session.suggestedAssessment = suggestion.type;
+  }
+  session.messages.push({
+    role: "assistant",
+    content: response,
+    timestamp: new Date(),
+    ...(!crisisResponse && reply.generatedBy && {
+      metadata: { generatedBy: reply.generatedBy, prompt: reply.prompt },
+    }),
+    ...(unavailable && { metadata: { unavailable: true } }),
+  });
+  const assistantMessageId = session.messages[session.messages.length - 1]._id;
+
+  session.lastActivityAt = new Date();
+  const isFirstExchange = session.messages.length === 2 && !session.title;
+
+  // Mark session as complete, or as waiting for the user to confirm
+  session.status =
+    endDecision === "close"
+      ? "completed"
+      : endDecision === "soft_close"
+      ? "closing"
+      : "active";
+
+  await session.save();
+
+  // Name the session after its first exchange, without holding up the reply
+  if (isFirstExchange) {
+    autoTitleSession(session);
+  }
+
+  // Fold the finished session into the user's long-term memory
+  if (conversationComplete) {
+    sendSessionCompletedEvent({
+      sessionId: session.sessionId,
+      userId: turn.userId,
+    }).catch(() => {
+      // Already logged; memory catches up on the next completed session
+    });
+  }
+
+  await recordCrisisEvent({
+    userId: turn.userId,
+    assessment,
+    sessionId: session.sessionId,
+    messageId: userMessageId,
+    locale: turn.locale,
+  });
+
+  return {
+    response,
+    conversationComplete,
+    softClose: endDecision === "soft_close",
+    sessionStatus: session.status,
+    ...(crisisResponse && {
+      crisis: { tier: assessment.tier, ...crisisResponse },
+    }),
+    ...(!crisisResponse && turn.exercise && {
+      exercise: turn.exercise.progress,
+    }),
+    messageId: assistantMessageId?.toString(),
+    ...(unavailable && { replyUnavailable: true }),
+    ...(suggestion && {
+      suggestedAssessment: { type: suggestion.type, title: suggestion.title },
+    }),
+  };
+}
 
 // Helper Functions
 
 /**
- * Checks if the user's message indicates the conversation should end
+ * Loads the session from :sessionId and checks it belongs to the caller.
+ * Sends the error response itself and returns null when it can't be used.
+ */
+async function findOwnedSession(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<IChatSession | null> {
+  if (!req.user || !req.user.id) {
+    res.status(401).json({ message: "Unauthorized" });
+    return null;
+  }
+
+  const session = await ChatSession.findOne({ sessionId: req.params.sessionId });
+  if (!session) {
+    res.status(404).json({ message: "Session not found" });
+    return null;
+  }
+
+  if (session.userId.toString() !== req.user.id) {
+    res.status(403).json({ message: "Unauthorized" });
+    return null;
+  }
+
+  return session;
+}
+
+/**
+ * Who the session's LLM calls are billed to in usage accounting
  */
-function checkIfConversationShouldEnd(message: string): boolean {
-  const endingPatterns = [
-    // Gratitude and farewell
-    /^(thanks|thank you|thx|ty|bye|goodbye|see ya|talk later|cya)(\s|$)/i,
-    /i('m| am) (good|okay|fine|alright|better)$/i,
-    /that('s| is) (helpful|useful|good|enough)$/i,
-    /i('ll| will) try (that|it|this)$/i,
-    /^okay(\s|$)/i,
-    /^alright(\s|$)/i,
-    /sounds good$/i,
-    /i('ll| will) do that$/i,
-    /got it$/i,
-    /that makes sense$/i,
-    /i feel better$/i,
-    /i'm done (for now|today|talking)?$/i,
-    /appreciate it$/i,
-    /talk to you later$/i,
-    /thanks leo$/i,
-    /thank you leo$/i,
-    // Completion phrases
-    /i think that('s| is) all$/i,
-    /that's all for now$/i,
-    /no (more|further) questions$/i,
-    /i('m| am) all set$/i,
-    // Agreement and acceptance
-    /i('ll| will) give it a shot$/i,
-    /i('ll| will) take your advice$/i,
-    /i('ll| will) work on that$/i,
-    /you('re| are) right$/i,
-    /makes sense$/i,
-  ];
-
-  // Check for exact matches or patterns
-  return endingPatterns.some(pattern => pattern.test(message)) || 
-    // Also check for keywords in the message
-    containsEndingKeywords(message);
+function usageOwner(session: IChatSession): LLMUsageOwner {
+  return { userId: session.userId.toString(), sessionId: session.sessionId };
 }
 
 /**
- * Checks for ending keywords in the message
+ * Index of :messageId in the session, or -1
  */
-function containsEndingKeywords(message: string): boolean {
-  const endingKeywords = [
-    "bye", "goodbye", "thanks", "thank you", "thx", "ty",
-    "i'm done", "that's all", "talk later", "see you",
-    "i feel better", "i'm good now", "done for today",
-    "thanks leo", "appreciate it", "i'm okay", "i'm alright",
-    "okay thanks", "alright thanks", "got it thanks",
-    "will do", "sure thing", "understood", "no problem",
-    "take care", "have a good day", "good night"
-  ];
-
-  return endingKeywords.some(keyword => 
-    message.includes(keyword) || 
-    message.startsWith(keyword) ||
-    message.endsWith(keyword)
+function findMessageIndex(session: IChatSession, messageId: string): number {
+  return session.messages.findIndex(
+    (msg) => msg._id?.toString() === messageId
   );
 }
 
 /**
- * Builds the messages array for the API call
+ * Generates a title in the background. Only writes if the session still
+ * has none, so a rename in the meantime wins.
+ */
+function autoTitleSession(session: IChatSession) {
+  generateSessionTitle(session.messages, usageOwner(session))
+    .then((title) =>
+      ChatSession.updateOne(
+        { _id: session._id, title: { $exists: false } },
+        { $set: { title, titleSource: "generated" } }
+      )
+    )
+    .catch((error) => logger.error("Error auto-titling session:", error));
+}
+
+/**
+ * Shapes the analysis and crisis screening into the user message's metadata
+ */
+function buildUserMessageMetadata(
+  analysis: MessageAnalysis | null,
+  crisis: CrisisAssessment,
+  edits?: MessageEdit[],
+  language?: LanguageCode | null,
+  exercise?: ExerciseSnapshot
+): IChatMessage["metadata"] {
+  const metadata: IChatMessage["metadata"] = {};
+
+  if (language) {
+    metadata.language = language;
+  }
+
+  if (exercise) {
+    metadata.exercise = exercise;
+  }
+
+  if (edits && edits.length > 0) {
+    metadata.edits = edits;
+  }
+
+  if (analysis) {
+    metadata.analysis = analysis;
+    metadata.progress = {
+      emotionalState: analysis.emotionalState,
+      riskLevel: analysis.riskLevel,
+    };
+  }
+
+  if (crisis.tier !== "none") {
+    metadata.crisis = { tier: crisis.tier, score: crisis.score };
+  }
+
+  return Object.keys(metadata).length > 0 ? metadata : undefined;
+}
+
+/**
+ * Asks the LLM for Leo's reply in the session's persona and sanitizes it
+ */
+async function generateReply(
+  messagesForAPI: LLMMessage[],
+  session: IChatSession,
+  prompt: PromptRef
+): Promise<AssistantReply> {
+  const persona = getPersona(session.persona);
+  const completion = await getLLMProvider().complete(messagesForAPI, {
+    model: getModel("chat"),
+    ...completionSettings(persona),
+    accounting: { feature: "chat", ...usageOwner(session) },
+  });
+
+  return {
+    content: validateAndSanitizeResponse(
+      completion.content || getCatalog(session.language).emptyReply,
+      session.language
+    ),
+    generatedBy: {
+      provider: completion.provider,
+      model: completion.model,
+      persona: persona.id,
+    },
+    prompt,
+  };
+}
+
+/**
+ * Stand-in reply for when the model can't be reached, so the user's
+ * message is still saved. The client retries through regenerate.
+ */
+function unavailableReply(error: unknown, language: LanguageCode): AssistantReply {
+  logger.error("Chat reply unavailable, saving the turn with a placeholder:", error);
+  return {
+    content: getCatalog(language).unavailableReply,
+    unavailable: true,
+  };
+}
+
+/**
+ * Fixed replies that don't need the model: the crisis response, the next
+ * exercise step, the closing line and the "are you done?" check.
+ * Returns null for a normal turn.
  */
-function buildMessagesForAPI(session: any, currentMessage: string): any[] {
-  const messagesForAPI = [];
+function getCannedReply(turn: ChatTurn): string | null {
+  if (shouldEscalate(turn.crisis)) {
+    return formatCrisisResponse(getCrisisResponse(turn.locale, turn.language));
+  }
+  if (turn.exercise) return turn.exercise.reply;
+  if (turn.endDecision === "close") {
+    return pickLine(getCatalog(turn.language).closings);
+  }
+  if (turn.endDecision === "soft_close") {
+    return getSoftCloseResponse(turn.language);
+  }
+  return null;
+}
 
-  // System prompt – strict, safe, natural, and human
+/**
+ * Builds the messages array for the API call, along with the version of
+ * the system prompt it used
+ */
+async function buildMessagesForAPI(
+  session: IChatSession,
+  currentMessage: string,
+  context: PromptContext = {},
+  // Defaults to the whole session; regenerate passes the turns before the reply
+  history: IChatMessage[] = session.messages
+): Promise<{ messages: LLMMessage[]; prompt: PromptRef }> {
+  const messagesForAPI: LLMMessage[] = [];
+
+  // System prompt for the session's persona – strict, safe, natural, and human
+  const systemPrompt = await renderPrompt(
+    "chat.system",
+    personaPromptValues(getPersona(session.persona)),
+    { userId: session.userId }
+  );
+  messagesForAPI.push({ role: "system", content: systemPrompt.content });
+
+  // Prompts are written in English; the reply follows the conversation
+  const language = getLanguage(session.language || "en");
   messagesForAPI.push({
     role: "system",
-    content: `
-      You are Leo, a warm, caring, down-to-earth counselor who feels like a trusted friend.
-      You only talk about feelings, stress, school/exams, sleep, anxiety, low mood, motivation, relationships, self-care.
-      Never answer unrelated topics (news, tech, politics, facts, homework answers, finance, sports, etc.) — gently redirect: "I'm here for how you're feeling or what's on your mind personally — what's been weighing on you?"
-      Never diagnose, label conditions, give medical/legal advice, or discuss suicide/self-harm in any way.
-      If someone mentions deep hopelessness or self-harm thoughts: brief empathy only + "This feels really heavy right now. Please reach out to someone you trust or a crisis hotline immediately — you deserve real support. I'm still here to listen."
-      Keep responses short: 3–6 sentences max. Sound casual, kind, human.
-      Start with varied natural empathy every time — examples: "Ouch, that's rough", "Yeah, that sounds heavy", "No wonder you're feeling tired", "Man, I get why that hurts", "That hits hard", "I'm glad you shared — sounds tough".
-      Never repeat the same opening phrase.
-      When they share a struggle or ask for help, give 1–3 simple optional ideas (e.g., breathing for anxiety, 5-min start for procrastination, dim screens for sleep).
-      End with one gentle open question if needed— but NEVER if they say goodbye, thanks, or seem done.
-      Be encouraging: "Small steps count", "Be kind to yourself", "You're doing great by talking".
-      
-      IMPORTANT: If the user seems satisfied with your advice (says things like "alright", "ill try that", "okay thanks", "i'll do that"), 
-      acknowledge their willingness to try and offer a brief closing without asking follow-up questions.
-      Example: "Glad to hear you're willing to give it a try. Remember to go easy on yourself. I'm here if you need me."
-    `.replace(/\s+/g, ' ').trim()
+    content: `Always reply in ${language.name}.`,
   });
 
-  // Add recent conversation history (last 20 messages = ~10 turns)
-  const history = session.messages.slice(-20);
-  for (const msg of history) {
+  // What Leo remembers from earlier sessions
+  if (context.memorySummary) {
     messagesForAPI.push({
-      role: msg.role === 'user' ? 'user' : 'assistant',
-      content: msg.content.trim()
+      role: "system",
+      content:
+        "What you remember about this person from earlier conversations " +
+        "(use it naturally, don't recite it):\n" + context.memorySummary,
     });
   }
 
+  // Mood check-ins have been low for days; a questionnaire may help
+  if (context.suggestedAssessment) {
+    messagesForAPI.push({
+      role: "system",
+      content:
+        "This person's mood check-ins have been low for several days in a row. " +
+        `If it fits the conversation, gently offer the ${context.suggestedAssessment.title}, ` +
+        "a short questionnaire they can fill in in the app, as a way to keep track of " +
+        "how they are doing. Don't push it, and never present it as a diagnosis.",
+    });
+  }
+
+  // Earlier part of the conversation, summarized
+  if (session.summary?.content) {
+    messagesForAPI.push({
+      role: "system",
+      content: `Summary of the earlier part of this conversation:\n${session.summary.content}`,
+    });
+  }
+
+  // Add recent conversation history that fits the token budget
+  const budget = getContextBudget();
+  const windowStart = findWindowStart(
+    history,
+    Math.min(estimateTokens(currentMessage), budget.maxMessageTokens),
+    budget
+  );
+  messagesForAPI.push(...toHistoryMessages(history.slice(windowStart), budget));
+
   // Add current user message
   messagesForAPI.push({
     role: "user",
-    content: currentMessage
+    content: truncateToTokens(currentMessage, budget.maxMessageTokens)
   });
 
-  return messagesForAPI;
-}
-
-/**
- * Gets an appropriate closing response
- */
-function getClosingResponse(): string {
-  const closings = [
-    "Take care — really glad we talked today.",
-    "You're welcome. I'm here anytime you need me.",
-    "Thanks for sharing. Be gentle with yourself.",
-    "Anytime. Rest well and come back when you want.",
-    "Proud of you for opening up. See you soon.",
-    "Glad I could listen. Take good care.",
-    "Happy to help. Remember, small steps make a big difference.",
-    "Wishing you well. Come back whenever you need to talk.",
-    "Take things one day at a time. You've got this.",
-    "I'm glad you're willing to try that. Be patient with yourself.",
-    "Sounds like a plan. Remember to be kind to yourself along the way.",
-    "I'm here whenever you need support. Take it easy."
-  ];
-  
-  return closings[Math.floor(Math.random() * closings.length)];
+  return { messages: messagesForAPI, prompt: systemPrompt.ref };
 }
 
 /**
  * Validates and sanitizes the AI response
  */
-function validateAndSanitizeResponse(response: string): string {
-  // Remove any potential harmful content or disallowed topics
-  const disallowedPatterns = [
-    /(prescribe|medication|diagnosis|diagnose|suicide|self-harm|cutting)/gi,
-  ];
+function validateAndSanitizeResponse(
+  response: string,
+  language?: LanguageCode
+): string {
+  const catalog = getCatalog(language);
 
-  let sanitized = response;
-  
-  // Check for disallowed content
-  for (const pattern of disallowedPatterns) {
-    if (pattern.test(response)) {
-      // Return a safe default response if concerning content is detected
-      return "I'm here to listen and support you with what you're going through. If you're dealing with something serious, please reach out to a trusted person or professional who can provide immediate help.";
-    }
+  // Swap out replies that diagnose, prescribe or describe self-harm
+  const unsafeRules = findUnsafeReplyRules(response);
+  if (unsafeRules.length > 0) {
+    logger.warn("Replaced unsafe assistant reply", { rules: unsafeRules });
+    return catalog.unsafeReply;
   }
 
   // Ensure response isn't empty
-  if (!sanitized || sanitized.length < 2) {
-    return "I'm here with you. What's been on your mind?";
+  if (!response || response.length < 2) {
+    return catalog.emptyReply;
   }
 
-  return sanitized;
+  return response;
 }
 
 // Get session history
@@ -333,6 +899,19 @@ export const getSessionHistory = async (req: AuthenticatedRequest, res: Response
   }
 };
 
+type SessionStatus = IChatSession["status"];
+
+const SESSION_STATUSES: SessionStatus[] = ["active", "closing", "completed", "archived"];
+
+const isSessionStatus = (value: string): value is SessionStatus =>
+  (SESSION_STATUSES as string[]).includes(value);
+
+// Sortable fields for the session list
+const SESSION_SORT_FIELDS = {
+  lastActivity: "lastActivityAt",
+  startTime: "startTime",
+} as const;
+
 // Get all sessions for user
 export const getAllChatSessions = async (req: AuthenticatedRequest, res: Response) => {
   try {
@@ -341,11 +920,47 @@ export const getAllChatSessions = async (req: AuthenticatedRequest, res: Respons
     }
     
     const userId = new Types.ObjectId(req.user.id);
-    const sessions = await ChatSession.find({ userId }).sort({ startTime: -1 });
-    
-    const simplifiedSessions = sessions.map(session => ({
+
+    // ?status=active,completed (archived sessions are hidden unless asked for)
+    const statuses = typeof req.query.status === "string"
+      ? req.query.status.split(",").map((s) => s.trim())
+      : SESSION_STATUSES.filter((s) => s !== "archived");
+    if (!statuses.every(isSessionStatus)) {
+      return res.status(400).json({
+        message: `status must be one of ${SESSION_STATUSES.join(", ")}`,
+      });
+    }
+
+    const sortKey = (req.query.sort as string) || "lastActivity";
+    if (!isOwnKey(SESSION_SORT_FIELDS, sortKey)) {
+      return res.status(400).json({
+        message: `sort must be one of ${Object.keys(SESSION_SORT_FIELDS).join(", ")}`,
+      });
+    }
+    const sortField = SESSION_SORT_FIELDS[sortKey];
+    const direction = req.query.order === "asc" ? 1 : -1;
+    const limit = parseLimit(req.query.limit);
+
+    const filter: Record<string, any> = { userId, status: { $in: statuses } };
+    if (typeof req.query.cursor === "string") {
+      const after = cursorFilter(req.query.cursor, sortField, direction);
+      if (!after) return res.status(400).json({ message: "Invalid cursor" });
+      Object.assign(filter, after);
+    }
+
+    await ensureLastActivityBackfilled();
+    const sessions = await ChatSession.find(filter)
+      .sort({ [sortField]: direction, _id: direction })
+      .limit(limit + 1);
+
+    const page = toPage(sessions, limit, (session) => session[sortField]);
+
+    const simplifiedSessions = page.items.map(session => ({
       sessionId: session.sessionId,
+      title: session.title || null,
+      persona: getPersona(session.persona).id,
       startTime: session.startTime,
+      lastActivityAt: session.lastActivityAt,
       status: session.status,
       messagesCount: session.messages.length,
       lastMessage: session.messages.length > 0 
@@ -353,7 +968,7 @@ export const getAllChatSessions = async (req: AuthenticatedRequest, res: Respons
         : null
     }));
 
-    res.json(simplifiedSessions);
+    res.json({ sessions: simplifiedSessions, nextCursor: page.nextCursor });
   } catch (error) {
     logger.error("Error fetching all chat sessions:", error);
     res.status(500).json({ message: "Error fetching chat sessions" });
@@ -363,10 +978,8 @@ export const getAllChatSessions = async (req: AuthenticatedRequest, res: Respons
 // Get specific chat session
 export const getChatSession = async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { sessionId } = req.params;
-    const chatSession = await ChatSession.findOne({ sessionId });
-    if (!chatSession)
-      return res.status(404).json({ error: "Chat session not found" });
+    const chatSession = await findOwnedSession(req, res);
+    if (!chatSession) return;
 
     res.json(chatSession);
   } catch (error) {
@@ -397,4 +1010,658 @@ export const getChatHistory = async (req: AuthenticatedRequest, res: Response) =
     logger.error("Error fetching chat history:", error);
     res.status(500).json({ message: "Error fetching chat history" });
   }
-};
\ No newline at end of file
+};
+
+// Get the emotional state / risk timeline for a session
+export const getSessionAnalysis = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const session = await findOwnedSession(req, res);
+    if (!session) return;
+
+    const timeline = session.messages
+      .filter((msg) => msg.role === "user" && msg.metadata?.analysis)
+      .map((msg) => ({
+        messageId: msg._id,
+        timestamp: msg.timestamp,
+        emotionalState: msg.metadata!.analysis!.emotionalState,
+        riskLevel: msg.metadata!.analysis!.riskLevel,
+        themes: msg.metadata!.analysis!.themes,
+        recommendedApproach: msg.metadata!.analysis!.recommendedApproach,
+      }));
+
+    const riskLevels = timeline.map((entry) => entry.riskLevel);
+
+    res.json({
+      sessionId: session.sessionId,
+      timeline,
+      summary: {
+        analyzedMessages: timeline.length,
+        latestEmotionalState:
+          timeline.length > 0 ? timeline[timeline.length - 1].emotionalState : null,
+        maxRiskLevel: riskLevels.length > 0 ? Math.max(...riskLevels) : null,
+        averageRiskLevel:
+          riskLevels.length > 0
+            ? riskLevels.reduce((sum, level) => sum + level, 0) / riskLevels.length
+            : null,
+      },
+    });
+  } catch (error) {
+    logger.error("Error fetching session analysis:", error);
+    res.status(500).json({ message: "Error fetching session analysis" });
+  }
+};
+
+// End a session explicitly (e.g. the user confirms they are done)
+export const endChatSession = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const session = await findOwnedSession(req, res);
+    if (!session) return;
+
+    if (session.status !== "active" && session.status !== "closing") {
+      return res
+        .status(409)
+        .json({ message: `Session is already ${session.status}` });
+    }
+
+    session.status = "completed";
+    await session.save();
+
+    sendSessionCompletedEvent({
+      sessionId: session.sessionId,
+      userId: session.userId,
+    }).catch(
+      () => {
+        // Already logged; memory catches up on the next completed session
+      }
+    );
+
+    res.json({ sessionId: session.sessionId, status: session.status });
+  } catch (error) {
+    logger.error("Error ending chat session:", error);
+    res.status(500).json({ message: "Error ending chat session" });
+  }
+};
+
+// Rename a session
+export const renameChatSession = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { title } = req.body;
+    if (typeof title !== "string" || !title.trim()) {
+      return res.status(400).json({ message: "Title is required" });
+    }
+    if (title.trim().length > 120) {
+      return res
+        .status(400)
+        .json({ message: "Title must be at most 120 characters" });
+    }
+
+    const session = await findOwnedSession(req, res);
+    if (!session) return;
+
+    session.title = title.trim();
+    session.titleSource = "user";
+    await session.save();
+
+    res.json({ sessionId: session.sessionId, title: session.title });
+  } catch (error) {
+    logger.error("Error renaming chat session:", error);
+    res.status(500).json({ message: "Error renaming chat session" });
+  }
+};
+
+// Generate a short title from the first exchange
+export const generateChatSessionTitle = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const session = await findOwnedSession(req, res);
+    if (!session) return;
+
+    if (session.messages.length === 0) {
+      return res
+        .status(409)
+        .json({ message: "Session has no messages to title yet" });
+    }
+
+    session.title = await generateSessionTitle(
+      session.messages,
+      usageOwner(session)
+    );
+    session.titleSource = "generated";
+    await session.save();
+
+    res.json({ sessionId: session.sessionId, title: session.title });
+  } catch (error) {
+    logger.error("Error generating chat session title:", error);
+    res.status(500).json({ message: "Error generating chat session title" });
+  }
+};
+
+// Archive a session (hidden from the default list, read-only)
+export const archiveChatSession = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const session = await findOwnedSession(req, res);
+    if (!session) return;
+
+    if (session.status === "archived") {
+      return res.status(409).json({ message: "Session is already archived" });
+    }
+
+    session.statusBeforeArchive = session.status;
+    session.status = "archived";
+    await session.save();
+
+    res.json({ sessionId: session.sessionId, status: session.status });
+  } catch (error) {
+    logger.error("Error archiving chat session:", error);
+    res.status(500).json({ message: "Error archiving chat session" });
+  }
+};
+
+// Unarchive a session, restoring the status it had before
+export const unarchiveChatSession = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const session = await findOwnedSession(req, res);
+    if (!session) return;
+
+    if (session.status !== "archived") {
+      return res.status(409).json({ message: "Session is not archived" });
+    }
+
+    session.status = session.statusBeforeArchive || "completed";
+    session.statusBeforeArchive = undefined;
+    await session.save();
+
+    res.json({ sessionId: session.sessionId, status: session.status });
+  } catch (error) {
+    logger.error("Error unarchiving chat session:", error);
+    res.status(500).json({ message: "Error unarchiving chat session" });
+  }
+};
+
+// Reopen a completed session
+export const reopenChatSession = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const session = await findOwnedSession(req, res);
+    if (!session) return;
+
+    if (session.status !== "completed") {
+      return res
+        .status(409)
+        .json({ message: "Only completed sessions can be reopened" });
+    }
+
+    session.status = "active";
+    session.lastActivityAt = new Date();
+    await session.save();
+
+    res.json({ sessionId: session.sessionId, status: session.status });
+  } catch (error) {
+    logger.error("Error reopening chat session:", error);
+    res.status(500).json({ message: "Error reopening chat session" });
+  }
+};
+
+// Permanently delete a session and its messages
+export const deleteChatSession = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const session = await findOwnedSession(req, res);
+    if (!session) return;
+
+    await session.deleteOne();
+    logger.info(`Chat session ${session.sessionId} deleted by its owner`);
+
+    res.json({ message: "Chat session deleted", sessionId: session.sessionId });
+  } catch (error) {
+    logger.error("Error deleting chat session:", error);
+    res.status(500).json({ message: "Error deleting chat session" });
+  }
+};
+
+// Regenerate the latest assistant reply, keeping the previous versions
+export const regenerateReply = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const session = await findOwnedSession(req, res);
+    if (!session) return;
+
+    if (session.status === "archived") {
+      return res
+        .status(409)
+        .json({ message: "Session is archived. Unarchive it to keep chatting." });
+    }
+
+    const index = findMessageIndex(session, req.params.messageId);
+    if (index === -1) return res.status(404).json({ message: "Message not found" });
+
+    const reply = session.messages[index];
+    const userMessage = session.messages[index - 1];
+    if (
+      reply.role !== "assistant" ||
+      index !== session.messages.length - 1 ||
+      userMessage?.role !== "user"
+    ) {
+      return res
+        .status(409)
+        .json({ message: "Only the latest assistant reply can be regenerated" });
+    }
+
+    // The crisis response is fixed on purpose
+    const crisis = userMessage.metadata?.crisis;
+    if (crisis && shouldEscalate({ ...crisis, triggers: [] })) {
+      return res
+        .status(409)
+        .json({ message: "Safety responses can't be regenerated" });
+    }
+
+    // So are exercise steps: the reply asks the next step, and a model
+    // reply in its place would leave the exercise waiting on an unasked step
+    if (userMessage.metadata?.exercise) {
+      return res
+        .status(409)
+        .json({ message: "Exercise steps can't be regenerated. Edit your answer instead." });
+    }
+
+    // A summary that already covers the reply being replaced is rebuilt
+    // from the turns before it
+    const history = session.messages.slice(0, index - 1);
+    invalidateSummaryFrom(session, index);
+    await ensureSessionSummary(session, userMessage.content, history);
+
+    const memory = await getActiveMemory(session.userId);
+    const { messages: messagesForAPI, prompt } = await buildMessagesForAPI(
+      session,
+      userMessage.content,
+      { memorySummary: buildMemorySummary(memory) },
+      history
+    );
+    let regenerated: AssistantReply;
+    try {
+      regenerated = await generateReply(messagesForAPI, session, prompt);
+    } catch (error) {
+      if (!(error instanceof LLMError)) throw error;
+      // Keep the current reply; the client can try again shortly
+      logger.error("Error regenerating reply:", error);
+      const retryAfterMs =
+        error instanceof LLMCircuitOpenError ? error.retryAfterMs : 0;
+      if (retryAfterMs > 0) {
+        res.set("Retry-After", String(Math.ceil(retryAfterMs / 1000)));
+      }
+      return res
+        .status(503)
+        .json({ message: "Leo can't reply right now. Please try again shortly." });
+    }
+
+    // A placeholder from a failed turn isn't worth keeping as a version
+    const variants = [...(reply.metadata?.variants || [])];
+    if (!reply.metadata?.unavailable) {
+      variants.push({
+        content: reply.content,
+        timestamp: reply.timestamp,
+        generatedBy: reply.metadata?.generatedBy,
+        prompt: reply.metadata?.prompt,
+        rating: reply.metadata?.rating,
+      });
+    }
+
+    const path = `messages.${index}`;
+    session.set(`${path}.content`, regenerated.content);
+    session.set(`${path}.timestamp`, new Date());
+    session.set(`${path}.metadata.generatedBy`, regenerated.generatedBy);
+    session.set(`${path}.metadata.prompt`, regenerated.prompt);
+    session.set(`${path}.metadata.variants`, variants);
+    session.set(`${path}.metadata.rating`, undefined);
+    session.set(`${path}.metadata.unavailable`, undefined);
+    session.lastActivityAt = new Date();
+    await session.save();
+
+    res.json({
+      messageId: reply._id,
+      response: regenerated.content,
+      variants,
+    });
+  } catch (error) {
+    logger.error("Error regenerating reply:", error);
+    res.status(500).json({
+      message: "Error regenerating reply",
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
+// Edit the user's latest message and re-run the turn
+export const editMessage = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { content } = req.body;
+    if (!content || typeof content !== "string" || !content.trim()) {
+      return res.status(400).json({ message: "Message is required" });
+    }
+
+    const session = await findOwnedSession(req, res);
+    if (!session) return;
+
+    if (session.status === "archived") {
+      return res
+        .status(409)
+        .json({ message: "Session is archived. Unarchive it to keep chatting." });
+    }
+
+    const index = findMessageIndex(session, req.params.messageId);
+    if (index === -1) return res.status(404).json({ message: "Message not found" });
+
+    const original = session.messages[index];
+    const lastUserIndex = session.messages
+      .map((msg) => msg.role)
+      .lastIndexOf("user");
+    if (original.role !== "user" || index !== lastUserIndex) {
+      return res
+        .status(409)
+        .json({ message: "Only your latest message can be edited" });
+    }
+
+    const edits: MessageEdit[] = [
+      ...(original.metadata?.edits || []),
+      { content: original.content, editedAt: new Date() },
+    ];
+
+    // Drop the old turn; runChatTurn saves the edited one in its place.
+    // A guided exercise goes back to the step the old text answered, and a
+    // summary that covers the old turn is rebuilt.
+    const exercise = original.metadata?.exercise;
+    rewindExercise(session, exercise);
+    invalidateSummaryFrom(session, index);
+    session.messages.splice(index);
+
+    await runChatTurn(req, res, session, content.trim(), edits);
+
+    // An exercise the old text finished no longer stands as recorded. The
+    // reply has been sent by now, so a failure here is only logged.
+    await discardExerciseRecord(session, exercise).catch((error) => {
+      logger.error("Error discarding exercise record:", error);
+    });
+  } catch (error) {
+    logger.error("Error editing message:", error);
+    res.status(500).json({
+      message: "Error editing message",
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
+// Rate an assistant reply with thumbs up / down
+export const rateMessage = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { rating, reason } = req.body;
+    if (rating !== "up" && rating !== "down") {
+      return res.status(400).json({ message: 'rating must be "up" or "down"' });
+    }
+    if (reason !== undefined && (typeof reason !== "string" || reason.length > 500)) {
+      return res
+        .status(400)
+        .json({ message: "reason must be a string of at most 500 characters" });
+    }
+
+    const session = await findOwnedSession(req, res);
+    if (!session) return;
+
+    const index = findMessageIndex(session, req.params.messageId);
+    if (index === -1) return res.status(404).json({ message: "Message not found" });
+
+    if (session.messages[index].role !== "assistant") {
+      return res
+        .status(400)
+        .json({ message: "Only assistant replies can be rated" });
+    }
+
+    const messageRating: MessageRating = {
+      value: rating,
+      reason: reason?.trim() || undefined,
+      ratedAt: new Date(),
+    };
+    session.set(`messages.${index}.metadata.rating`, messageRating);
+    await session.save();
+
+    res.json({ messageId: req.params.messageId, rating: messageRating });
+  } catch (error) {
+    logger.error("Error rating message:", error);
+    res.status(500).json({ message: "Error rating message" });
+  }
+};
+
+// Search the user's messages across all sessions
+export const searchMessages = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user || !req.user.id) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const query = typeof req.query.q === "string" ? req.query.q.trim() : "";
+    if (query.length < 2) {
+      return res
+        .status(400)
+        .json({ message: "q must be at least 2 characters" });
+    }
+
+    const role = req.query.role as string | undefined;
+    if (role !== undefined && role !== "user" && role !== "assistant") {
+      return res
+        .status(400)
+        .json({ message: 'role must be "user" or "assistant"' });
+    }
+
+    const from = req.query.from ? new Date(String(req.query.from)) : undefined;
+    const to = req.query.to ? new Date(String(req.query.to)) : undefined;
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      return res.status(400).json({ message: "from and to must be valid dates" });
+    }
+
+    const limit = parseLimit(req.query.limit);
+    const offset = Math.max(0, Number.parseInt(String(req.query.offset ?? 0), 10) || 0);
+
+    const { results, hasMore } = await searchChatMessages({
+      userId: new Types.ObjectId(req.user.id),
+      query,
+      role,
+      from,
+      to,
+      limit,
+      offset,
+    });
+
+    res.json({
+      query,
+      results,
+      nextOffset: hasMore ? offset + limit : null,
+    });
+  } catch (error) {
+    logger.error("Error searching chat messages:", error);
+    res.status(500).json({ message: "Error searching chat messages" });
+  }
+};
+
+// Most sessions a single bulk export will include
+const MAX_EXPORT_SESSIONS = 200;
+
+/**
+ * Reads ?format= and ?includeMetadata= for the export endpoints.
+ * Sends a 400 and returns null when the format is unknown.
+ */
+function parseExportOptions(
+  req: Request,
+  res: Response
+): { format: ExportFormat; includeMetadata: boolean } | null {
+  const format = ((req.query.format as string) || "md").toLowerCase();
+  if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+    res.status(400).json({
+      message: `format must be one of ${EXPORT_FORMATS.join(", ")}`,
+    });
+    return null;
+  }
+
+  return {
+    format: format as ExportFormat,
+    includeMetadata: req.query.includeMetadata === "true",
+  };
+}
+
+async function sendExport(
+  res: Response,
+  sessions: IChatSession[],
+  options: { format: ExportFormat; includeMetadata: boolean },
+  filename: string
+) {
+  const body = await renderExport(
+    sessions.map((session) => toExportedSession(session, options)),
+    options.format
+  );
+
+  res.setHeader("Content-Type", EXPORT_CONTENT_TYPES[options.format]);
+  res.setHeader(
+    "Content-Disposition",
+    `attachment; filename="${filename}.${options.format}"`
+  );
+  res.send(body);
+}
+
+// Export one session (?format=md|json|pdf&includeMetadata=true)
+export const exportChatSession = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const options = parseExportOptions(req, res);
+    if (!options) return;
+
+    const session = await findOwnedSession(req, res);
+    if (!session) return;
+
+    await sendExport(res, [session], options, `leo-session-${session.sessionId}`);
+  } catch (error) {
+    logger.error("Error exporting chat session:", error);
+    res.status(500).json({ message: "Error exporting chat session" });
+  }
+};
+
+// Export every session started in a date range (?from=&to=&format=&includeMetadata=)
+export const exportChatSessions = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user || !req.user.id) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const options = parseExportOptions(req, res);
+    if (!options) return;
+
+    const from = req.query.from ? new Date(String(req.query.from)) : undefined;
+    const to = req.query.to ? new Date(String(req.query.to)) : undefined;
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      return res.status(400).json({ message: "from and to must be valid dates" });
+    }
+
+    const filter: Record<string, any> = { userId: new Types.ObjectId(req.user.id) };
+    if (from || to) {
+      filter.startTime = {
+        ...(from && { $gte: from }),
+        ...(to && { $lte: to }),
+      };
+    }
+
+    const sessions = await ChatSession.find(filter)
+      .sort({ startTime: 1, _id: 1 })
+      .limit(MAX_EXPORT_SESSIONS + 1);
+    if (sessions.length === 0) {
+      return res.status(404).json({ message: "No sessions in that range" });
+    }
+    if (sessions.length > MAX_EXPORT_SESSIONS) {
+      return res.status(400).json({
+        message: `Too many sessions to export at once (max ${MAX_EXPORT_SESSIONS}); narrow the date range`,
+      });
+    }
+
+    const day = (date: Date) => date.toISOString().slice(0, 10);
+    const filename = `leo-sessions-${day(from || sessions[0].startTime)}-to-${day(
+      to || new Date()
+    )}`;
+
+    await sendExport(res, sessions, options, filename);
+  } catch (error) {
+    logger.error("Error exporting chat sessions:", error);
+    res.status(500).json({ message: "Error exporting chat sessions" });
+  }
+};
+
+// List the personas a session can use
+export const getPersonas = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json({ personas: listPersonas().map(toPersonaSummary) });
+  } catch (error) {
+    logger.error("Error listing personas:", error);
+    res.status(500).json({ message: "Error listing personas" });
+  }
+};
+
+// List the languages Leo can talk in
+export const getLanguages = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json({ languages: listLanguages() });
+  } catch (error) {
+    logger.error("Error listing languages:", error);
+    res.status(500).json({ message: "Error listing languages" });
+  }
+};
+
+// Start a guided exercise inside the session
+export const startChatExercise = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { type } = req.body;
+    if (!isExerciseType(type)) {
+      return res.status(400).json({
+        message: `type must be one of ${listExercises().map((e) => e.type).join(", ")}`,
+      });
+    }
+
+    const session = await findOwnedSession(req, res);
+    if (!session) return;
+
+    if (session.status === "archived") {
+      return res
+        .status(409)
+        .json({ message: "Session is archived. Unarchive it to keep chatting." });
+    }
+    if (session.activeExercise) {
+      return res.status(409).json({
+        message: "An exercise is already in progress in this session",
+        exercise: toExerciseProgress(session.activeExercise),
+      });
+    }
+
+    const { reply, progress } = startExercise(session, type);
+    session.messages.push({
+      role: "assistant",
+      content: reply,
+      timestamp: new Date(),
+    });
+    session.status = "active";
+    session.lastActivityAt = new Date();
+    await session.save();
+
+    res.status(201).json({ response: reply, exercise: progress });
+  } catch (error) {
+    logger.error("Error starting exercise:", error);
+    res.status(500).json({ message: "Error starting exercise" });
+  }
+};
+
+// Stop the exercise in progress; answers so far are discarded
+export const cancelChatExercise = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const session = await findOwnedSession(req, res);
+    if (!session) return;
+
+    if (!session.activeExercise) {
+      return res.status(404).json({ message: "No exercise in progress" });
+    }
+
+    session.activeExercise = undefined;
+    await session.save();
+
+    res.json({ message: "Exercise cancelled" });
+  } catch (error) {
+    logger.error("Error cancelling exercise:", error);
+    res.status(500).json({ message: "Error cancelling exercise" });
+  }
+};
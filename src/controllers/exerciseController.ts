@@ -0,0 +1,87 @@
+import { Request, Response } from "express";
+import { Types } from "mongoose";
+import { ExerciseRecord } from "../models/ExerciseRecord";
+import { logger } from "../utils/logger";
+import { parseLimit, cursorFilter, toPage } from "../utils/pagination";
+import { isExerciseType, listExercises } from "../services/exercises";
+
+// List the guided exercises that can be started in a chat session
+export const getExerciseTypes = async (req: Request, res: Response) => {
+  try {
+    res.status(200).json({
+      exercises: listExercises().map(({ type, title, description, steps }) => ({
+        type,
+        title,
+        description,
+        steps: steps.length,
+      })),
+    });
+  } catch (error) {
+    logger.error("Error listing exercises:", error);
+    res.status(500).json({ message: "Error listing exercises" });
+  }
+};
+
+// List the user's completed exercises, newest first (?type=&limit=&cursor=)
+export const getExerciseRecords = async (req: Request, res: Response) => {
+  try {
+    if (!req.user || !req.user._id) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const filter: Record<string, any> = { userId: req.user._id };
+
+    if (req.query.type !== undefined) {
+      if (!isExerciseType(req.query.type)) {
+        return res.status(400).json({
+          message: `type must be one of ${listExercises().map((e) => e.type).join(", ")}`,
+        });
+      }
+      filter.type = req.query.type;
+    }
+
+    if (typeof req.query.cursor === "string") {
+      const after = cursorFilter(req.query.cursor, "completedAt", -1);
+      if (!after) return res.status(400).json({ message: "Invalid cursor" });
+      Object.assign(filter, after);
+    }
+
+    const limit = parseLimit(req.query.limit);
+    const records = await ExerciseRecord.find(filter)
+      .sort({ completedAt: -1, _id: -1 })
+      .limit(limit + 1);
+
+    const page = toPage(records, limit, (record) => record.completedAt);
+
+    res.status(200).json({ records: page.items, nextCursor: page.nextCursor });
+  } catch (error) {
+    logger.error("Error fetching exercise records:", error);
+    res.status(500).json({ message: "Error fetching exercise records" });
+  }
+};
+
+// Get one completed exercise
+export const getExerciseRecord = async (req: Request, res: Response) => {
+  try {
+    if (!req.user || !req.user._id) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    if (!Types.ObjectId.isValid(req.params.id)) {
+      return res.status(404).json({ message: "Exercise record not found" });
+    }
+
+    const record = await ExerciseRecord.findOne({
+      _id: req.params.id,
+      userId: req.user._id,
+    });
+    if (!record) {
+      return res.status(404).json({ message: "Exercise record not found" });
+    }
+
+    res.status(200).json({ record });
+  } catch (error) {
+    logger.error("Error fetching exercise record:", error);
+    res.status(500).json({ message: "Error fetching exercise record" });
+  }
+};
@@ -0,0 +1,303 @@
+import { Request, Response } from "express";
+import { Types } from "mongoose";
+import { ActivityGuide, IActivityGuide } from "../models/ActivityGuide";
+import { GuidedRun } from "../models/GuidedRun";
+import { logger } from "../utils/logger";
+import { parseLimit, cursorFilter, toPage } from "../utils/pagination";
+import {
+  completeRun,
+  findGuide,
+  guideMinutes,
+  listGuides,
+  recordStep,
+  startRun,
+  toRunProgress,
+} from "../services/guides";
+import { notifyActivityCompleted } from "../services/activities";
+import {
+  ActivityDifficulty,
+  ActivityType,
+  ACTIVITY_DIFFICULTIES,
+  ACTIVITY_TYPES,
+} from "../types/activity";
+import { MoodEmotion, MOOD_EMOTIONS } from "../types/mood";
+
+const MAX_FEEDBACK_LENGTH = 2000;
+
+const isMoodScore = (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0 && value <= 100;
+
+// Catalog entry without its steps
+const toGuideSummary = (guide: IActivityGuide) => ({
+  slug: guide.slug,
+  title: guide.title,
+  summary: guide.summary,
+  activityType: guide.activityType,
+  difficulty: guide.difficulty,
+  tags: guide.tags,
+  targetEmotions: guide.targetEmotions,
+  steps: guide.steps.length,
+  minutes: guideMinutes(guide),
+});
+
+// Browse the guided activity catalog (?type&difficulty&tag&emotion&maxMinutes)
+export const getGuides = async (req: Request, res: Response) => {
+  try {
+    const { type, difficulty, tag, emotion, maxMinutes } = req.query;
+
+    if (type !== undefined && !ACTIVITY_TYPES.includes(type as ActivityType)) {
+      return res
+        .status(400)
+        .json({ message: `type must be one of ${ACTIVITY_TYPES.join(", ")}` });
+    }
+    if (
+      difficulty !== undefined &&
+      !ACTIVITY_DIFFICULTIES.includes(difficulty as ActivityDifficulty)
+    ) {
+      return res.status(400).json({
+        message: `difficulty must be one of ${ACTIVITY_DIFFICULTIES.join(", ")}`,
+      });
+    }
+    if (emotion !== undefined && !MOOD_EMOTIONS.includes(emotion as MoodEmotion)) {
+      return res
+        .status(400)
+        .json({ message: `emotion must be one of ${MOOD_EMOTIONS.join(", ")}` });
+    }
+    const minutes = maxMinutes === undefined ? undefined : Number(maxMinutes);
+    if (minutes !== undefined && (!Number.isFinite(minutes) || minutes <= 0)) {
+      return res.status(400).json({ message: "maxMinutes must be a positive number" });
+    }
+
+    const guides = await listGuides({
+      activityType: type as ActivityType | undefined,
+      difficulty: difficulty as ActivityDifficulty | undefined,
+      tag: typeof tag === "string" ? tag.toLowerCase() : undefined,
+      emotion: emotion as MoodEmotion | undefined,
+      maxMinutes: minutes,
+    });
+
+    res.status(200).json({ guides: guides.map(toGuideSummary) });
+  } catch (error) {
+    logger.error("Error listing guides:", error);
+    res.status(500).json({ message: "Error listing guides" });
+  }
+};
+
+// One guide with all its steps
+export const getGuide = async (req: Request, res: Response) => {
+  try {
+    const guide = await findGuide(req.params.slug);
+    if (!guide) {
+      return res.status(404).json({ message: "Guide not found" });
+    }
+
+    res.status(200).json({
+      guide: { ...toGuideSummary(guide), steps: guide.steps },
+    });
+  } catch (error) {
+    logger.error("Error fetching guide:", error);
+    res.status(500).json({ message: "Error fetching guide" });
+  }
+};
+
+// Start a guided run (body: { moodBefore? })
+export const startGuidedRun = async (req: Request, res: Response) => {
+  try {
+    if (!req.user || !req.user._id) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const guide = await findGuide(req.params.slug);
+    if (!guide) {
+      return res.status(404).json({ message: "Guide not found" });
+    }
+
+    const moodBefore = req.body?.moodBefore;
+    if (moodBefore !== undefined && !isMoodScore(moodBefore)) {
+      return res
+        .status(400)
+        .json({ message: "moodBefore must be a number between 0 and 100" });
+    }
+
+    const run = await startRun(req.user._id, guide, moodBefore);
+
+    res.status(201).json({ run: toRunProgress(run), step: guide.steps[0] });
+  } catch (error) {
+    logger.error("Error starting guided run:", error);
+    res.status(500).json({ message: "Error starting guided run" });
+  }
+};
+
+// The user's guided runs, newest first (?status&limit&cursor)
+export const getGuidedRuns = async (req: Request, res: Response) => {
+  try {
+    if (!req.user || !req.user._id) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const filter: Record<string, any> = { userId: req.user._id };
+
+    if (req.query.status !== undefined) {
+      if (req.query.status !== "in_progress" && req.query.status !== "completed") {
+        return res
+          .status(400)
+          .json({ message: "status must be in_progress or completed" });
+      }
+      filter.status = req.query.status;
+    }
+
+    if (typeof req.query.cursor === "string") {
+      const after = cursorFilter(req.query.cursor, "startedAt", -1);
+      if (!after) return res.status(400).json({ message: "Invalid cursor" });
+      Object.assign(filter, after);
+    }
+
+    const limit = parseLimit(req.query.limit);
+    const runs = await GuidedRun.find(filter)
+      .sort({ startedAt: -1, _id: -1 })
+      .limit(limit + 1);
+
+    const page = toPage(runs, limit, (run) => run.startedAt);
+
+    res.status(200).json({
+      runs: page.items.map(toRunProgress),
+      nextCursor: page.nextCursor,
+    });
+  } catch (error) {
+    logger.error("Error fetching guided runs:", error);
+    res.status(500).json({ message: "Error fetching guided runs" });
+  }
+};
+
+/**
+ * Loads :runId and its guide for the caller. Sends the error response
+ * itself and returns null when either can't be used.
+ */
+async function findOwnedRun(req: Request, res: Response) {
+  if (!req.user || !req.user._id) {
+    res.status(401).json({ message: "User not authenticated" });
+    return null;
+  }
+
+  if (!Types.ObjectId.isValid(req.params.runId)) {
+    res.status(404).json({ message: "Guided run not found" });
+    return null;
+  }
+
+  const run = await GuidedRun.findOne({ _id: req.params.runId, userId: req.user._id });
+  if (!run) {
+    res.status(404).json({ message: "Guided run not found" });
+    return null;
+  }
+
+  // Retired guides can still be finished
+  const guide = await ActivityGuide.findById(run.guideId);
+  if (!guide) {
+    res.status(404).json({ message: "Guide not found" });
+    return null;
+  }
+
+  return { run, guide };
+}
+
+// Where a run is up to, with the step to show next
+export const getGuidedRun = async (req: Request, res: Response) => {
+  try {
+    const found = await findOwnedRun(req, res);
+    if (!found) return;
+    const { run, guide } = found;
+
+    res.status(200).json({
+      run: toRunProgress(run),
+      step: run.status === "in_progress" ? guide.steps[run.currentStep] || null : null,
+    });
+  } catch (error) {
+    logger.error("Error fetching guided run:", error);
+    res.status(500).json({ message: "Error fetching guided run" });
+  }
+};
+
+// Mark a step as done (body: { step }, the 0-based step index)
+export const recordGuidedRunProgress = async (req: Request, res: Response) => {
+  try {
+    const found = await findOwnedRun(req, res);
+    if (!found) return;
+    const { run, guide } = found;
+
+    if (run.status === "completed") {
+      return res.status(409).json({ message: "Guided run is already completed" });
+    }
+
+    const step = req.body?.step;
+    if (!Number.isInteger(step) || step < 0 || step >= run.totalSteps) {
+      return res.status(400).json({
+        message: `step must be a whole number from 0 to ${run.totalSteps - 1}`,
+      });
+    }
+
+    await recordStep(run, step);
+
+    res.status(200).json({
+      run: toRunProgress(run),
+      step: guide.steps[run.currentStep] || null,
+    });
+  } catch (error) {
+    logger.error("Error recording guided run progress:", error);
+    res.status(500).json({ message: "Error recording guided run progress" });
+  }
+};
+
+// Finish a run and log it as an activity (body: { moodAfter?, feedback?, difficulty? })
+export const completeGuidedRun = async (req: Request, res: Response) => {
+  try {
+    const found = await findOwnedRun(req, res);
+    if (!found) return;
+
+    if (found.run.status === "completed") {
+      return res.status(409).json({ message: "Guided run is already completed" });
+    }
+
+    const { moodAfter, feedback, difficulty } = req.body || {};
+    if (moodAfter !== undefined && !isMoodScore(moodAfter)) {
+      return res
+        .status(400)
+        .json({ message: "moodAfter must be a number between 0 and 100" });
+    }
+    if (
+      feedback !== undefined &&
+      (typeof feedback !== "string" || feedback.length > MAX_FEEDBACK_LENGTH)
+    ) {
+      return res.status(400).json({
+        message: `feedback must be a string of at most ${MAX_FEEDBACK_LENGTH} characters`,
+      });
+    }
+    if (
+      difficulty !== undefined &&
+      !ACTIVITY_DIFFICULTIES.includes(difficulty as ActivityDifficulty)
+    ) {
+      return res.status(400).json({
+        message: `difficulty must be one of ${ACTIVITY_DIFFICULTIES.join(", ")}`,
+      });
+    }
+
+    const completed = await completeRun(found.run, found.guide, {
+      moodAfter,
+      feedback,
+      difficulty,
+    });
+    // Another request completed it since it was loaded
+    if (!completed) {
+      return res.status(409).json({ message: "Guided run is already completed" });
+    }
+
+    const { run, activity } = completed;
+    logger.info(`Guided run ${run.id} completed for user ${run.userId}`);
+
+    await notifyActivityCompleted(activity);
+
+    res.status(200).json({ run: toRunProgress(run), activity });
+  } catch (error) {
+    logger.error("Error completing guided run:", error);
+    res.status(500).json({ message: "Error completing guided run" });
+  }
+};
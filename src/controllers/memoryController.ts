@@ -0,0 +1,165 @@
+import { Request, Response } from "express";
+import { TherapyMemory } from "../models/TherapyMemory";
+import { logger } from "../utils/logger";
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((v) => typeof v === "string");
+
+// Shape returned to the user; internal bookkeeping is left out
+const toMemoryResponse = (memory: any) => ({
+  enabled: memory.enabled,
+  emotionalStateHistory: memory.emotionalStateHistory,
+  riskLevel: memory.riskLevel,
+  preferences: memory.preferences,
+  recurringStressors: memory.recurringStressors,
+  helpfulStrategies: memory.helpfulStrategies,
+  currentTechnique: memory.currentTechnique,
+  lastSessionSummary: memory.lastSessionSummary,
+  notes: memory.notes,
+  updatedAt: memory.updatedAt,
+});
+
+// Get what Leo remembers about the authenticated user
+export const getMemory = async (req: Request, res: Response) => {
+  try {
+    if (!req.user || !req.user._id) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const memory = await TherapyMemory.findOne({ userId: req.user._id });
+    if (!memory) {
+      return res.status(200).json({ memory: null });
+    }
+
+    res.status(200).json({ memory: toMemoryResponse(memory) });
+  } catch (error) {
+    logger.error("Error fetching therapy memory:", error);
+    res.status(500).json({
+      message: "Error fetching therapy memory",
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
+// Correct parts of the memory (preferences, stressors, strategies, notes)
+export const updateMemory = async (req: Request, res: Response) => {
+  try {
+    if (!req.user || !req.user._id) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const {
+      enabled,
+      preferences,
+      recurringStressors,
+      helpfulStrategies,
+      notes,
+      lastSessionSummary,
+      currentTechnique,
+    } = req.body;
+
+    if (enabled !== undefined && typeof enabled !== "boolean") {
+      return res.status(400).json({ message: "enabled must be a boolean" });
+    }
+    if (recurringStressors !== undefined && !isStringArray(recurringStressors)) {
+      return res
+        .status(400)
+        .json({ message: "recurringStressors must be an array of strings" });
+    }
+    if (helpfulStrategies !== undefined && !isStringArray(helpfulStrategies)) {
+      return res
+        .status(400)
+        .json({ message: "helpfulStrategies must be an array of strings" });
+    }
+    if (notes !== undefined && !isStringArray(notes)) {
+      return res.status(400).json({ message: "notes must be an array of strings" });
+    }
+
+    const memory =
+      (await TherapyMemory.findOne({ userId: req.user._id })) ||
+      new TherapyMemory({ userId: req.user._id });
+
+    if (enabled !== undefined) memory.enabled = enabled;
+
+    if (preferences) {
+      if (typeof preferences.tone === "string") {
+        memory.preferences.tone = preferences.tone;
+      }
+      if (typeof preferences.style === "string") {
+        memory.preferences.style = preferences.style;
+      }
+      memory.preferences.lockedByUser = true;
+    }
+
+    // Lists are replaced wholesale; existing counts and dates are kept
+    if (recurringStressors) {
+      const now = new Date();
+      memory.recurringStressors = recurringStressors
+        .map((theme: string) => theme.trim().toLowerCase())
+        .filter(Boolean)
+        .map(
+          (theme: string) =>
+            memory.recurringStressors.find((s) => s.theme === theme) || {
+              theme,
+              count: 1,
+              lastSeen: now,
+            }
+        );
+    }
+
+    if (helpfulStrategies) {
+      const now = new Date();
+      memory.helpfulStrategies = helpfulStrategies
+        .map((strategy: string) => strategy.trim())
+        .filter(Boolean)
+        .map(
+          (strategy: string) =>
+            memory.helpfulStrategies.find(
+              (s) => s.strategy.toLowerCase() === strategy.toLowerCase()
+            ) || { strategy, lastUsed: now }
+        );
+    }
+
+    if (notes) memory.notes = notes.map((n: string) => n.trim()).filter(Boolean);
+
+    if (lastSessionSummary === null) memory.lastSessionSummary = undefined;
+    else if (typeof lastSessionSummary === "string") {
+      memory.lastSessionSummary = lastSessionSummary;
+    }
+
+    if (currentTechnique === null || typeof currentTechnique === "string") {
+      memory.currentTechnique = currentTechnique;
+    }
+
+    await memory.save();
+    logger.info(`Therapy memory corrected by user ${req.user._id}`);
+
+    res.status(200).json({ memory: toMemoryResponse(memory) });
+  } catch (error) {
+    logger.error("Error updating therapy memory:", error);
+    res.status(500).json({
+      message: "Error updating therapy memory",
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
+// Wipe everything Leo remembers about the user
+export const deleteMemory = async (req: Request, res: Response) => {
+  try {
+    if (!req.user || !req.user._id) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    await TherapyMemory.deleteOne({ userId: req.user._id });
+    logger.info(`Therapy memory wiped for user ${req.user._id}`);
+
+    res.status(200).json({ message: "Memory deleted" });
+  } catch (error) {
+    logger.error("Error deleting therapy memory:", error);
+    res.status(500).json({
+      message: "Error deleting therapy memory",
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
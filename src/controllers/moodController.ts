@@ -1,7 +1,181 @@
 import { Request, Response, NextFunction } from "express";
+import { Types } from "mongoose";
 import { Mood } from "../models/Mood";
+import { Activity } from "../models/Activity";
+import { MoodInsight } from "../models/MoodInsight";
+import { dayRange, parseDate, startOfDayOffset } from "../utils/dateRange";
 import { logger } from "../utils/logger";
 import { sendMoodUpdateEvent } from "../utils/inngestEvents";
+import { cursorFilter, parseLimit, SortDirection, toPage } from "../utils/pagination";
+import { getMoodStats as buildMoodStats } from "../services/moodStats";
+import {
+  MoodEmotion,
+  MOOD_EMOTIONS,
+  MAX_MOOD_EMOTIONS,
+  MAX_MOOD_TRIGGERS,
+  MAX_MOOD_TRIGGER_LENGTH,
+  MAX_MOOD_ACTIVITIES,
+} from "../types/mood";
+
+const MOOD_SORT_FIELDS = ["timestamp", "score"] as const;
+type MoodSortField = (typeof MOOD_SORT_FIELDS)[number];
+
+// Stats cover the last 90 days unless a range is given
+const DEFAULT_STATS_DAYS = 90;
+const MAX_MOVING_AVERAGE_WINDOW = 90;
+
+const MAX_NOTE_LENGTH = 2000;
+// Clock skew allowed for client-supplied timestamps
+const FUTURE_TIMESTAMP_SLACK_MS = 5 * 60 * 1000;
+
+// Optional fields that PATCH can clear by sending null
+const CLEARABLE_FIELDS = [
+  "note",
+  "energy",
+  "anxiety",
+  "sleepHours",
+  "sleepQuality",
+] as const;
+
+type MoodInput =
+  | { set: Record<string, unknown>; unset: string[] }
+  | { error: string };
+
+const isInRange = (value: unknown, min: number, max: number) =>
+  typeof value === "number" && Number.isFinite(value) && value >= min && value <= max;
+
+// Numeric strings like "70" were always accepted (Mongoose cast them), so
+// clients sending form values keep working
+const toNumber = (value: unknown) =>
+  typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+
+/**
+ * Validates a create (all fields) or PATCH (only the fields sent) body.
+ * Activity ids are only checked for shape here; ownership needs a query.
+ */
+const parseMoodInput = (body: any, partial: boolean): MoodInput => {
+  const set: Record<string, unknown> = {};
+  const unset: string[] = [];
+  const has = (field: string) => body?.[field] !== undefined;
+
+  if (!partial || has("score")) {
+    const score = toNumber(body?.score);
+    if (!isInRange(score, 0, 100)) {
+      return { error: "score must be a number between 0 and 100" };
+    }
+    set.score = score;
+  }
+
+  for (const field of CLEARABLE_FIELDS) {
+    if (partial && body?.[field] === null) unset.push(field);
+  }
+
+  if (has("note") && body.note !== null) {
+    if (typeof body.note !== "string" || body.note.length > MAX_NOTE_LENGTH) {
+      return { error: `note must be a string of at most ${MAX_NOTE_LENGTH} characters` };
+    }
+    set.note = body.note;
+  }
+
+  for (const field of ["energy", "anxiety"]) {
+    if (has(field) && body[field] !== null) {
+      const value = toNumber(body[field]);
+      if (!isInRange(value, 0, 100)) {
+        return { error: `${field} must be a number between 0 and 100` };
+      }
+      set[field] = value;
+    }
+  }
+
+  if (has("sleepHours") && body.sleepHours !== null) {
+    const sleepHours = toNumber(body.sleepHours);
+    if (!isInRange(sleepHours, 0, 24)) {
+      return { error: "sleepHours must be a number between 0 and 24" };
+    }
+    set.sleepHours = sleepHours;
+  }
+
+  if (has("sleepQuality") && body.sleepQuality !== null) {
+    const sleepQuality = toNumber(body.sleepQuality);
+    if (!Number.isInteger(sleepQuality) || !isInRange(sleepQuality, 1, 5)) {
+      return { error: "sleepQuality must be a whole number from 1 to 5" };
+    }
+    set.sleepQuality = sleepQuality;
+  }
+
+  if (has("emotions")) {
+    if (
+      !Array.isArray(body.emotions) ||
+      !body.emotions.every((e: unknown) => MOOD_EMOTIONS.includes(e as MoodEmotion))
+    ) {
+      return { error: `emotions must be a list of ${MOOD_EMOTIONS.join(", ")}` };
+    }
+    const emotions = [...new Set<string>(body.emotions)];
+    if (emotions.length > MAX_MOOD_EMOTIONS) {
+      return { error: `At most ${MAX_MOOD_EMOTIONS} emotions can be tagged` };
+    }
+    set.emotions = emotions;
+  }
+
+  if (has("triggers")) {
+    if (
+      !Array.isArray(body.triggers) ||
+      !body.triggers.every(
+        (t: unknown) =>
+          typeof t === "string" &&
+          t.trim().length > 0 &&
+          t.trim().length <= MAX_MOOD_TRIGGER_LENGTH
+      )
+    ) {
+      return {
+        error: `triggers must be a list of tags of 1 to ${MAX_MOOD_TRIGGER_LENGTH} characters`,
+      };
+    }
+    const triggers = [
+      ...new Set<string>(body.triggers.map((t: string) => t.trim().toLowerCase())),
+    ];
+    if (triggers.length > MAX_MOOD_TRIGGERS) {
+      return { error: `At most ${MAX_MOOD_TRIGGERS} triggers can be tagged` };
+    }
+    set.triggers = triggers;
+  }
+
+  if (has("activities")) {
+    if (
+      !Array.isArray(body.activities) ||
+      !body.activities.every(
+        (id: unknown) => typeof id === "string" && Types.ObjectId.isValid(id)
+      )
+    ) {
+      return { error: "activities must be a list of activity ids" };
+    }
+    const activities = [...new Set<string>(body.activities)];
+    if (activities.length > MAX_MOOD_ACTIVITIES) {
+      return { error: `At most ${MAX_MOOD_ACTIVITIES} activities can be linked` };
+    }
+    set.activities = activities;
+  }
+
+  if (has("timestamp")) {
+    const timestamp = parseDate(body.timestamp);
+    if (!timestamp) {
+      return { error: "timestamp must be a valid date" };
+    }
+    if (timestamp.getTime() > Date.now() + FUTURE_TIMESTAMP_SLACK_MS) {
+      return { error: "timestamp cannot be in the future" };
+    }
+    set.timestamp = timestamp;
+  }
+
+  return { set, unset };
+};
+
+// True when every linked activity belongs to the user
+const ownsActivities = async (userId: unknown, ids: unknown) => {
+  if (!Array.isArray(ids) || ids.length === 0) return true;
+  const owned = await Activity.countDocuments({ _id: { $in: ids }, userId });
+  return owned === ids.length;
+};
 
 // Create a new mood entry
 export const createMood = async (
@@ -10,20 +184,24 @@ export const createMood = async (
   next: NextFunction
 ) => {
   try {
-    const { score, note, context, activities } = req.body;
     const userId = req.user?._id; // From auth middleware
 
     if (!userId) {
       return res.status(401).json({ message: "User not authenticated" });
     }
 
+    const input = parseMoodInput(req.body, false);
+    if ("error" in input) {
+      return res.status(400).json({ message: input.error });
+    }
+    if (!(await ownsActivities(userId, input.set.activities))) {
+      return res.status(400).json({ message: "Activity not found" });
+    }
+
     const mood = new Mood({
-      userId,
-      score,
-      note,
-      context,
-      activities,
       timestamp: new Date(),
+      ...input.set,
+      userId,
     });
 
     await mood.save();
@@ -32,11 +210,18 @@ export const createMood = async (
     // Send mood update event to Inngest
     await sendMoodUpdateEvent({
       userId,
-      mood: score,
-      note,
-      context,
-      activities,
+      moodId: mood.id,
+      mood: mood.score,
+      note: mood.note,
+      emotions: mood.emotions,
+      energy: mood.energy,
+      anxiety: mood.anxiety,
+      sleepHours: mood.sleepHours,
+      sleepQuality: mood.sleepQuality,
+      triggers: mood.triggers,
+      activities: mood.activities,
       timestamp: mood.timestamp,
+      timeZone: req.timeZone,
     });
 
     res.status(201).json({
@@ -58,18 +243,14 @@ export const getTodayMoods = async (req: Request, res: Response) => {
 
     const userId = req.user._id;
 
-    // Define today's range
-    const startOfDay = new Date();
-    startOfDay.setHours(0, 0, 0, 0);
-
-    const endOfDay = new Date();
-    endOfDay.setHours(23, 59, 59, 999);
+    // Today in the user's timezone
+    const today = dayRange(new Date(), req.timeZone);
 
     // Find today's moods for the user
     const moods = await Mood.find({
       userId,
-      createdAt: { $gte: startOfDay, $lte: endOfDay },
-    }).sort({ createdAt: -1 });
+      timestamp: { $gte: today.start, $lt: today.end },
+    }).sort({ timestamp: -1 });
 
     res.status(200).json(moods);
   } catch (error) {
@@ -80,3 +261,200 @@ export const getTodayMoods = async (req: Request, res: Response) => {
     });
   }
 };
+
+// Mood history, newest first by default, with an optional date range
+export const getMoods = async (req: Request, res: Response) => {
+  try {
+    if (!req.user || !req.user._id) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const sort = ((req.query.sort as string) || "timestamp") as MoodSortField;
+    if (!MOOD_SORT_FIELDS.includes(sort)) {
+      return res
+        .status(400)
+        .json({ message: `sort must be one of ${MOOD_SORT_FIELDS.join(", ")}` });
+    }
+    const order = (req.query.order as string) || "desc";
+    if (order !== "asc" && order !== "desc") {
+      return res.status(400).json({ message: "order must be asc or desc" });
+    }
+    const direction: SortDirection = order === "asc" ? 1 : -1;
+
+    const from = parseDate(req.query.from);
+    const to = parseDate(req.query.to);
+    if (from === null || to === null) {
+      return res.status(400).json({ message: "from and to must be valid dates" });
+    }
+
+    const filter: Record<string, any> = { userId: req.user._id };
+    if (from || to) {
+      filter.timestamp = {};
+      if (from) filter.timestamp.$gte = from;
+      if (to) filter.timestamp.$lte = to;
+    }
+
+    if (typeof req.query.cursor === "string") {
+      const after = cursorFilter(req.query.cursor, sort, direction);
+      if (!after) return res.status(400).json({ message: "Invalid cursor" });
+      Object.assign(filter, after);
+    }
+
+    const limit = parseLimit(req.query.limit);
+    const moods = await Mood.find(filter)
+      .sort({ [sort]: direction, _id: direction })
+      .limit(limit + 1);
+
+    const page = toPage(moods, limit, (mood) => mood[sort]);
+
+    res.status(200).json({ moods: page.items, nextCursor: page.nextCursor });
+  } catch (error) {
+    logger.error("Error fetching moods:", error);
+    res.status(500).json({ message: "Error fetching moods" });
+  }
+};
+
+// Daily/weekly/monthly averages, moving average and trend over a date range
+export const getMoodStats = async (req: Request, res: Response) => {
+  try {
+    if (!req.user || !req.user._id) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const from = parseDate(req.query.from);
+    const to = parseDate(req.query.to);
+    if (from === null || to === null) {
+      return res.status(400).json({ message: "from and to must be valid dates" });
+    }
+
+    const end = to || new Date();
+    // Whole local days, ending with the day of `end`
+    const start =
+      from || startOfDayOffset(end, -(DEFAULT_STATS_DAYS - 1), req.timeZone);
+    if (start > end) {
+      return res.status(400).json({ message: "from must be before to" });
+    }
+
+    const window =
+      req.query.window === undefined ? 7 : Number(req.query.window);
+    if (
+      !Number.isInteger(window) ||
+      window < 1 ||
+      window > MAX_MOVING_AVERAGE_WINDOW
+    ) {
+      return res.status(400).json({
+        message: `window must be a whole number of days between 1 and ${MAX_MOVING_AVERAGE_WINDOW}`,
+      });
+    }
+
+    const stats = await buildMoodStats(
+      req.user._id,
+      start,
+      end,
+      window,
+      req.timeZone
+    );
+
+    res.status(200).json(stats);
+  } catch (error) {
+    logger.error("Error fetching mood stats:", error);
+    res.status(500).json({ message: "Error fetching mood stats" });
+  }
+};
+
+// Correct a mood entry; null clears an optional field
+export const updateMood = async (req: Request, res: Response) => {
+  try {
+    if (!req.user || !req.user._id) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    if (!Types.ObjectId.isValid(req.params.id)) {
+      return res.status(404).json({ message: "Mood entry not found" });
+    }
+
+    const input = parseMoodInput(req.body, true);
+    if ("error" in input) {
+      return res.status(400).json({ message: input.error });
+    }
+    if (Object.keys(input.set).length === 0 && input.unset.length === 0) {
+      return res.status(400).json({ message: "No changes to apply" });
+    }
+    if (!(await ownsActivities(req.user._id, input.set.activities))) {
+      return res.status(400).json({ message: "Activity not found" });
+    }
+
+    const mood = await Mood.findOneAndUpdate(
+      { _id: req.params.id, userId: req.user._id },
+      {
+        ...(Object.keys(input.set).length > 0 && { $set: input.set }),
+        ...(input.unset.length > 0 && {
+          $unset: Object.fromEntries(input.unset.map((field) => [field, 1])),
+        }),
+      },
+      { new: true, runValidators: true }
+    );
+    if (!mood) {
+      return res.status(404).json({ message: "Mood entry not found" });
+    }
+
+    res.status(200).json({ success: true, data: mood });
+  } catch (error) {
+    logger.error("Error updating mood:", error);
+    res.status(500).json({ message: "Error updating mood" });
+  }
+};
+
+// Delete a mood entry
+export const deleteMood = async (req: Request, res: Response) => {
+  try {
+    if (!req.user || !req.user._id) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    if (!Types.ObjectId.isValid(req.params.id)) {
+      return res.status(404).json({ message: "Mood entry not found" });
+    }
+
+    const mood = await Mood.findOneAndDelete({
+      _id: req.params.id,
+      userId: req.user._id,
+    });
+    if (!mood) {
+      return res.status(404).json({ message: "Mood entry not found" });
+    }
+
+    res.status(200).json({ success: true, message: "Mood entry deleted" });
+  } catch (error) {
+    logger.error("Error deleting mood:", error);
+    res.status(500).json({ message: "Error deleting mood" });
+  }
+};
+
+// Stored mood pattern analyses, newest first (?limit=&cursor=)
+export const getMoodInsights = async (req: Request, res: Response) => {
+  try {
+    if (!req.user || !req.user._id) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const filter: Record<string, any> = { userId: req.user._id };
+    if (typeof req.query.cursor === "string") {
+      const after = cursorFilter(req.query.cursor, "createdAt", -1);
+      if (!after) return res.status(400).json({ message: "Invalid cursor" });
+      Object.assign(filter, after);
+    }
+
+    const limit = parseLimit(req.query.limit);
+    const insights = await MoodInsight.find(filter)
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(limit + 1);
+
+    const page = toPage(insights, limit, (insight) => insight.createdAt);
+
+    res.status(200).json({ insights: page.items, nextCursor: page.nextCursor });
+  } catch (error) {
+    logger.error("Error fetching mood insights:", error);
+    res.status(500).json({ message: "Error fetching mood insights" });
+  }
+};
@@ -0,0 +1,264 @@
+import { Request, Response } from "express";
+import { PromptTemplate } from "../models/PromptTemplate";
+import { PromptExperiment, PromptVariant } from "../models/PromptExperiment";
+import { PromptName } from "../types/prompt";
+import { logger } from "../utils/logger";
+import {
+  DEFAULT_PROMPTS,
+  isPromptName,
+  templateVariables,
+  invalidatePromptCache,
+} from "../services/prompts";
+
+const isDuplicateKeyError = (error: unknown) =>
+  (error as { code?: number })?.code === 11000;
+
+// Version 0 shaped like a stored version, for listings
+const defaultVersion = (name: PromptName, active: boolean) => ({
+  version: 0,
+  template: DEFAULT_PROMPTS[name].template,
+  description: "Built-in default",
+  active,
+  createdAt: null,
+});
+
+// List every prompt with its active version and running experiment
+export const listPrompts = async (req: Request, res: Response) => {
+  try {
+    const [templates, experiments] = await Promise.all([
+      PromptTemplate.find({}, { template: 0 }).sort({ name: 1, version: 1 }),
+      PromptExperiment.find({ status: "running" }),
+    ]);
+
+    const prompts = (Object.keys(DEFAULT_PROMPTS) as PromptName[]).map((name) => {
+      const versions = templates.filter((t) => t.name === name);
+      const active = versions.find((t) => t.active);
+      const experiment = experiments.find((e) => e.promptName === name);
+
+      return {
+        name,
+        description: DEFAULT_PROMPTS[name].description,
+        variables: DEFAULT_PROMPTS[name].variables,
+        activeVersion: active ? active.version : 0,
+        latestVersion: versions.length > 0 ? versions[versions.length - 1].version : 0,
+        runningExperiment: experiment ? experiment.key : null,
+      };
+    });
+
+    res.json({ prompts });
+  } catch (error) {
+    logger.error("Error listing prompts:", error);
+    res.status(500).json({ message: "Error listing prompts" });
+  }
+};
+
+// All versions of one prompt, including the built-in default
+export const getPromptVersions = async (req: Request, res: Response) => {
+  try {
+    const { name } = req.params;
+    if (!isPromptName(name)) {
+      return res.status(404).json({ message: "Prompt not found" });
+    }
+
+    const versions = await PromptTemplate.find({ name }).sort({ version: 1 });
+    const hasActive = versions.some((v) => v.active);
+
+    res.json({
+      name,
+      variables: DEFAULT_PROMPTS[name].variables,
+      versions: [defaultVersion(name, !hasActive), ...versions],
+    });
+  } catch (error) {
+    logger.error("Error fetching prompt versions:", error);
+    res.status(500).json({ message: "Error fetching prompt versions" });
+  }
+};
+
+// Add a new version of a prompt ({ template, description?, activate? })
+export const createPromptVersion = async (req: Request, res: Response) => {
+  try {
+    const { name } = req.params;
+    if (!isPromptName(name)) {
+      return res.status(404).json({ message: "Prompt not found" });
+    }
+
+    const { template, description, activate } = req.body;
+    if (typeof template !== "string" || !template.trim()) {
+      return res.status(400).json({ message: "template is required" });
+    }
+
+    const allowed = DEFAULT_PROMPTS[name].variables;
+    const unknown = templateVariables(template).filter((v) => !allowed.includes(v));
+    if (unknown.length > 0) {
+      return res.status(400).json({
+        message: `Unknown variables: ${unknown.join(", ")}. Allowed: ${allowed.join(", ")}`,
+      });
+    }
+
+    const latest = await PromptTemplate.findOne({ name }).sort({ version: -1 });
+    const version = (latest?.version || 0) + 1;
+
+    if (activate === true) {
+      await PromptTemplate.updateMany({ name, active: true }, { $set: { active: false } });
+    }
+
+    const created = await PromptTemplate.create({
+      name,
+      version,
+      template,
+      description,
+      active: activate === true,
+      createdBy: req.user?._id,
+    });
+    invalidatePromptCache(name);
+
+    logger.info(`Prompt "${name}" v${version} created by ${req.user?._id}`);
+    res.status(201).json({ prompt: created });
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      return res
+        .status(409)
+        .json({ message: "Another version was created at the same time; retry" });
+    }
+    logger.error("Error creating prompt version:", error);
+    res.status(500).json({ message: "Error creating prompt version" });
+  }
+};
+
+// Serve a version by default (0 goes back to the built-in prompt)
+export const activatePromptVersion = async (req: Request, res: Response) => {
+  try {
+    const { name } = req.params;
+    if (!isPromptName(name)) {
+      return res.status(404).json({ message: "Prompt not found" });
+    }
+
+    const version = Number.parseInt(req.params.version, 10);
+    if (!Number.isInteger(version) || version < 0) {
+      return res.status(400).json({ message: "version must be a whole number" });
+    }
+
+    if (version > 0 && !(await PromptTemplate.exists({ name, version }))) {
+      return res.status(404).json({ message: "Prompt version not found" });
+    }
+
+    await PromptTemplate.updateMany({ name, active: true }, { $set: { active: false } });
+    if (version > 0) {
+      await PromptTemplate.updateOne({ name, version }, { $set: { active: true } });
+    }
+    invalidatePromptCache(name);
+
+    logger.info(`Prompt "${name}" v${version} activated by ${req.user?._id}`);
+    res.json({ name, activeVersion: version });
+  } catch (error) {
+    logger.error("Error activating prompt version:", error);
+    res.status(500).json({ message: "Error activating prompt version" });
+  }
+};
+
+// List experiments, newest first
+export const listExperiments = async (req: Request, res: Response) => {
+  try {
+    const experiments = await PromptExperiment.find().sort({ createdAt: -1 });
+    res.json({ experiments });
+  } catch (error) {
+    logger.error("Error listing prompt experiments:", error);
+    res.status(500).json({ message: "Error listing prompt experiments" });
+  }
+};
+
+// Start an A/B experiment ({ key, promptName, variants: [{ name, version, weight }] })
+export const createExperiment = async (req: Request, res: Response) => {
+  try {
+    const { key, promptName, variants } = req.body;
+
+    if (typeof key !== "string" || !/^[\w.-]{3,64}$/.test(key)) {
+      return res.status(400).json({
+        message: "key must be 3-64 letters, digits, dots, dashes or underscores",
+      });
+    }
+    if (!isPromptName(promptName)) {
+      return res.status(400).json({ message: "Unknown promptName" });
+    }
+    if (!Array.isArray(variants) || variants.length < 2) {
+      return res.status(400).json({ message: "At least two variants are required" });
+    }
+
+    const parsed: PromptVariant[] = variants.map((v: any) => ({
+      name: String(v?.name || "").trim(),
+      version: Number(v?.version),
+      weight: v?.weight === undefined ? 1 : Number(v.weight),
+    }));
+    const names = new Set(parsed.map((v) => v.name));
+    if (
+      names.size !== parsed.length ||
+      parsed.some(
+        (v) =>
+          !v.name ||
+          !Number.isInteger(v.version) ||
+          v.version < 0 ||
+          !Number.isFinite(v.weight) ||
+          v.weight <= 0
+      )
+    ) {
+      return res.status(400).json({
+        message:
+          "Each variant needs a unique name, a version (0 or higher) and a positive weight",
+      });
+    }
+
+    const storedVersions = parsed.map((v) => v.version).filter((v) => v > 0);
+    const found = await PromptTemplate.countDocuments({
+      name: promptName,
+      version: { $in: storedVersions },
+    });
+    if (found !== new Set(storedVersions).size) {
+      return res.status(400).json({ message: "A variant points at a missing version" });
+    }
+
+    if (await PromptExperiment.exists({ promptName, status: "running" })) {
+      return res
+        .status(409)
+        .json({ message: "An experiment is already running for this prompt" });
+    }
+
+    const experiment = await PromptExperiment.create({
+      key,
+      promptName,
+      variants: parsed,
+      status: "running",
+      startedAt: new Date(),
+    });
+    invalidatePromptCache(promptName);
+
+    logger.info(`Prompt experiment "${key}" started by ${req.user?._id}`);
+    res.status(201).json({ experiment });
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      return res.status(409).json({ message: "An experiment with that key exists" });
+    }
+    logger.error("Error creating prompt experiment:", error);
+    res.status(500).json({ message: "Error creating prompt experiment" });
+  }
+};
+
+// Stop an experiment; everyone goes back to the active version
+export const stopExperiment = async (req: Request, res: Response) => {
+  try {
+    const experiment = await PromptExperiment.findOneAndUpdate(
+      { key: req.params.key, status: "running" },
+      { $set: { status: "stopped", stoppedAt: new Date() } },
+      { new: true }
+    );
+    if (!experiment) {
+      return res.status(404).json({ message: "No running experiment with that key" });
+    }
+    invalidatePromptCache(experiment.promptName);
+
+    logger.info(`Prompt experiment "${experiment.key}" stopped by ${req.user?._id}`);
+    res.json({ experiment });
+  } catch (error) {
+    logger.error("Error stopping prompt experiment:", error);
+    res.status(500).json({ message: "Error stopping prompt experiment" });
+  }
+};
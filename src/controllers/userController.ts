@@ -0,0 +1,116 @@
+import { Request, Response } from "express";
+import { User } from "../models/User";
+import { logger } from "../utils/logger";
+import { getPersona, isPersonaId, listPersonas } from "../services/personas";
+import { getTokenQuotaStatus } from "../services/tokenQuota";
+import { isLanguageCode, listLanguages } from "../services/i18n";
+import { isValidTimeZone } from "../utils/dateRange";
+
+// Preferences returned to the user
+const toPreferencesResponse = (user: any) => ({
+  defaultPersona: getPersona(user.defaultPersona).id,
+  // null: Leo follows the language of each message
+  preferredLanguage: user.preferredLanguage || null,
+  // null: dates are reckoned in UTC unless a request sends its own zone
+  timezone: user.timezone || null,
+});
+
+// Get the authenticated user's preferences
+export const getPreferences = async (req: Request, res: Response) => {
+  try {
+    if (!req.user || !req.user._id) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    res.status(200).json({ preferences: toPreferencesResponse(req.user) });
+  } catch (error) {
+    logger.error("Error fetching preferences:", error);
+    res.status(500).json({ message: "Error fetching preferences" });
+  }
+};
+
+// Update the authenticated user's preferences
+export const updatePreferences = async (req: Request, res: Response) => {
+  try {
+    if (!req.user || !req.user._id) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const { defaultPersona, preferredLanguage, timezone } = req.body;
+    const update: Record<string, unknown> = {};
+    const unset: Record<string, 1> = {};
+
+    if (defaultPersona !== undefined) {
+      if (!isPersonaId(defaultPersona)) {
+        return res.status(400).json({
+          message: `defaultPersona must be one of ${listPersonas()
+            .map((p) => p.id)
+            .join(", ")}`,
+        });
+      }
+      update.defaultPersona = defaultPersona;
+    }
+
+    if (preferredLanguage === null) {
+      unset.preferredLanguage = 1;
+    } else if (preferredLanguage !== undefined) {
+      if (!isLanguageCode(preferredLanguage)) {
+        return res.status(400).json({
+          message: `preferredLanguage must be null or one of ${listLanguages()
+            .map((l) => l.code)
+            .join(", ")}`,
+        });
+      }
+      update.preferredLanguage = preferredLanguage;
+    }
+
+    if (timezone === null) {
+      unset.timezone = 1;
+    } else if (timezone !== undefined) {
+      if (!isValidTimeZone(timezone)) {
+        return res.status(400).json({
+          message: "timezone must be null or an IANA time zone such as Europe/London",
+        });
+      }
+      update.timezone = timezone;
+    }
+
+    if (Object.keys(update).length === 0 && Object.keys(unset).length === 0) {
+      return res.status(400).json({ message: "No preferences to update" });
+    }
+
+    const user = await User.findByIdAndUpdate(
+      req.user._id,
+      {
+        ...(Object.keys(update).length > 0 && { $set: update }),
+        ...(Object.keys(unset).length > 0 && { $unset: unset }),
+      },
+      { new: true }
+    );
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    res.status(200).json({
+      message: "Preferences updated",
+      preferences: toPreferencesResponse(user),
+    });
+  } catch (error) {
+    logger.error("Error updating preferences:", error);
+    res.status(500).json({ message: "Error updating preferences" });
+  }
+};
+
+// Today's LLM token usage against the daily quota
+export const getUsage = async (req: Request, res: Response) => {
+  try {
+    if (!req.user || !req.user._id) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    res.status(200).json({ usage: await getTokenQuotaStatus(req.user._id) });
+  } catch (error) {
+    logger.error("Error fetching usage:", error);
+    res.status(500).json({ message: "Error fetching usage" });
+  }
+};
@@ -10,6 +10,12 @@ import authRouter from "./routes/auth";
 import chatRouter from "./routes/chat";
 import moodRouter from "./routes/mood";
 import activityRouter from "./routes/activity";
+import memoryRouter from "./routes/memory";
+import adminRouter from "./routes/admin";
+import userRouter from "./routes/user";
+import exerciseRouter from "./routes/exercises";
+import assessmentRouter from "./routes/assessments";
+import guideRouter from "./routes/guides";
 import { connectDB } from "./utils/db";
 import { inngest } from "./inngest/client";
 import { functions as inngestFunctions } from "./inngest/functions";
@@ -20,6 +26,12 @@ dotenv.config();
 // Create Express app
 const app = express();
 
+// Behind a load balancer, req.ip (which the rate limits key on) needs this
+if (process.env.TRUST_PROXY) {
+  const hops = Number(process.env.TRUST_PROXY);
+  app.set("trust proxy", Number.isFinite(hops) ? hops : process.env.TRUST_PROXY);
+}
+
 // Middleware
 app.use(helmet()); // Security headers
 app.use(cors()); // Enable CORS
@@ -42,6 +54,12 @@ app.use("/auth", authRouter);
 app.use("/chat", chatRouter);
 app.use("/api/mood", moodRouter);
 app.use("/api/activity", activityRouter);
+app.use("/api/memory", memoryRouter);
+app.use("/api/admin", adminRouter);
+app.use("/api/users", userRouter);
+app.use("/api/exercises", exerciseRouter);
+app.use("/api/assessments", assessmentRouter);
+app.use("/api/guides", guideRouter);
 
 // Error handling middleware
 app.use(errorHandler);
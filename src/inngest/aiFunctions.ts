@@ -1,43 +1,105 @@
 import { inngest } from "./client";
-import Groq from "groq-sdk";
 import { logger } from "../utils/logger";
+import {
+  getLLMProvider,
+  getModel,
+  LLMAccounting,
+  LLMMessage,
+} from "../llm";
+import { analyzeMessage, NEUTRAL_ANALYSIS } from "../services/messageAnalysis";
+import { updateMemoryFromSession } from "../services/therapyMemory";
+import { getPersona, personaPromptValues } from "../services/personas";
+import { renderPrompt } from "../services/prompts";
+import { detectLanguage } from "../services/i18n";
+import {
+  screenMessage,
+  combineWithAnalysis,
+  shouldEscalate,
+  recordCrisisEvent,
+} from "../services/crisis";
+import { Mood } from "../models/Mood";
+import { Activity } from "../models/Activity";
+import { MoodInsight } from "../models/MoodInsight";
 import dotenv from "dotenv";
 
 dotenv.config();
 
-// 🧩 Initialize Groq
-const groq = new Groq({
-  apiKey: process.env.GROQ_API_KEY,
+// Mood and activity history given to the recommendations prompt
+const RECOMMENDATION_HISTORY_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 🧠 Plain-text background replies speak as the structured CBT persona unless told otherwise
+const personaMessages = async (
+  prompt: string,
+  personaId: string = "cbt-structured"
+): Promise<LLMMessage[]> => {
+  const system = await renderPrompt(
+    "chat.system",
+    personaPromptValues(getPersona(personaId))
+  );
+  return [
+    { role: "system", content: system.content },
+    { role: "user", content: prompt },
+  ];
+};
+
+// JSON jobs get the analyst prompt: Leo's chat rules (short replies,
+// redirects) would fight "return only JSON"
+const analystMessages = async (prompt: string): Promise<LLMMessage[]> => {
+  const system = await renderPrompt("analysis.system", {});
+  return [
+    { role: "system", content: system.content },
+    { role: "user", content: prompt },
+  ];
+};
+
+// User/session ids from an event payload, for usage accounting
+const eventOwner = (data: any) => ({
+  userId: data?.userId ? String(data.userId) : undefined,
+  sessionId: data?.sessionId ? String(data.sessionId) : undefined,
 });
 
-// 🧠 Friendly CBT Therapist Personality
-const therapistPersona = `
-You are a warm, empathetic CBT-based therapist. 
-You speak naturally, like a caring human therapist in a private session.
-You use compassion, gentle reflection, and open-ended questions.
-Avoid sounding robotic or overly formal. 
-Be concise, kind, and encouraging.
-If you sense emotional distress, acknowledge it gently and offer grounding or reframing.
-Never give medical diagnoses or crisis instructions.
-`;
-
-// Helper for Groq chat completions
-async function generateWithGroq(prompt: string) {
+// Helper for plain-text completions
+async function generateText(
+  prompt: string,
+  accounting: LLMAccounting,
+  personaId?: string
+) {
   try {
-    const completion = await groq.chat.completions.create({
-      model: "openai/gpt-oss-20b",
+    const completion = await getLLMProvider().complete(await personaMessages(prompt, personaId), {
+      model: getModel("analysis"),
       temperature: 0.8,
-      top_p: 0.9,
-      messages: [
-        { role: "system", content: therapistPersona },
-        { role: "user", content: prompt },
-      ],
+      topP: 0.9,
+      accounting,
     });
 
-    return completion.choices[0].message.content?.trim() || "";
+    return completion.content;
   } catch (error) {
-    logger.error("Groq API error:", error);
-    throw new Error("Failed to generate Groq response");
+    logger.error("LLM API error:", error);
+    throw new Error("Failed to generate LLM response");
+  }
+}
+
+// Helper for JSON-mode completions
+async function generateJSON<T = any>(
+  prompt: string,
+  accounting: LLMAccounting
+): Promise<T> {
+  try {
+    const completion = await getLLMProvider().completeJSON<T>(
+      await analystMessages(prompt),
+      {
+        model: getModel("analysis"),
+        temperature: 0.8,
+        topP: 0.9,
+        accounting,
+      }
+    );
+
+    return completion.data;
+  } catch (error) {
+    logger.error("LLM API error:", error);
+    throw new Error("Failed to generate LLM JSON response");
   }
 }
 
@@ -73,36 +135,16 @@ export const processChatMessage = inngest.createFunction(
 
       // 🧩 Step 1 — Analyze Message
       const analysis = await step.run("analyze-message", async () => {
-        const prompt = `
-Analyze this therapy message using CBT principles and respond with valid JSON only.
-
-Message: ${message}
-Context: ${JSON.stringify({ memory, goals })}
-
-Provide:
-{
-  "emotionalState": "Describe emotional tone briefly (e.g., anxious, hopeful, sad, angry, calm)",
-  "themes": ["Key topics or concerns mentioned"],
-  "riskLevel": "0-5 where 0 = safe, 5 = crisis",
-  "recommendedApproach": "Best CBT method to use (e.g., reframing, grounding, behavioral activation)",
-  "progressIndicators": ["Any signs of insight or progress"]
-}
-Do not include markdown or explanations.
-`;
-
         try {
-          const text = await generateWithGroq(prompt);
-          const clean = text.replace(/```json\n?|```/g, "").trim();
-          return JSON.parse(clean);
+          return await analyzeMessage(message, {
+            history,
+            memory,
+            goals,
+            owner: eventOwner(event.data),
+          });
         } catch (error) {
           logger.error("Error parsing analysis:", error);
-          return {
-            emotionalState: "neutral",
-            themes: [],
-            riskLevel: 0,
-            recommendedApproach: "supportive",
-            progressIndicators: [],
-          };
+          return NEUTRAL_ANALYSIS;
         }
       });
 
@@ -118,37 +160,44 @@ Do not include markdown or explanations.
       });
 
       // 🚨 Step 3 — Risk Alert
-      if (analysis.riskLevel > 4) {
+      const detected = detectLanguage(message)?.language;
+      const crisis = combineWithAnalysis(
+        screenMessage(message, detected ? [detected] : []),
+        analysis
+      );
+      if (shouldEscalate(crisis)) {
         await step.run("trigger-risk-alert", async () => {
           logger.warn("⚠️ High risk level detected in chat message", {
-            message,
             riskLevel: analysis.riskLevel,
+            tier: crisis.tier,
           });
+
+          if (event.data.userId) {
+            await recordCrisisEvent({
+              userId: event.data.userId,
+              assessment: crisis,
+              source: "inngest",
+              sessionId: event.data.sessionId,
+            });
+          }
         });
       }
 
       // 💬 Step 4 — Generate Therapist Response
       const response = await step.run("generate-response", async () => {
-        const prompt = `
-You are a compassionate CBT therapist. 
-Generate a short, human-like, caring response.
-
-Message: ${message}
-Analysis: ${JSON.stringify(analysis)}
-Memory: ${JSON.stringify(memory)}
-Goals: ${JSON.stringify(goals)}
-
-Your response should:
-1. Start with empathy (reflect emotion naturally).
-2. Offer gentle validation.
-3. Apply a CBT technique where appropriate (e.g., reframing, small actionable step).
-4. Ask an open-ended question to continue the session.
-5. Sound conversational, warm, and human.
-`;
+        const prompt = await renderPrompt("therapist.response", {
+          message,
+          analysis,
+          memory,
+          goals,
+        });
 
         try {
-          const text = await generateWithGroq(prompt);
-          return text.trim();
+          return await generateText(
+            prompt.content,
+            { feature: "chat", ...eventOwner(event.data) },
+            event.data.persona
+          );
         } catch (error) {
           logger.error("Error generating response:", error);
           return "That sounds really tough. I’m here with you — can you tell me a bit more about what’s been hardest lately?";
@@ -161,13 +210,7 @@ Your response should:
       return {
         response:
           "I’m here to listen and help you work through what’s on your mind.",
-        analysis: {
-          emotionalState: "neutral",
-          themes: [],
-          riskLevel: 0,
-          recommendedApproach: "supportive",
-          progressIndicators: [],
-        },
+        analysis: NEUTRAL_ANALYSIS,
         updatedMemory: event.data.memory,
       };
     }
@@ -187,25 +230,14 @@ export const analyzeTherapySession = inngest.createFunction(
       });
 
       const analysis = await step.run("analyze-with-groq", async () => {
-        const prompt = `
-You are a CBT therapist reviewing a full session.
-Summarize clearly and return valid JSON.
-
-Session: ${sessionContent}
-
-Return:
-{
-  "themes": ["main issues discussed"],
-  "emotionalSummary": "brief overall emotional tone",
-  "areasOfConcern": ["potential risk or distress points"],
-  "recommendations": ["suggested CBT directions or techniques"],
-  "progressIndicators": ["positive developments"]
-}
-`;
+        const prompt = await renderPrompt("session.analysis", {
+          session: sessionContent,
+        });
 
-        const text = await generateWithGroq(prompt);
-        const clean = text.replace(/```json\n?|```/g, "").trim();
-        return JSON.parse(clean);
+        return await generateJSON(prompt.content, {
+          feature: "session_analysis",
+          ...eventOwner(event.data),
+        });
       });
 
       await step.run("store-analysis", async () => {
@@ -238,38 +270,45 @@ export const generateActivityRecommendations = inngest.createFunction(
   { event: "mood/updated" },
   async ({ event, step }) => {
     try {
-      const userContext = await step.run("get-user-context", async () => ({
-        recentMoods: event.data.recentMoods,
-        completedActivities: event.data.completedActivities,
-        preferences: event.data.preferences,
-      }));
+      // The event only carries the new entry; the history comes from the DB
+      const userContext = await step.run("get-user-context", async () => {
+        const since = new Date(Date.now() - RECOMMENDATION_HISTORY_DAYS * DAY_MS);
+        const [recentMoods, completedActivities, insight] = await Promise.all([
+          Mood.find({ userId: event.data.userId, timestamp: { $gte: since } })
+            .sort({ timestamp: -1 })
+            .limit(20)
+            .select("score emotions energy anxiety sleepHours triggers timestamp -_id")
+            .lean(),
+          Activity.find({ userId: event.data.userId, timestamp: { $gte: since } })
+            .sort({ timestamp: -1 })
+            .limit(20)
+            .select("type name duration timestamp -_id")
+            .lean(),
+          MoodInsight.findOne({ userId: event.data.userId })
+            .sort({ createdAt: -1 })
+            .select("trend volatility sustainedLow -_id")
+            .lean(),
+        ]);
+
+        return {
+          recentMoods,
+          completedActivities,
+          moodPatterns: insight,
+          preferences: event.data.preferences,
+        };
+      });
 
       const recommendations = await step.run(
         "generate-recommendations",
         async () => {
-          const prompt = `
-You are a CBT therapist suggesting uplifting activities.
-
-User Context: ${JSON.stringify(userContext)}
-
-Return JSON only:
-{
-  "recommendations": [
-    {
-      "activity": "short friendly title",
-      "reasoning": "why it helps for this user",
-      "expectedBenefits": ["specific benefits"],
-      "difficultyLevel": "easy | moderate | challenging",
-      "estimatedDuration": "approx time"
-    }
-  ]
-}
-Keep tone encouraging and practical.
-`;
+          const prompt = await renderPrompt("activity.recommendations", {
+            userContext,
+          });
 
-          const text = await generateWithGroq(prompt);
-          const clean = text.replace(/```json\n?|```/g, "").trim();
-          return JSON.parse(clean);
+          return await generateJSON(prompt.content, {
+            feature: "recommendations",
+            ...eventOwner(event.data),
+          });
         }
       );
 
@@ -286,6 +325,27 @@ Keep tone encouraging and practical.
   }
 );
 
+// ===========================================================
+// 4️⃣ Update Long-Term Therapy Memory
+// ===========================================================
+export const updateTherapyMemory = inngest.createFunction(
+  { id: "update-therapy-memory" },
+  { event: "therapy/session.completed" },
+  async ({ event, step }) => {
+    const memory = await step.run("update-memory-from-session", async () => {
+      const updated = await updateMemoryFromSession(event.data.sessionId);
+      return updated
+        ? {
+            stressors: updated.recurringStressors.length,
+            strategies: updated.helpfulStrategies.length,
+          }
+        : null;
+    });
+
+    return { message: "Therapy memory updated", memory };
+  }
+);
+
 // ===========================================================
 // Export
 // ===========================================================
@@ -293,4 +353,5 @@ export const functions = [
   processChatMessage,
   analyzeTherapySession,
   generateActivityRecommendations,
+  updateTherapyMemory,
 ];
@@ -1,5 +1,8 @@
 import { inngest } from "./client";
 import { functions as aiFunctions } from "./aiFunctions";
+import { logger } from "../utils/logger";
+import { createMoodInsight, LOW_MOOD_THRESHOLD } from "../services/moodAnalysis";
+import { sendMoodDeclineEvent } from "../utils/inngestEvents";
 
 // Function to handle therapy session events
 export const therapySessionHandler = inngest.createFunction(
@@ -43,30 +46,57 @@ export const moodTrackingHandler = inngest.createFunction(
   async ({ event, step }) => {
     // Log the mood update
     await step.run("log-mood-update", async () => {
-      console.log("Mood update received:", event.data);
+      logger.info("Mood update received:", {
+        userId: event.data.userId,
+        moodId: event.data.moodId,
+      });
     });
 
-    // Analyze mood patterns
-    const analysis = await step.run("analyze-mood-patterns", async () => {
-      // Add mood analysis logic here
+    // Analyze the user's recent mood history and store the insight
+    const insight = await step.run("analyze-mood-patterns", async () => {
+      const saved = await createMoodInsight(
+        event.data.userId,
+        event.data.moodId,
+        event.data.timeZone
+      );
       return {
-        trend: "improving", // This would be calculated based on historical data
-        recommendations: ["Consider scheduling a therapy session"],
+        id: saved.id as string,
+        trend: saved.trend,
+        volatility: saved.volatility,
+        sustainedLow: saved.sustainedLow,
+        average: saved.average,
+        followUp: saved.followUp?.reason ?? null,
       };
     });
 
-    // If mood is concerning, trigger an alert
-    if (event.data.mood < 3) {
-      // Assuming mood is on a scale of 1-5
+    // A single very low entry; scores are 0-100
+    if (event.data.mood < LOW_MOOD_THRESHOLD) {
       await step.run("trigger-alert", async () => {
-        console.log("Triggering alert for concerning mood:", event.data);
-        // Add alert logic here
+        logger.warn("Low mood entry recorded:", {
+          userId: event.data.userId,
+          moodId: event.data.moodId,
+          score: event.data.mood,
+        });
+      });
+    }
+
+    // Sustained decline or low mood: let follow-up handlers reach out
+    if (insight.followUp) {
+      await step.run("raise-follow-up", async () => {
+        await sendMoodDeclineEvent({
+          id: insight.id,
+          userId: event.data.userId,
+          reason: insight.followUp,
+          trend: insight.trend,
+          sustainedLowDays: insight.sustainedLow.days,
+          average: insight.average,
+        });
       });
     }
 
     return {
       message: "Mood update processed",
-      analysis,
+      insight,
     };
   }
 );
@@ -106,10 +136,59 @@ export const activityCompletionHandler = inngest.createFunction(
   }
 );
 
+// Function to notify on-call staff about crisis escalations
+export const crisisAlertHandler = inngest.createFunction(
+  { id: "crisis-alert-handler" },
+  { event: "safety/crisis.detected" },
+  async ({ event, step }) => {
+    await step.run("log-crisis-alert", async () => {
+      logger.warn("Crisis escalation received:", {
+        crisisEventId: event.data.crisisEventId,
+        tier: event.data.tier,
+        sessionId: event.data.sessionId,
+      });
+    });
+
+    // Forward to the on-call channel when one is configured
+    const notified = await step.run("notify-on-call", async () => {
+      const webhookUrl = process.env.ONCALL_WEBHOOK_URL;
+      if (!webhookUrl) return false;
+
+      const response = await fetch(webhookUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          type: "crisis_escalation",
+          crisisEventId: event.data.crisisEventId,
+          userId: event.data.userId,
+          source: event.data.source,
+          sessionId: event.data.sessionId,
+          tier: event.data.tier,
+          score: event.data.score,
+          rules: (event.data.triggers || []).map((t: any) => t.ruleId),
+          timestamp: event.data.timestamp,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`On-call webhook failed with ${response.status}`);
+      }
+      return true;
+    });
+
+    return {
+      message: "Crisis alert processed",
+      crisisEventId: event.data.crisisEventId,
+      notified,
+    };
+  }
+);
+
 // Add all functions to the exported array
 export const functions = [
   therapySessionHandler,
   moodTrackingHandler,
   activityCompletionHandler,
+  crisisAlertHandler,
   ...aiFunctions,
 ];
@@ -0,0 +1,87 @@
+import { CircuitBreaker } from "../circuitBreaker";
+
+describe("CircuitBreaker", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const breaker = () => new CircuitBreaker({ failureThreshold: 3, cooldownMs: 1_000 });
+
+  it("stays closed below the failure threshold", () => {
+    const circuit = breaker();
+    circuit.recordFailure();
+    circuit.recordFailure();
+
+    expect(circuit.getState()).toBe("closed");
+    expect(circuit.canRequest()).toBe(true);
+  });
+
+  it("opens after consecutive failures and refuses calls until the cooldown ends", () => {
+    const circuit = breaker();
+    for (let i = 0; i < 3; i++) circuit.recordFailure();
+
+    expect(circuit.getState()).toBe("open");
+    expect(circuit.canRequest()).toBe(false);
+    expect(circuit.retryAfterMs()).toBe(1_000);
+
+    jest.advanceTimersByTime(400);
+    expect(circuit.retryAfterMs()).toBe(600);
+  });
+
+  it("resets the failure count on success", () => {
+    const circuit = breaker();
+    circuit.recordFailure();
+    circuit.recordFailure();
+    circuit.recordSuccess();
+    circuit.recordFailure();
+
+    expect(circuit.getState()).toBe("closed");
+  });
+
+  it("lets a single trial call through once half-open", () => {
+    const circuit = breaker();
+    for (let i = 0; i < 3; i++) circuit.recordFailure();
+    jest.advanceTimersByTime(1_000);
+
+    expect(circuit.getState()).toBe("half_open");
+    expect(circuit.canRequest()).toBe(true);
+    expect(circuit.canRequest()).toBe(false);
+  });
+
+  it("closes when the trial call succeeds", () => {
+    const circuit = breaker();
+    for (let i = 0; i < 3; i++) circuit.recordFailure();
+    jest.advanceTimersByTime(1_000);
+    circuit.canRequest();
+    circuit.recordSuccess();
+
+    expect(circuit.getState()).toBe("closed");
+    expect(circuit.canRequest()).toBe(true);
+  });
+
+  it("reopens for another cooldown when the trial call fails", () => {
+    const circuit = breaker();
+    for (let i = 0; i < 3; i++) circuit.recordFailure();
+    jest.advanceTimersByTime(1_000);
+    circuit.canRequest();
+    circuit.recordFailure();
+
+    expect(circuit.getState()).toBe("open");
+    expect(circuit.retryAfterMs()).toBe(1_000);
+  });
+
+  it("allows a new trial after a released one", () => {
+    const circuit = breaker();
+    for (let i = 0; i < 3; i++) circuit.recordFailure();
+    jest.advanceTimersByTime(1_000);
+    circuit.canRequest();
+    circuit.release();
+
+    expect(circuit.canRequest()).toBe(true);
+  });
+});
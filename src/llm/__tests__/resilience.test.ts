@@ -0,0 +1,162 @@
+import { ResilientLLMProvider, LLMTarget } from "../resilience";
+import { FakeLLMProvider } from "../providers/fake";
+import { LLMResilienceConfig } from "../config";
+import { LLMCircuitOpenError, LLMError, LLMTimeoutError } from "../errors";
+import { LLMMessage } from "../types";
+
+jest.mock("../../utils/logger", () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+const CONFIG: LLMResilienceConfig = {
+  timeoutMs: 200,
+  maxRetries: 2,
+  retryBaseDelayMs: 0,
+  retryMaxDelayMs: 0,
+  breakerFailureThreshold: 5,
+  breakerCooldownMs: 60_000,
+};
+
+const MESSAGES: LLMMessage[] = [{ role: "user", content: "hello" }];
+
+const target = (provider: FakeLLMProvider, model = "fake-chat"): LLMTarget => ({
+  provider,
+  model: () => model,
+});
+
+const failing = (status: number) =>
+  new FakeLLMProvider([{ error: { status, message: `status ${status}` } }]);
+
+describe("ResilientLLMProvider", () => {
+  it("retries retryable errors and returns the first success", async () => {
+    const provider = new FakeLLMProvider([{ response: "hi there" }]);
+    const complete = jest
+      .spyOn(provider, "complete")
+      .mockRejectedValueOnce(Object.assign(new Error("unavailable"), { status: 503 }));
+    const resilient = new ResilientLLMProvider([target(provider)], CONFIG);
+
+    const result = await resilient.complete(MESSAGES, { model: "fake-chat" });
+
+    expect(result.content).toBe("hi there");
+    expect(complete).toHaveBeenCalledTimes(2);
+  });
+
+  it("gives up after maxRetries", async () => {
+    const provider = failing(503);
+    const resilient = new ResilientLLMProvider([target(provider)], CONFIG);
+
+    await expect(resilient.complete(MESSAGES, { model: "fake-chat" })).rejects.toMatchObject({
+      status: 503,
+      retryable: true,
+    });
+    expect(provider.calls).toHaveLength(CONFIG.maxRetries + 1);
+  });
+
+  it("does not retry errors caused by the request", async () => {
+    const provider = failing(400);
+    const resilient = new ResilientLLMProvider([target(provider)], CONFIG);
+
+    await expect(resilient.complete(MESSAGES, { model: "fake-chat" })).rejects.toBeInstanceOf(
+      LLMError
+    );
+    expect(provider.calls).toHaveLength(1);
+  });
+
+  it("does not retry or trip the breaker on a reply that isn't valid JSON", async () => {
+    const provider = new FakeLLMProvider();
+    const completeJSON = jest
+      .spyOn(provider, "completeJSON")
+      .mockRejectedValue(new SyntaxError("Unexpected token 'S', \"Sure! Here\" is not valid JSON"));
+    const resilient = new ResilientLLMProvider([target(provider)], {
+      ...CONFIG,
+      breakerFailureThreshold: 1,
+    });
+
+    for (let call = 0; call < 3; call++) {
+      await expect(
+        resilient.completeJSON(MESSAGES, { model: "fake-chat" })
+      ).rejects.toMatchObject({ retryable: false });
+    }
+    expect(completeJSON).toHaveBeenCalledTimes(3);
+
+    // The breaker is still closed, so chat on the same model keeps working
+    const result = await resilient.complete(MESSAGES, { model: "fake-chat" });
+    expect(result.content).toBeTruthy();
+  });
+
+  it("retries connection failures that have no HTTP status", async () => {
+    const provider = new FakeLLMProvider([{ response: "hi there" }]);
+    const complete = jest
+      .spyOn(provider, "complete")
+      .mockRejectedValueOnce(
+        Object.assign(new TypeError("fetch failed"), { cause: { code: "ECONNRESET" } })
+      );
+    const resilient = new ResilientLLMProvider([target(provider)], CONFIG);
+
+    const result = await resilient.complete(MESSAGES, { model: "fake-chat" });
+
+    expect(result.content).toBe("hi there");
+    expect(complete).toHaveBeenCalledTimes(2);
+  });
+
+  it("falls back to the next target once the primary is exhausted", async () => {
+    const primary = failing(500);
+    const fallback = new FakeLLMProvider([{ response: "from fallback" }]);
+    const resilient = new ResilientLLMProvider(
+      [target(primary), target(fallback, "fake-fallback")],
+      CONFIG
+    );
+
+    const result = await resilient.complete(MESSAGES, { model: "fake-chat" });
+
+    expect(result.content).toBe("from fallback");
+    expect(result.model).toBe("fake-fallback");
+    expect(primary.calls).toHaveLength(CONFIG.maxRetries + 1);
+  });
+
+  it("skips a target whose circuit is open", async () => {
+    const primary = failing(503);
+    const resilient = new ResilientLLMProvider([target(primary)], {
+      ...CONFIG,
+      maxRetries: 0,
+      breakerFailureThreshold: 1,
+    });
+
+    await expect(resilient.complete(MESSAGES, { model: "fake-chat" })).rejects.toMatchObject({
+      status: 503,
+    });
+    await expect(resilient.complete(MESSAGES, { model: "fake-chat" })).rejects.toBeInstanceOf(
+      LLMCircuitOpenError
+    );
+    expect(primary.calls).toHaveLength(1);
+  });
+
+  it("times out a provider that does not answer", async () => {
+    const provider = new FakeLLMProvider([{ response: "too late", delayMs: 200 }]);
+    const resilient = new ResilientLLMProvider([target(provider)], {
+      ...CONFIG,
+      timeoutMs: 20,
+      maxRetries: 0,
+    });
+
+    await expect(resilient.complete(MESSAGES, { model: "fake-chat" })).rejects.toBeInstanceOf(
+      LLMTimeoutError
+    );
+  });
+
+  it("does not retry a stream once tokens have reached the caller", async () => {
+    const provider = new FakeLLMProvider([{ response: "partial reply" }]);
+    jest.spyOn(provider, "stream").mockImplementation(async (_messages, options) => {
+      options.onToken("partial ");
+      throw Object.assign(new Error("connection reset"), { status: 502 });
+    });
+    const resilient = new ResilientLLMProvider([target(provider)], CONFIG);
+    const tokens: string[] = [];
+
+    await expect(
+      resilient.stream(MESSAGES, { model: "fake-chat", onToken: (t) => tokens.push(t) })
+    ).rejects.toMatchObject({ status: 502 });
+    expect(provider.stream).toHaveBeenCalledTimes(1);
+    expect(tokens).toEqual(["partial "]);
+  });
+});
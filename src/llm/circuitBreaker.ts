@@ -0,0 +1,70 @@
+export type CircuitState = "closed" | "open" | "half_open";
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures that open the circuit
+  failureThreshold: number;
+  // How long calls are skipped before one trial call is let through
+  cooldownMs: number;
+}
+
+/**
+ * Consecutive-failure circuit breaker. Once open, calls are refused until
+ * the cooldown ends; then a single trial call decides whether it closes
+ * again or stays open for another cooldown.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(private options: CircuitBreakerOptions) {}
+
+  getState(): CircuitState {
+    if (this.state === "open" && this.retryAfterMs() === 0) {
+      return "half_open";
+    }
+    return this.state;
+  }
+
+  /**
+   * Whether a call may go out now. In half-open state only the first
+   * caller gets through.
+   */
+  canRequest(): boolean {
+    const state = this.getState();
+    if (state === "closed") return true;
+    if (state === "half_open" && !this.trialInFlight) {
+      this.state = "half_open";
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess() {
+    this.state = "closed";
+    this.failures = 0;
+    this.trialInFlight = false;
+  }
+
+  recordFailure() {
+    this.failures += 1;
+    if (this.state === "half_open" || this.failures >= this.options.failureThreshold) {
+      this.state = "open";
+      this.openedAt = Date.now();
+    }
+    this.trialInFlight = false;
+  }
+
+  // The trial call ended without a verdict (e.g. the caller aborted)
+  release() {
+    this.trialInFlight = false;
+  }
+
+  // Milliseconds until a trial call is allowed; 0 when not open
+  retryAfterMs(): number {
+    if (this.state !== "open") return 0;
+    return Math.max(0, this.openedAt + this.options.cooldownMs - Date.now());
+  }
+}
@@ -0,0 +1,169 @@
+import { LLMProviderName } from "./types";
+import { readNumberEnv } from "../utils/env";
+
+// Which job a model is used for, so each can be tuned separately
+export type LLMModelRole = "chat" | "analysis";
+
+const PROVIDERS: LLMProviderName[] = ["groq", "openai", "gemini", "fake"];
+
+const DEFAULT_MODELS: Record<LLMProviderName, Record<LLMModelRole, string>> = {
+  groq: {
+    chat: "llama-3.3-70b-versatile",
+    analysis: "openai/gpt-oss-20b",
+  },
+  openai: {
+    chat: "gpt-4o-mini",
+    analysis: "gpt-4o-mini",
+  },
+  gemini: {
+    chat: "gemini-2.0-flash",
+    analysis: "gemini-2.0-flash",
+  },
+  fake: {
+    chat: "fake-chat",
+    analysis: "fake-analysis",
+  },
+};
+
+export interface LLMConfig {
+  provider: LLMProviderName;
+  models: Record<LLMModelRole, string>;
+  apiKeys: {
+    groq?: string;
+    openai?: string;
+    gemini?: string;
+  };
+  // Optional JSON script for the fake provider
+  fakeScriptPath?: string;
+  // Tried when the primary provider/model keeps failing
+  fallback?: {
+    provider: LLMProviderName;
+    models: Record<LLMModelRole, string>;
+  };
+}
+
+/**
+ * Reads the LLM settings from the environment.
+ *
+ * LLM_PROVIDER picks the adapter (groq by default), LLM_CHAT_MODEL and
+ * LLM_ANALYSIS_MODEL override the provider's default models.
+ */
+export const getLLMConfig = (): LLMConfig => {
+  const requested = (process.env.LLM_PROVIDER || "groq").toLowerCase();
+  if (!PROVIDERS.includes(requested as LLMProviderName)) {
+    throw new Error(
+      `Unknown LLM_PROVIDER "${requested}" (expected one of ${PROVIDERS.join(", ")})`
+    );
+  }
+  const provider = requested as LLMProviderName;
+
+  return {
+    provider,
+    models: {
+      chat: process.env.LLM_CHAT_MODEL || DEFAULT_MODELS[provider].chat,
+      analysis:
+        process.env.LLM_ANALYSIS_MODEL || DEFAULT_MODELS[provider].analysis,
+    },
+    apiKeys: {
+      groq: process.env.GROQ_API_KEY,
+      openai: process.env.OPENAI_API_KEY,
+      gemini: process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY,
+    },
+    fakeScriptPath: process.env.LLM_FAKE_SCRIPT,
+    fallback: getFallbackConfig(provider),
+  };
+};
+
+/**
+ * LLM_FALLBACK_PROVIDER and/or LLM_FALLBACK_CHAT_MODEL /
+ * LLM_FALLBACK_ANALYSIS_MODEL. Without any of them there is no fallback.
+ */
+const getFallbackConfig = (
+  primary: LLMProviderName
+): LLMConfig["fallback"] => {
+  const requested = process.env.LLM_FALLBACK_PROVIDER?.toLowerCase();
+  const chat = process.env.LLM_FALLBACK_CHAT_MODEL;
+  const analysis = process.env.LLM_FALLBACK_ANALYSIS_MODEL;
+  if (!requested && !chat && !analysis) return undefined;
+
+  if (requested && !PROVIDERS.includes(requested as LLMProviderName)) {
+    throw new Error(
+      `Unknown LLM_FALLBACK_PROVIDER "${requested}" (expected one of ${PROVIDERS.join(", ")})`
+    );
+  }
+  const provider = (requested as LLMProviderName) || primary;
+
+  return {
+    provider,
+    models: {
+      chat: chat || DEFAULT_MODELS[provider].chat,
+      analysis: analysis || DEFAULT_MODELS[provider].analysis,
+    },
+  };
+};
+
+export interface LLMResilienceConfig {
+  // Per attempt; for streams, the longest gap between tokens
+  timeoutMs: number;
+  maxRetries: number;
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+  breakerFailureThreshold: number;
+  breakerCooldownMs: number;
+}
+
+/**
+ * Timeouts, retries and circuit breaker settings:
+ * LLM_TIMEOUT_MS, LLM_MAX_RETRIES, LLM_RETRY_BASE_DELAY_MS,
+ * LLM_RETRY_MAX_DELAY_MS, LLM_BREAKER_FAILURE_THRESHOLD, LLM_BREAKER_COOLDOWN_MS.
+ */
+export const getResilienceConfig = (): LLMResilienceConfig => ({
+  timeoutMs: readNumberEnv("LLM_TIMEOUT_MS", 20_000),
+  maxRetries: readNumberEnv("LLM_MAX_RETRIES", 2),
+  retryBaseDelayMs: readNumberEnv("LLM_RETRY_BASE_DELAY_MS", 500),
+  retryMaxDelayMs: readNumberEnv("LLM_RETRY_MAX_DELAY_MS", 4_000),
+  breakerFailureThreshold: readNumberEnv("LLM_BREAKER_FAILURE_THRESHOLD", 5),
+  breakerCooldownMs: readNumberEnv("LLM_BREAKER_COOLDOWN_MS", 30_000),
+});
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// List prices at the time of writing; override or extend with LLM_PRICES
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  "llama-3.3-70b-versatile": { input: 0.59, output: 0.79 },
+  "llama-3.1-8b-instant": { input: 0.05, output: 0.08 },
+  "openai/gpt-oss-20b": { input: 0.1, output: 0.5 },
+  "openai/gpt-oss-120b": { input: 0.15, output: 0.75 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+  "fake-chat": { input: 0, output: 0 },
+  "fake-analysis": { input: 0, output: 0 },
+};
+
+/**
+ * Price table for cost estimates. LLM_PRICES is a JSON object of
+ * model => { input, output } merged over the defaults, e.g.
+ * {"gpt-4o-mini":{"input":0.15,"output":0.6}}
+ */
+export const getModelPrices = (): Record<string, ModelPrice> => {
+  const raw = process.env.LLM_PRICES;
+  if (!raw) return DEFAULT_PRICES;
+
+  let overrides: Record<string, ModelPrice>;
+  try {
+    overrides = JSON.parse(raw);
+  } catch {
+    throw new Error("LLM_PRICES must be a JSON object of model => { input, output }");
+  }
+  for (const [model, price] of Object.entries(overrides)) {
+    if (!Number.isFinite(price?.input) || !Number.isFinite(price?.output)) {
+      throw new Error(`LLM_PRICES["${model}"] needs numeric input and output prices`);
+    }
+  }
+  return { ...DEFAULT_PRICES, ...overrides };
+};
@@ -0,0 +1,88 @@
+import { LLMProviderName } from "./types";
+
+/**
+ * A failed LLM call, normalized across providers.
+ * `retryable` is true for timeouts, rate limits, 5xx and network errors;
+ * only those count against the provider's circuit breaker.
+ */
+export class LLMError extends Error {
+  provider: LLMProviderName;
+  retryable: boolean;
+  status?: number;
+  // The original SDK error, for logs
+  cause?: unknown;
+
+  constructor(
+    message: string,
+    provider: LLMProviderName,
+    retryable: boolean,
+    status?: number,
+    cause?: unknown
+  ) {
+    super(message);
+    this.name = "LLMError";
+    this.provider = provider;
+    this.retryable = retryable;
+    this.status = status;
+    this.cause = cause;
+  }
+}
+
+export class LLMTimeoutError extends LLMError {
+  constructor(provider: LLMProviderName, timeoutMs: number) {
+    super(`${provider} did not respond within ${timeoutMs}ms`, provider, true);
+    this.name = "LLMTimeoutError";
+  }
+}
+
+// The provider has failed too often recently; calls are skipped for a while
+export class LLMCircuitOpenError extends LLMError {
+  retryAfterMs: number;
+
+  constructor(provider: LLMProviderName, retryAfterMs: number) {
+    super(`${provider} is temporarily unavailable`, provider, true, 503);
+    this.name = "LLMCircuitOpenError";
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+const RETRYABLE_STATUSES = [408, 409, 425, 429];
+
+// Connection failures come without an HTTP status: the SDKs' connection and
+// timeout errors, or fetch's TypeError with a system error code as its cause
+const isTransportError = (error: unknown): boolean => {
+  if (!(error instanceof Error)) return false;
+  if (/Connection|Timeout/.test(`${error.name} ${error.constructor.name}`)) return true;
+  const code =
+    (error as { code?: unknown }).code ??
+    (error as { cause?: { code?: unknown } }).cause?.code;
+  return typeof code === "string" && /^(E[A-Z]{3,}|UND_ERR)/.test(code);
+};
+
+/**
+ * Wraps whatever a provider SDK threw. Only transport failures and
+ * timeouts, 5xx and rate limits are retryable; anything else without an
+ * HTTP status (e.g. a SyntaxError from parsing the model's JSON) is the
+ * response's fault and retrying won't fix it.
+ */
+export const toLLMError = (
+  error: unknown,
+  provider: LLMProviderName
+): LLMError => {
+  if (error instanceof LLMError) return error;
+
+  const status = (error as { status?: unknown })?.status;
+  const httpStatus = typeof status === "number" ? status : undefined;
+  const retryable =
+    httpStatus === undefined
+      ? isTransportError(error)
+      : httpStatus >= 500 || RETRYABLE_STATUSES.includes(httpStatus);
+
+  return new LLMError(
+    error instanceof Error ? error.message : String(error),
+    provider,
+    retryable,
+    httpStatus,
+    error
+  );
+};
@@ -0,0 +1,91 @@
+import { getLLMConfig, LLMConfig, LLMModelRole } from "./config";
+import { LLMProvider, LLMProviderName } from "./types";
+import { GroqProvider } from "./providers/groq";
+import { OpenAIProvider } from "./providers/openai";
+import { GeminiProvider } from "./providers/gemini";
+import { FakeLLMProvider } from "./providers/fake";
+import { ResilientLLMProvider, LLMTarget } from "./resilience";
+import { MeteredLLMProvider } from "./metering";
+import { recordLLMUsage } from "../services/usageAccounting";
+
+export * from "./types";
+export {
+  LLMError,
+  LLMTimeoutError,
+  LLMCircuitOpenError,
+} from "./errors";
+export { parseJSONContent } from "./json";
+export { FakeLLMProvider } from "./providers/fake";
+
+let provider: LLMProvider | null = null;
+
+const createProvider = (
+  name: LLMProviderName,
+  config: LLMConfig
+): LLMProvider => {
+  switch (name) {
+    case "openai":
+      return new OpenAIProvider(config.apiKeys.openai || "");
+    case "gemini":
+      return new GeminiProvider(config.apiKeys.gemini || "");
+    case "fake":
+      return config.fakeScriptPath
+        ? FakeLLMProvider.fromFile(config.fakeScriptPath)
+        : new FakeLLMProvider();
+    case "groq":
+    default:
+      return new GroqProvider(config.apiKeys.groq || "");
+  }
+};
+
+/**
+ * The primary provider, then the fallback (if configured). The fallback
+ * model is picked by the role of the model the caller asked for.
+ */
+const createTargets = (config: LLMConfig): LLMTarget[] => {
+  const primary = createProvider(config.provider, config);
+  const targets: LLMTarget[] = [{ provider: primary, model: (model) => model }];
+
+  const { fallback } = config;
+  if (fallback) {
+    targets.push({
+      provider:
+        fallback.provider === config.provider
+          ? primary
+          : createProvider(fallback.provider, config),
+      model: (model) =>
+        model === config.models.analysis && model !== config.models.chat
+          ? fallback.models.analysis
+          : fallback.models.chat,
+    });
+  }
+
+  return targets;
+};
+
+/**
+ * Returns the configured provider wrapped with timeouts, retries, fallback
+ * and a circuit breaker, with every call's token usage recorded. Created
+ * on first use so that environment variables loaded by dotenv are picked up.
+ */
+export const getLLMProvider = (): LLMProvider => {
+  if (!provider) {
+    provider = new MeteredLLMProvider(
+      new ResilientLLMProvider(createTargets(getLLMConfig())),
+      recordLLMUsage
+    );
+  }
+  return provider;
+};
+
+/**
+ * Overrides the provider (e.g. with a FakeLLMProvider in tests). The
+ * override is used as-is, without the resilience or metering wrappers.
+ * Pass null to go back to the configured one.
+ */
+export const setLLMProvider = (override: LLMProvider | null) => {
+  provider = override;
+};
+
+export const getModel = (role: LLMModelRole): string =>
+  getLLMConfig().models[role];
@@ -0,0 +1,19 @@
+/**
+ * Parses a model reply that is supposed to be JSON.
+ * Models sometimes wrap it in markdown fences or add a sentence around it,
+ * so strip those before giving up.
+ */
+export const parseJSONContent = <T = any>(text: string): T => {
+  const clean = text.replace(/```json\n?|```/g, "").trim();
+
+  try {
+    return JSON.parse(clean);
+  } catch (error) {
+    const start = clean.indexOf("{");
+    const end = clean.lastIndexOf("}");
+    if (start !== -1 && end > start) {
+      return JSON.parse(clean.slice(start, end + 1));
+    }
+    throw error;
+  }
+};
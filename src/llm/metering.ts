@@ -0,0 +1,87 @@
+import {
+  LLMProvider,
+  LLMProviderName,
+  LLMMessage,
+  LLMCompletionOptions,
+  LLMStreamOptions,
+  LLMCompletion,
+  LLMJSONCompletion,
+  LLMAccounting,
+  LLMUsage,
+} from "./types";
+import { estimateTokens } from "../utils/tokens";
+
+export interface LLMUsageRecord extends LLMAccounting, LLMUsage {
+  provider: LLMProviderName;
+  model: string;
+  estimated: boolean;
+}
+
+/**
+ * Reports the token usage of every successful call to `onUsage`, with the
+ * feature/user/session from the call's `accounting` option. Providers that
+ * don't report usage get an estimate from the text.
+ */
+export class MeteredLLMProvider implements LLMProvider {
+  readonly name: LLMProviderName;
+
+  constructor(
+    private inner: LLMProvider,
+    private onUsage: (record: LLMUsageRecord) => void
+  ) {
+    this.name = inner.name;
+  }
+
+  async complete(
+    messages: LLMMessage[],
+    options: LLMCompletionOptions
+  ): Promise<LLMCompletion> {
+    return this.meter(messages, options, await this.inner.complete(messages, options));
+  }
+
+  async completeJSON<T = any>(
+    messages: LLMMessage[],
+    options: LLMCompletionOptions
+  ): Promise<LLMJSONCompletion<T>> {
+    return this.meter(
+      messages,
+      options,
+      await this.inner.completeJSON<T>(messages, options)
+    );
+  }
+
+  async stream(
+    messages: LLMMessage[],
+    options: LLMStreamOptions
+  ): Promise<LLMCompletion> {
+    return this.meter(messages, options, await this.inner.stream(messages, options));
+  }
+
+  private meter<C extends LLMCompletion>(
+    messages: LLMMessage[],
+    options: LLMCompletionOptions,
+    completion: C
+  ): C {
+    const usage = completion.usage || estimateUsage(messages, completion.content);
+    this.onUsage({
+      feature: "other",
+      ...options.accounting,
+      provider: completion.provider,
+      model: completion.model,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      totalTokens: usage.totalTokens,
+      estimated: !completion.usage,
+    });
+    return completion;
+  }
+}
+
+export const estimateUsage = (
+  messages: LLMMessage[],
+  content: string
+): LLMUsage => {
+  const promptTokens = estimateTokens(messages.map((m) => m.content).join("\n"));
+  const completionTokens = estimateTokens(content);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+};
@@ -0,0 +1,149 @@
+import fs from "fs";
+import {
+  LLMProvider,
+  LLMMessage,
+  LLMCompletionOptions,
+  LLMStreamOptions,
+  LLMCompletion,
+  LLMJSONCompletion,
+  LLMUsage,
+} from "../types";
+import { estimateTokens } from "../../utils/tokens";
+
+export interface FakeScriptEntry {
+  // Regex source matched (case-insensitively) against the last user message
+  match?: string;
+  // Plain text for completions, an object for JSON-mode calls
+  response?: string | Record<string, any>;
+  // Fail instead of replying, e.g. { "status": 503 } to simulate an outage
+  error?: { status?: number; message?: string };
+  // Wait before replying, to exercise timeouts
+  delayMs?: number;
+}
+
+export interface FakeScript {
+  entries: FakeScriptEntry[];
+  defaultResponse?: string;
+  defaultJSON?: Record<string, any>;
+}
+
+export interface FakeCall {
+  method: "complete" | "completeJSON" | "stream";
+  messages: LLMMessage[];
+  options: LLMCompletionOptions;
+}
+
+const DEFAULT_RESPONSE =
+  "That sounds like a lot to carry. What feels heaviest about it right now?";
+
+/**
+ * Deterministic provider for offline development and tests.
+ * Replies come from a script instead of a model, and every call is recorded.
+ */
+export class FakeLLMProvider implements LLMProvider {
+  readonly name = "fake" as const;
+  readonly calls: FakeCall[] = [];
+  private script: FakeScript;
+
+  constructor(script: FakeScript | FakeScriptEntry[] = []) {
+    this.script = Array.isArray(script) ? { entries: script } : script;
+  }
+
+  static fromFile(path: string): FakeLLMProvider {
+    return new FakeLLMProvider(JSON.parse(fs.readFileSync(path, "utf8")));
+  }
+
+  private findEntry(messages: LLMMessage[]): FakeScriptEntry | undefined {
+    const lastUser =
+      [...messages].reverse().find((m) => m.role === "user")?.content || "";
+    return this.script.entries.find(
+      (entry) => !entry.match || new RegExp(entry.match, "i").test(lastUser)
+    );
+  }
+
+  private toCompletion(
+    messages: LLMMessage[],
+    content: string,
+    options: LLMCompletionOptions
+  ): LLMCompletion {
+    const promptTokens = estimateTokens(
+      messages.map((m) => m.content).join("\n")
+    );
+    const completionTokens = estimateTokens(content);
+    const usage: LLMUsage = {
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+    };
+    return { content, provider: this.name, model: options.model, usage };
+  }
+
+  private textFor(messages: LLMMessage[]): string {
+    const entry = this.findEntry(messages);
+    if (!entry || entry.response === undefined) {
+      return this.script.defaultResponse || DEFAULT_RESPONSE;
+    }
+    return typeof entry.response === "string"
+      ? entry.response
+      : JSON.stringify(entry.response);
+  }
+
+  // Applies the entry's delay and simulated error, if any
+  private async simulate(messages: LLMMessage[], signal?: AbortSignal) {
+    const entry = this.findEntry(messages);
+    if (entry?.delayMs) {
+      await new Promise((resolve) => setTimeout(resolve, entry.delayMs));
+    }
+    if (signal?.aborted) {
+      throw new Error("Request was aborted");
+    }
+    if (entry?.error) {
+      throw Object.assign(
+        new Error(entry.error.message || "Simulated provider error"),
+        { status: entry.error.status }
+      );
+    }
+  }
+
+  async complete(
+    messages: LLMMessage[],
+    options: LLMCompletionOptions
+  ): Promise<LLMCompletion> {
+    this.calls.push({ method: "complete", messages, options });
+    await this.simulate(messages, options.signal);
+    return this.toCompletion(messages, this.textFor(messages), options);
+  }
+
+  async completeJSON<T = any>(
+    messages: LLMMessage[],
+    options: LLMCompletionOptions
+  ): Promise<LLMJSONCompletion<T>> {
+    this.calls.push({ method: "completeJSON", messages, options });
+    await this.simulate(messages, options.signal);
+    const entry = this.findEntry(messages);
+    const data =
+      entry && typeof entry.response === "object"
+        ? entry.response
+        : this.script.defaultJSON || {};
+    const content = JSON.stringify(data);
+    return { ...this.toCompletion(messages, content, options), data: data as T };
+  }
+
+  async stream(
+    messages: LLMMessage[],
+    options: LLMStreamOptions
+  ): Promise<LLMCompletion> {
+    this.calls.push({ method: "stream", messages, options });
+    await this.simulate(messages, options.signal);
+    const content = this.textFor(messages);
+
+    // Emit word by word, keeping the whitespace so the joined text matches
+    for (const token of content.match(/\S+\s*/g) || []) {
+      if (options.signal?.aborted) {
+        throw new Error("Request was aborted");
+      }
+      options.onToken(token);
+    }
+    return this.toCompletion(messages, content, options);
+  }
+}
@@ -0,0 +1,129 @@
+import { GoogleGenAI, Content, GenerateContentConfig } from "@google/genai";
+import {
+  LLMProvider,
+  LLMMessage,
+  LLMCompletionOptions,
+  LLMStreamOptions,
+  LLMCompletion,
+  LLMJSONCompletion,
+  LLMUsage,
+} from "../types";
+import { parseJSONContent } from "../json";
+
+const toUsage = (metadata?: {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  totalTokenCount?: number;
+}): LLMUsage | undefined =>
+  metadata
+    ? {
+        promptTokens: metadata.promptTokenCount || 0,
+        completionTokens: metadata.candidatesTokenCount || 0,
+        totalTokens: metadata.totalTokenCount || 0,
+      }
+    : undefined;
+
+/**
+ * Gemini takes the system prompt separately and calls the assistant "model"
+ */
+const toGeminiRequest = (
+  messages: LLMMessage[],
+  options: LLMCompletionOptions
+): { contents: Content[]; config: GenerateContentConfig } => {
+  const systemInstruction = messages
+    .filter((m) => m.role === "system")
+    .map((m) => m.content)
+    .join("\n\n");
+
+  const contents = messages
+    .filter((m) => m.role !== "system")
+    .map((m) => ({
+      role: m.role === "assistant" ? "model" : "user",
+      parts: [{ text: m.content }],
+    }));
+
+  return {
+    contents,
+    config: {
+      systemInstruction: systemInstruction || undefined,
+      temperature: options.temperature,
+      maxOutputTokens: options.maxTokens,
+      topP: options.topP,
+      abortSignal: options.signal,
+    },
+  };
+};
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = "gemini" as const;
+  private client: GoogleGenAI;
+
+  constructor(apiKey: string) {
+    this.client = new GoogleGenAI({ apiKey });
+  }
+
+  async complete(
+    messages: LLMMessage[],
+    options: LLMCompletionOptions
+  ): Promise<LLMCompletion> {
+    const { contents, config } = toGeminiRequest(messages, options);
+    const response = await this.client.models.generateContent({
+      model: options.model,
+      contents,
+      config,
+    });
+
+    return {
+      content: response.text?.trim() || "",
+      provider: this.name,
+      model: options.model,
+      usage: toUsage(response.usageMetadata),
+    };
+  }
+
+  async completeJSON<T = any>(
+    messages: LLMMessage[],
+    options: LLMCompletionOptions
+  ): Promise<LLMJSONCompletion<T>> {
+    const { contents, config } = toGeminiRequest(messages, options);
+    const response = await this.client.models.generateContent({
+      model: options.model,
+      contents,
+      config: { ...config, responseMimeType: "application/json" },
+    });
+
+    const content = response.text?.trim() || "";
+    return {
+      content,
+      data: parseJSONContent<T>(content),
+      provider: this.name,
+      model: options.model,
+      usage: toUsage(response.usageMetadata),
+    };
+  }
+
+  async stream(
+    messages: LLMMessage[],
+    options: LLMStreamOptions
+  ): Promise<LLMCompletion> {
+    const { contents, config } = toGeminiRequest(messages, options);
+    const stream = await this.client.models.generateContentStream({
+      model: options.model,
+      contents,
+      config,
+    });
+
+    let content = "";
+    let usage: LLMUsage | undefined;
+    for await (const chunk of stream) {
+      const token = chunk.text;
+      if (token) {
+        content += token;
+        options.onToken(token);
+      }
+      usage = toUsage(chunk.usageMetadata) || usage;
+    }
+
+    return { content, provider: this.name, model: options.model, usage };
+  }
+}
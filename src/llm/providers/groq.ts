@@ -0,0 +1,114 @@
+import Groq from "groq-sdk";
+import {
+  LLMProvider,
+  LLMMessage,
+  LLMCompletionOptions,
+  LLMStreamOptions,
+  LLMCompletion,
+  LLMJSONCompletion,
+  LLMUsage,
+} from "../types";
+import { parseJSONContent } from "../json";
+
+const toUsage = (usage?: {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+} | null): LLMUsage | undefined =>
+  usage
+    ? {
+        promptTokens: usage.prompt_tokens,
+        completionTokens: usage.completion_tokens,
+        totalTokens: usage.total_tokens,
+      }
+    : undefined;
+
+export class GroqProvider implements LLMProvider {
+  readonly name = "groq" as const;
+  private client: Groq;
+
+  constructor(apiKey: string) {
+    // Retries and timeouts are handled by ResilientLLMProvider
+    this.client = new Groq({ apiKey, maxRetries: 0 });
+  }
+
+  async complete(
+    messages: LLMMessage[],
+    options: LLMCompletionOptions
+  ): Promise<LLMCompletion> {
+    const response = await this.client.chat.completions.create(
+      {
+        messages,
+        model: options.model,
+        temperature: options.temperature,
+        max_tokens: options.maxTokens,
+        top_p: options.topP,
+      },
+      { signal: options.signal }
+    );
+
+    return {
+      content: response.choices[0]?.message?.content?.trim() || "",
+      provider: this.name,
+      model: response.model || options.model,
+      usage: toUsage(response.usage),
+    };
+  }
+
+  async completeJSON<T = any>(
+    messages: LLMMessage[],
+    options: LLMCompletionOptions
+  ): Promise<LLMJSONCompletion<T>> {
+    const response = await this.client.chat.completions.create(
+      {
+        messages,
+        model: options.model,
+        temperature: options.temperature,
+        max_tokens: options.maxTokens,
+        top_p: options.topP,
+        response_format: { type: "json_object" },
+      },
+      { signal: options.signal }
+    );
+
+    const content = response.choices[0]?.message?.content?.trim() || "";
+    return {
+      content,
+      data: parseJSONContent<T>(content),
+      provider: this.name,
+      model: response.model || options.model,
+      usage: toUsage(response.usage),
+    };
+  }
+
+  async stream(
+    messages: LLMMessage[],
+    options: LLMStreamOptions
+  ): Promise<LLMCompletion> {
+    const stream = await this.client.chat.completions.create(
+      {
+        messages,
+        model: options.model,
+        temperature: options.temperature,
+        max_tokens: options.maxTokens,
+        top_p: options.topP,
+        stream: true,
+      },
+      { signal: options.signal }
+    );
+
+    let content = "";
+    let usage: LLMUsage | undefined;
+    for await (const chunk of stream) {
+      const token = chunk.choices[0]?.delta?.content;
+      if (token) {
+        content += token;
+        options.onToken(token);
+      }
+      // Groq only sends usage on the final chunk
+      usage = toUsage(chunk.x_groq?.usage) || usage;
+    }
+
+    return { content, provider: this.name, model: options.model, usage };
+  }
+}
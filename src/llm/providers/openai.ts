@@ -0,0 +1,110 @@
+import OpenAI from "openai";
+import {
+  LLMProvider,
+  LLMMessage,
+  LLMCompletionOptions,
+  LLMStreamOptions,
+  LLMCompletion,
+  LLMJSONCompletion,
+  LLMUsage,
+} from "../types";
+import { parseJSONContent } from "../json";
+
+const toUsage = (usage?: OpenAI.CompletionUsage | null): LLMUsage | undefined =>
+  usage
+    ? {
+        promptTokens: usage.prompt_tokens,
+        completionTokens: usage.completion_tokens,
+        totalTokens: usage.total_tokens,
+      }
+    : undefined;
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name = "openai" as const;
+  private client: OpenAI;
+
+  constructor(apiKey: string) {
+    // Retries and timeouts are handled by ResilientLLMProvider
+    this.client = new OpenAI({ apiKey, maxRetries: 0 });
+  }
+
+  async complete(
+    messages: LLMMessage[],
+    options: LLMCompletionOptions
+  ): Promise<LLMCompletion> {
+    const response = await this.client.chat.completions.create(
+      {
+        messages,
+        model: options.model,
+        temperature: options.temperature,
+        max_tokens: options.maxTokens,
+        top_p: options.topP,
+      },
+      { signal: options.signal }
+    );
+
+    return {
+      content: response.choices[0]?.message?.content?.trim() || "",
+      provider: this.name,
+      model: response.model || options.model,
+      usage: toUsage(response.usage),
+    };
+  }
+
+  async completeJSON<T = any>(
+    messages: LLMMessage[],
+    options: LLMCompletionOptions
+  ): Promise<LLMJSONCompletion<T>> {
+    const response = await this.client.chat.completions.create(
+      {
+        messages,
+        model: options.model,
+        temperature: options.temperature,
+        max_tokens: options.maxTokens,
+        top_p: options.topP,
+        response_format: { type: "json_object" },
+      },
+      { signal: options.signal }
+    );
+
+    const content = response.choices[0]?.message?.content?.trim() || "";
+    return {
+      content,
+      data: parseJSONContent<T>(content),
+      provider: this.name,
+      model: response.model || options.model,
+      usage: toUsage(response.usage),
+    };
+  }
+
+  async stream(
+    messages: LLMMessage[],
+    options: LLMStreamOptions
+  ): Promise<LLMCompletion> {
+    const stream = await this.client.chat.completions.create(
+      {
+        messages,
+        model: options.model,
+        temperature: options.temperature,
+        max_tokens: options.maxTokens,
+        top_p: options.topP,
+        stream: true,
+        stream_options: { include_usage: true },
+      },
+      { signal: options.signal }
+    );
+
+    let content = "";
+    let usage: LLMUsage | undefined;
+    for await (const chunk of stream) {
+      const token = chunk.choices[0]?.delta?.content;
+      if (token) {
+        content += token;
+        options.onToken(token);
+      }
+      usage = toUsage(chunk.usage) || usage;
+    }
+
+    return { content, provider: this.name, model: options.model, usage };
+  }
+}
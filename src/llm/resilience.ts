@@ -0,0 +1,230 @@
+import {
+  LLMProvider,
+  LLMProviderName,
+  LLMMessage,
+  LLMCompletionOptions,
+  LLMStreamOptions,
+  LLMCompletion,
+  LLMJSONCompletion,
+} from "./types";
+import { getResilienceConfig, LLMResilienceConfig } from "./config";
+import { CircuitBreaker } from "./circuitBreaker";
+import {
+  LLMCircuitOpenError,
+  LLMError,
+  LLMTimeoutError,
+  toLLMError,
+} from "./errors";
+import { logger } from "../utils/logger";
+
+// A provider plus the model to ask it for, given the model the caller wanted
+export interface LLMTarget {
+  provider: LLMProvider;
+  model: (requested: string) => string;
+}
+
+type Attempt<T> = (
+  provider: LLMProvider,
+  model: string,
+  signal: AbortSignal,
+  // Resets the timeout; streams call it on every token
+  touch: () => void
+) => Promise<T>;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Wraps the configured provider with per-attempt timeouts, retries with
+ * exponential backoff, a fallback provider/model and a circuit breaker per
+ * provider+model. Throws an LLMError (LLMCircuitOpenError when every
+ * target is open) once all options are exhausted.
+ */
+export class ResilientLLMProvider implements LLMProvider {
+  readonly name: LLMProviderName;
+  private breakers = new Map<string, CircuitBreaker>();
+
+  constructor(
+    private targets: LLMTarget[],
+    private config: LLMResilienceConfig = getResilienceConfig()
+  ) {
+    this.name = targets[0].provider.name;
+  }
+
+  complete(
+    messages: LLMMessage[],
+    options: LLMCompletionOptions
+  ): Promise<LLMCompletion> {
+    return this.run(options, (provider, model, signal) =>
+      provider.complete(messages, { ...options, model, signal })
+    );
+  }
+
+  completeJSON<T = any>(
+    messages: LLMMessage[],
+    options: LLMCompletionOptions
+  ): Promise<LLMJSONCompletion<T>> {
+    return this.run(options, (provider, model, signal) =>
+      provider.completeJSON<T>(messages, { ...options, model, signal })
+    );
+  }
+
+  stream(
+    messages: LLMMessage[],
+    options: LLMStreamOptions
+  ): Promise<LLMCompletion> {
+    let emitted = false;
+    return this.run(
+      options,
+      (provider, model, signal, touch) =>
+        provider.stream(messages, {
+          ...options,
+          model,
+          signal,
+          onToken: (token) => {
+            emitted = true;
+            touch();
+            options.onToken(token);
+          },
+        }),
+      () => emitted
+    );
+  }
+
+  private breakerFor(provider: LLMProviderName, model: string): CircuitBreaker {
+    const key = `${provider}:${model}`;
+    let breaker = this.breakers.get(key);
+    if (!breaker) {
+      breaker = new CircuitBreaker({
+        failureThreshold: this.config.breakerFailureThreshold,
+        cooldownMs: this.config.breakerCooldownMs,
+      });
+      this.breakers.set(key, breaker);
+    }
+    return breaker;
+  }
+
+  private backoff(attempt: number): number {
+    const delay = Math.min(
+      this.config.retryMaxDelayMs,
+      this.config.retryBaseDelayMs * 2 ** attempt
+    );
+    // Jitter so retries from many requests don't line up
+    return Math.round(delay * (0.5 + Math.random() / 2));
+  }
+
+  private async run<T>(
+    options: LLMCompletionOptions,
+    call: Attempt<T>,
+    // True once output has reached the caller and can't be taken back
+    committed: () => boolean = () => false
+  ): Promise<T> {
+    let lastError: LLMError | undefined;
+
+    for (const [index, target] of this.targets.entries()) {
+      const { provider } = target;
+      const model = target.model(options.model);
+      const breaker = this.breakerFor(provider.name, model);
+
+      if (!breaker.canRequest()) {
+        lastError = new LLMCircuitOpenError(provider.name, breaker.retryAfterMs());
+        continue;
+      }
+      if (index > 0) {
+        logger.warn(`Falling back to ${provider.name}/${model}`, {
+          reason: lastError?.message,
+        });
+      }
+
+      for (let attempt = 0; ; attempt++) {
+        try {
+          const result = await this.attempt(provider.name, options.signal, (signal, touch) =>
+            call(provider, model, signal, touch)
+          );
+          breaker.recordSuccess();
+          return result;
+        } catch (error) {
+          if (options.signal?.aborted) {
+            breaker.release();
+            throw error;
+          }
+
+          const llmError = toLLMError(error, provider.name);
+          lastError = llmError;
+
+          if (!llmError.retryable) {
+            // The request or the reply is at fault, not the provider's health
+            breaker.release();
+          } else {
+            breaker.recordFailure();
+          }
+
+          if (committed()) throw llmError;
+          if (
+            !llmError.retryable ||
+            attempt >= this.config.maxRetries ||
+            breaker.getState() !== "closed"
+          ) {
+            logger.error(`LLM call to ${provider.name}/${model} failed:`, {
+              message: llmError.message,
+              status: llmError.status,
+              attempts: attempt + 1,
+            });
+            break;
+          }
+
+          const delay = this.backoff(attempt);
+          logger.warn(
+            `LLM call to ${provider.name}/${model} failed, retrying in ${delay}ms`,
+            { message: llmError.message, status: llmError.status }
+          );
+          await sleep(delay);
+          if (options.signal?.aborted) throw llmError;
+        }
+      }
+    }
+
+    throw lastError || new LLMError("No LLM provider configured", this.name, false);
+  }
+
+  /**
+   * One call with a timeout. The timeout restarts whenever `touch` is
+   * called, so a stream only fails when it stalls.
+   */
+  private async attempt<T>(
+    provider: LLMProviderName,
+    callerSignal: AbortSignal | undefined,
+    run: (signal: AbortSignal, touch: () => void) => Promise<T>
+  ): Promise<T> {
+    const controller = new AbortController();
+    const onCallerAbort = () => controller.abort();
+    if (callerSignal?.aborted) controller.abort();
+    callerSignal?.addEventListener("abort", onCallerAbort);
+
+    let timer: NodeJS.Timeout | undefined;
+    let rejectTimeout: (error: Error) => void = () => {};
+    // Rejects even if the SDK ignores the abort signal
+    const timedOut = new Promise<never>((_, reject) => {
+      rejectTimeout = reject;
+    });
+    const touch = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        controller.abort();
+        rejectTimeout(new LLMTimeoutError(provider, this.config.timeoutMs));
+      }, this.config.timeoutMs);
+    };
+
+    touch();
+    const pending = run(controller.signal, touch);
+    // The losing side of the race must not surface as an unhandled rejection
+    pending.catch(() => {});
+    timedOut.catch(() => {});
+
+    try {
+      return await Promise.race([pending, timedOut]);
+    } finally {
+      clearTimeout(timer);
+      callerSignal?.removeEventListener("abort", onCallerAbort);
+    }
+  }
+}
@@ -0,0 +1,75 @@
+export type LLMProviderName = "groq" | "openai" | "gemini" | "fake";
+
+export interface LLMMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+// What a call was made for, so usage and cost can be broken down
+export type LLMFeature =
+  | "chat"
+  | "analysis"
+  | "end_detection"
+  | "session_summary"
+  | "title"
+  | "memory"
+  | "recommendations"
+  | "session_analysis"
+  | "other";
+
+// Who and what a call's tokens are attributed to
+export interface LLMAccounting {
+  feature: LLMFeature;
+  userId?: string;
+  sessionId?: string;
+}
+
+// The user/session part of LLMAccounting, passed down to services
+export type LLMUsageOwner = Omit<LLMAccounting, "feature">;
+
+export interface LLMCompletionOptions {
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  signal?: AbortSignal;
+  accounting?: LLMAccounting;
+}
+
+export interface LLMStreamOptions extends LLMCompletionOptions {
+  // Called for every partial piece of text as it arrives
+  onToken: (token: string) => void;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMCompletion {
+  content: string;
+  provider: LLMProviderName;
+  model: string;
+  usage?: LLMUsage;
+}
+
+export interface LLMJSONCompletion<T> extends LLMCompletion {
+  data: T;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  complete(
+    messages: LLMMessage[],
+    options: LLMCompletionOptions
+  ): Promise<LLMCompletion>;
+  completeJSON<T = any>(
+    messages: LLMMessage[],
+    options: LLMCompletionOptions
+  ): Promise<LLMJSONCompletion<T>>;
+  stream(
+    messages: LLMMessage[],
+    options: LLMStreamOptions
+  ): Promise<LLMCompletion>;
+}
@@ -0,0 +1,186 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import { loginRateLimit, messageRateLimit, rateLimit } from "../rateLimit";
+import { chatTokenQuota } from "../tokenQuota";
+import { MemoryRateLimitStore, setRateLimitStore } from "../../services/rateLimit";
+import { getTokenQuotaStatus } from "../../services/tokenQuota";
+
+jest.mock("../../utils/logger", () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+jest.mock("../../services/tokenQuota", () => ({
+  getTokenQuotaStatus: jest.fn(),
+}));
+
+interface Outcome {
+  status?: number;
+  body?: any;
+  headers: Record<string, string>;
+  passed: boolean;
+}
+
+// Runs the middleware chain like Express would, stopping at the first response
+const run = async (
+  handlers: RequestHandler | RequestHandler[],
+  req: Partial<Request>
+): Promise<Outcome> => {
+  const outcome: Outcome = { headers: {}, passed: false };
+  const res = {
+    set: (name: string, value: string) => {
+      outcome.headers[name] = value;
+      return res;
+    },
+    status: (status: number) => {
+      outcome.status = status;
+      return res;
+    },
+    json: (body: unknown) => {
+      outcome.body = body;
+      return res;
+    },
+  } as unknown as Response;
+
+  for (const handler of [handlers].flat()) {
+    let next = false;
+    await handler(
+      { socket: {}, ...req } as Request,
+      res,
+      (() => {
+        next = true;
+      }) as NextFunction
+    );
+    if (!next) return outcome;
+  }
+  return { ...outcome, passed: true };
+};
+
+const login = (ip: string, email: string) => ({ ip, body: { email } });
+const message = (ip: string, userId: string) => ({ ip, user: { _id: userId } as any });
+
+beforeEach(() => {
+  setRateLimitStore(new MemoryRateLimitStore());
+  // Early in a window, so no test straddles two
+  jest.spyOn(Date, "now").mockReturnValue(Date.parse("2026-03-01T12:00:01Z"));
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  delete process.env.RATE_LIMIT_TEST_MAX;
+});
+
+describe("rateLimit", () => {
+  const limit = rateLimit({
+    name: "test",
+    max: 2,
+    windowMs: 60_000,
+    key: (req) => `ip:${req.ip}`,
+    message: "Slow down",
+  });
+
+  it("lets requests through up to the limit, then answers 429", async () => {
+    expect((await run(limit, { ip: "1.1.1.1" })).passed).toBe(true);
+
+    const last = await run(limit, { ip: "1.1.1.1" });
+    expect(last.passed).toBe(true);
+    expect(last.headers["RateLimit-Remaining"]).toBe("0");
+
+    const blocked = await run(limit, { ip: "1.1.1.1" });
+    expect(blocked.status).toBe(429);
+    expect(blocked.body).toMatchObject({ code: "RATE_LIMITED", message: "Slow down", limit: 2 });
+    expect(Number(blocked.headers["Retry-After"])).toBeGreaterThan(0);
+  });
+
+  it("counts each key separately", async () => {
+    await run(limit, { ip: "1.1.1.1" });
+    await run(limit, { ip: "1.1.1.1" });
+
+    expect((await run(limit, { ip: "2.2.2.2" })).passed).toBe(true);
+  });
+
+  it("is turned off by a max of 0 in the environment", async () => {
+    process.env.RATE_LIMIT_TEST_MAX = "0";
+
+    for (let i = 0; i < 5; i++) {
+      expect((await run(limit, { ip: "1.1.1.1" })).passed).toBe(true);
+    }
+  });
+
+  it("fails open when the store is down", async () => {
+    setRateLimitStore({ increment: () => Promise.reject(new Error("store down")) });
+
+    expect((await run(limit, { ip: "1.1.1.1" })).passed).toBe(true);
+  });
+});
+
+describe("loginRateLimit", () => {
+  it("limits guesses at one account from rotating IPs", async () => {
+    for (let i = 0; i < 10; i++) {
+      expect((await run(loginRateLimit, login(`10.0.0.${i}`, "sam@example.com"))).passed).toBe(
+        true
+      );
+    }
+
+    // Same account, differently written, from a fresh IP
+    const blocked = await run(loginRateLimit, login("10.0.1.1", "  Sam@Example.com "));
+    expect(blocked.status).toBe(429);
+  });
+
+  it("limits one IP trying many accounts", async () => {
+    for (let i = 0; i < 10; i++) {
+      await run(loginRateLimit, login("10.0.0.1", `user${i}@example.com`));
+    }
+
+    expect((await run(loginRateLimit, login("10.0.0.1", "new@example.com"))).status).toBe(429);
+  });
+});
+
+describe("messageRateLimit", () => {
+  it("limits each user", async () => {
+    for (let i = 0; i < 20; i++) {
+      await run(messageRateLimit, message(`10.0.0.${i}`, "user-1"));
+    }
+
+    expect((await run(messageRateLimit, message("10.0.1.1", "user-1"))).status).toBe(429);
+    expect((await run(messageRateLimit, message("10.0.1.1", "user-2"))).passed).toBe(true);
+  });
+
+  it("limits one IP rotating accounts", async () => {
+    for (let i = 0; i < 60; i++) {
+      expect((await run(messageRateLimit, message("10.0.0.1", `user-${i}`))).passed).toBe(true);
+    }
+
+    expect((await run(messageRateLimit, message("10.0.0.1", "user-new"))).status).toBe(429);
+  });
+});
+
+describe("chatTokenQuota", () => {
+  const quotaStatus = getTokenQuotaStatus as jest.MockedFunction<typeof getTokenQuotaStatus>;
+  const resetAt = new Date("2026-03-02T00:00:00Z");
+  const user = { user: { _id: "user-1" } as any };
+
+  it("lets users under the quota through", async () => {
+    quotaStatus.mockResolvedValue({ limit: 1000, used: 999, remaining: 1, resetAt });
+
+    expect((await run(chatTokenQuota, user)).passed).toBe(true);
+  });
+
+  it("refuses replies once the quota is used up", async () => {
+    quotaStatus.mockResolvedValue({ limit: 1000, used: 1000, remaining: 0, resetAt });
+
+    const blocked = await run(chatTokenQuota, user);
+    expect(blocked.status).toBe(429);
+    expect(blocked.body).toMatchObject({ code: "TOKEN_QUOTA_EXCEEDED", limit: 1000, used: 1000 });
+  });
+
+  it("ignores usage when the quota is off", async () => {
+    quotaStatus.mockResolvedValue({ limit: 0, used: 5000, remaining: null, resetAt });
+
+    expect((await run(chatTokenQuota, user)).passed).toBe(true);
+  });
+
+  it("fails open when usage can't be read", async () => {
+    quotaStatus.mockRejectedValue(new Error("db down"));
+
+    expect((await run(chatTokenQuota, user)).passed).toBe(true);
+  });
+});
@@ -37,3 +37,10 @@ export const auth = async (req: Request, res: Response, next: NextFunction) => {
   }
 };
 
+// Must run after auth
+export const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
+  if (req.user?.role !== "admin") {
+    return res.status(403).json({ message: "Admin access required" });
+  }
+  next();
+};
@@ -0,0 +1,133 @@
+import { Request, Response, NextFunction } from "express";
+import { getRateLimitStore } from "../services/rateLimit";
+import { readNumberEnv } from "../utils/env";
+import { logger } from "../utils/logger";
+
+export interface RateLimitOptions {
+  // Names the store keys and the RATE_LIMIT_<NAME>_MAX / _WINDOW_MS overrides
+  name: string;
+  max: number;
+  windowMs: number;
+  // Who a request counts against
+  key: (req: Request) => string;
+  message: string;
+}
+
+export const clientIp = (req: Request) =>
+  req.ip || req.socket.remoteAddress || "unknown";
+
+// The authenticated user, or the IP for anonymous requests
+const userOrIp = (req: Request) =>
+  req.user?._id ? `user:${req.user._id}` : `ip:${clientIp(req)}`;
+
+/**
+ * Sends a 429 with Retry-After and the JSON body every limit uses:
+ * { message, code, retryAfter (seconds), ...details }
+ */
+export const sendTooManyRequests = (
+  res: Response,
+  code: string,
+  message: string,
+  resetAt: Date,
+  details: Record<string, unknown> = {}
+) => {
+  const retryAfter = Math.max(1, Math.ceil((resetAt.getTime() - Date.now()) / 1000));
+  res.set("Retry-After", String(retryAfter));
+  return res.status(429).json({ message, code, retryAfter, ...details });
+};
+
+/**
+ * Fixed-window rate limit. Limits are read from the environment on each
+ * request (a max of 0 turns the limit off), and the store fails open so
+ * an outage never locks users out.
+ */
+export const rateLimit = (options: RateLimitOptions) => {
+  const envPrefix = `RATE_LIMIT_${options.name.toUpperCase()}`;
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const max = readNumberEnv(`${envPrefix}_MAX`, options.max);
+    const windowMs = readNumberEnv(`${envPrefix}_WINDOW_MS`, options.windowMs);
+    if (max <= 0 || windowMs <= 0) return next();
+
+    let hit;
+    try {
+      hit = await getRateLimitStore().increment(
+        `${options.name}:${options.key(req)}`,
+        windowMs
+      );
+    } catch (error) {
+      logger.error(`Rate limit store failed for "${options.name}":`, error);
+      return next();
+    }
+
+    res.set("RateLimit-Limit", String(max));
+    res.set("RateLimit-Remaining", String(Math.max(0, max - hit.count)));
+    res.set(
+      "RateLimit-Reset",
+      String(Math.max(0, Math.ceil((hit.resetAt.getTime() - Date.now()) / 1000)))
+    );
+
+    if (hit.count > max) {
+      logger.warn(`Rate limit "${options.name}" exceeded by ${options.key(req)}`);
+      return sendTooManyRequests(res, "RATE_LIMITED", options.message, hit.resetAt, {
+        limit: max,
+      });
+    }
+    next();
+  };
+};
+
+// The account a login is for; requests without an email count against the IP
+const loginEmailOrIp = (req: Request) => {
+  const email = req.body?.email;
+  return typeof email === "string" && email.trim()
+    ? `email:${email.trim().toLowerCase()}`
+    : `ip:${clientIp(req)}`;
+};
+
+// Brute-force protection for the password check, per IP and per account so
+// rotating IPs doesn't buy more guesses at one password
+export const loginRateLimit = [
+  rateLimit({
+    name: "login",
+    max: 10,
+    windowMs: 15 * 60 * 1000,
+    key: (req) => `ip:${clientIp(req)}`,
+    message: "Too many login attempts. Please try again later.",
+  }),
+  rateLimit({
+    name: "login_account",
+    max: 10,
+    windowMs: 15 * 60 * 1000,
+    key: loginEmailOrIp,
+    message: "Too many login attempts for this account. Please try again later.",
+  }),
+];
+
+export const registerRateLimit = rateLimit({
+  name: "register",
+  max: 5,
+  windowMs: 60 * 60 * 1000,
+  key: (req) => `ip:${clientIp(req)}`,
+  message: "Too many accounts created from this network. Please try again later.",
+});
+
+// Every route that asks the model for a chat reply; must run after auth.
+// Counted per user and per IP, so one network can't rotate accounts.
+export const messageRateLimit = [
+  rateLimit({
+    name: "messages",
+    max: 20,
+    windowMs: 60 * 1000,
+    key: userOrIp,
+    message: "You're sending messages too quickly. Please slow down a little.",
+  }),
+  rateLimit({
+    name: "messages_ip",
+    // Room for a few people sharing a network
+    max: 60,
+    windowMs: 60 * 1000,
+    key: (req) => `ip:${clientIp(req)}`,
+    message: "Too many messages from this network. Please slow down a little.",
+  }),
+];
@@ -0,0 +1,33 @@
+import { Request, Response, NextFunction } from "express";
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from "../utils/dateRange";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // IANA zone that day/week/month boundaries are computed in
+      timeZone?: string;
+    }
+  }
+}
+
+export const TIME_ZONE_HEADER = "X-Timezone";
+
+/**
+ * Picks the zone for this request: the X-Timezone header or ?timezone=,
+ * then the user's saved timezone, then UTC. Must run after auth.
+ */
+export const resolveTimeZone = (req: Request, res: Response, next: NextFunction) => {
+  const requested = req.header(TIME_ZONE_HEADER) ?? req.query.timezone;
+
+  if (requested !== undefined) {
+    if (!isValidTimeZone(requested)) {
+      return res.status(400).json({
+        message: "timezone must be an IANA time zone such as Europe/London",
+      });
+    }
+    req.timeZone = requested;
+  } else {
+    req.timeZone = req.user?.timezone || DEFAULT_TIME_ZONE;
+  }
+  next();
+};
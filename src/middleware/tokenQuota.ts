@@ -0,0 +1,36 @@
+import { Request, Response, NextFunction } from "express";
+import { getTokenQuotaStatus } from "../services/tokenQuota";
+import { sendTooManyRequests } from "./rateLimit";
+import { logger } from "../utils/logger";
+
+/**
+ * Refuses chat replies once the user has used up today's token quota.
+ * Must run after auth. Fails open if usage can't be read.
+ */
+export const chatTokenQuota = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  if (!req.user?._id) return next();
+
+  let quota;
+  try {
+    quota = await getTokenQuotaStatus(req.user._id);
+  } catch (error) {
+    logger.error("Error checking token quota:", error);
+    return next();
+  }
+
+  if (quota.limit > 0 && quota.used >= quota.limit) {
+    logger.warn(`Daily token quota reached by user ${req.user._id}`);
+    return sendTooManyRequests(
+      res,
+      "TOKEN_QUOTA_EXCEEDED",
+      "You've reached today's chat limit. It resets at midnight UTC.",
+      quota.resetAt,
+      { limit: quota.limit, used: quota.used, resetAt: quota.resetAt }
+    );
+  }
+  next();
+};
@@ -1,12 +1,32 @@
 import mongoose, { Document, Schema } from "mongoose";
+import {
+  ActivityDifficulty,
+  ActivityStatus,
+  ActivityType,
+  ACTIVITY_DIFFICULTIES,
+  ACTIVITY_STATUSES,
+  ACTIVITY_TYPES,
+} from "../types/activity";
 
 export interface IActivity extends Document {
   userId: mongoose.Types.ObjectId;
-  type: string;
+  type: ActivityType;
   name: string;
   description?: string;
+  // Minutes
   duration?: number;
+  difficulty?: ActivityDifficulty;
+  // How it went, in the user's words
+  feedback?: string;
+  // Mood (0-100) just before and after, to see what helps
+  moodBefore?: number;
+  moodAfter?: number;
+  status: ActivityStatus;
+  // Catalog guide the activity was done from, if any
+  guideId?: mongoose.Types.ObjectId;
   timestamp: Date;
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 const activitySchema = new Schema<IActivity>(
@@ -20,14 +40,7 @@ const activitySchema = new Schema<IActivity>(
     type: {
       type: String,
       required: true,
-      enum: [
-        "meditation",
-        "exercise",
-        "walking",
-        "reading",
-        "journaling",
-        "therapy",
-      ],
+      enum: ACTIVITY_TYPES,
     },
     name: {
       type: String,
@@ -40,6 +53,34 @@ const activitySchema = new Schema<IActivity>(
       type: Number,
       min: 0,
     },
+    difficulty: {
+      type: String,
+      enum: ACTIVITY_DIFFICULTIES,
+    },
+    feedback: {
+      type: String,
+      trim: true,
+    },
+    moodBefore: {
+      type: Number,
+      min: 0,
+      max: 100,
+    },
+    moodAfter: {
+      type: Number,
+      min: 0,
+      max: 100,
+    },
+    // Activities logged before statuses existed were all completed
+    status: {
+      type: String,
+      enum: ACTIVITY_STATUSES,
+      default: "completed",
+    },
+    guideId: {
+      type: Schema.Types.ObjectId,
+      ref: "ActivityGuide",
+    },
     timestamp: {
       type: Date,
       default: Date.now,
@@ -0,0 +1,51 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { GuideDefinition, GuideStep } from "../types/guide";
+import { ACTIVITY_DIFFICULTIES, ACTIVITY_TYPES } from "../types/activity";
+import { MOOD_EMOTIONS } from "../types/mood";
+
+export interface IActivityGuide extends Document, GuideDefinition {
+  // Hidden from the catalog, e.g. retired content
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const guideStepSchema = new Schema<GuideStep>(
+  {
+    title: { type: String, required: true },
+    instruction: { type: String, required: true },
+    durationSeconds: { type: Number, required: true, min: 0 },
+  },
+  { _id: false }
+);
+
+const activityGuideSchema = new Schema<IActivityGuide>(
+  {
+    slug: { type: String, required: true, unique: true },
+    title: { type: String, required: true },
+    summary: { type: String, required: true },
+    activityType: { type: String, required: true, enum: ACTIVITY_TYPES },
+    difficulty: { type: String, required: true, enum: ACTIVITY_DIFFICULTIES },
+    tags: { type: [String], default: [] },
+    targetEmotions: {
+      type: [{ type: String, enum: MOOD_EMOTIONS }],
+      default: [],
+    },
+    steps: {
+      type: [guideStepSchema],
+      validate: {
+        validator: (steps: GuideStep[]) => steps.length > 0,
+        message: "A guide needs at least one step",
+      },
+    },
+    active: { type: Boolean, default: true },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export const ActivityGuide = mongoose.model<IActivityGuide>(
+  "ActivityGuide",
+  activityGuideSchema
+);
@@ -0,0 +1,62 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { AssessmentSeverity, AssessmentType } from "../types/assessment";
+import { CrisisTier } from "../types/crisis";
+
+export interface IAssessmentResult extends Document {
+  userId: mongoose.Types.ObjectId;
+  type: AssessmentType;
+  // One value per question, in question order
+  answers: number[];
+  score: number;
+  maxScore: number;
+  severity: AssessmentSeverity;
+  // Set when a safety item (e.g. PHQ-9 item 9) was endorsed
+  safety?: {
+    tier: CrisisTier;
+    crisisEventId?: mongoose.Types.ObjectId;
+  };
+  completedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const assessmentResultSchema = new Schema<IAssessmentResult>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    type: { type: String, required: true, enum: ["phq9", "gad7"] },
+    answers: { type: [Number], required: true },
+    score: { type: Number, required: true, min: 0 },
+    maxScore: { type: Number, required: true },
+    severity: {
+      type: String,
+      required: true,
+      enum: ["minimal", "mild", "moderate", "moderately_severe", "severe"],
+    },
+    safety: {
+      type: new Schema(
+        {
+          tier: { type: String, required: true },
+          crisisEventId: { type: Schema.Types.ObjectId, ref: "CrisisEvent" },
+        },
+        { _id: false }
+      ),
+      required: false,
+    },
+    completedAt: { type: Date, required: true, default: Date.now },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+assessmentResultSchema.index({ userId: 1, completedAt: -1, _id: -1 });
+assessmentResultSchema.index({ userId: 1, type: 1, completedAt: -1, _id: -1 });
+
+export const AssessmentResult = mongoose.model<IAssessmentResult>(
+  "AssessmentResult",
+  assessmentResultSchema
+);
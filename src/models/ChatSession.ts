@@ -1,16 +1,71 @@
 import { Document, Schema, model, Types } from "mongoose";
+import { MessageAnalysis } from "../types/inngest";
+import { CrisisTier } from "../types/crisis";
+import { PersonaId } from "../types/persona";
+import { LanguageCode } from "../types/language";
+import { ActiveExercise, ExerciseSnapshot } from "../types/exercise";
+import { AssessmentType } from "../types/assessment";
+import { PromptRef } from "../types/prompt";
+import { listPersonas, DEFAULT_PERSONA_ID } from "../services/personas";
+import { listLanguages } from "../services/i18n";
+
+// Which provider, model and persona wrote an assistant reply
+export interface GeneratedBy {
+  provider: string;
+  model: string;
+  persona?: PersonaId;
+}
+
+export interface MessageEdit {
+  content: string;
+  editedAt: Date;
+}
+
+export interface MessageRating {
+  value: "up" | "down";
+  reason?: string;
+  ratedAt: Date;
+}
+
+// An earlier reply that was replaced by "regenerate"
+export interface MessageVariant {
+  content: string;
+  timestamp: Date;
+  generatedBy?: GeneratedBy;
+  prompt?: PromptRef;
+  rating?: MessageRating;
+}
 
 export interface IChatMessage {
+  _id?: Types.ObjectId;
   role: "user" | "assistant";
   content: string;
   timestamp: Date;
   metadata?: {
-    analysis?: any;
+    analysis?: MessageAnalysis;
     currentGoal?: string | null;
     progress?: {
       emotionalState?: string;
       riskLevel?: number;
     };
+    crisis?: {
+      tier: CrisisTier;
+      score: number;
+    };
+    // Assistant messages: which provider/model/persona wrote the reply
+    generatedBy?: GeneratedBy;
+    // Assistant messages: system prompt version (and experiment arm) used
+    prompt?: PromptRef;
+    variants?: MessageVariant[];
+    rating?: MessageRating;
+    // User messages: earlier versions before an edit
+    edits?: MessageEdit[];
+    // Assistant messages: placeholder saved because the model was unreachable
+    unavailable?: boolean;
+    // User messages: language the message was detected as
+    language?: LanguageCode;
+    // User messages: the guided exercise as it was when the message arrived
+    exercise?: ExerciseSnapshot;
   };
 }
 
@@ -18,9 +73,30 @@ export interface IChatSession extends Document {
   _id: Types.ObjectId;
   sessionId: string;
   userId: Types.ObjectId;
+  title?: string;
+  titleSource?: "user" | "generated";
+  // Persona/modality Leo uses in this session
+  persona: PersonaId;
+  // Language of the latest turn; Leo keeps using it for short messages
+  language?: LanguageCode;
   startTime: Date;
-  status: "active" | "completed" | "archived";
+  lastActivityAt: Date;
+  // "closing" means Leo has asked whether the user is done
+  status: "active" | "closing" | "completed" | "archived";
+  // Status to go back to when the session is unarchived
+  statusBeforeArchive?: "active" | "closing" | "completed";
   messages: IChatMessage[];
+  // Guided exercise in progress; user messages answer its current step
+  activeExercise?: ActiveExercise;
+  // Questionnaire Leo has offered in this session; offered once at most
+  suggestedAssessment?: AssessmentType;
+  // Rolling summary of the messages that no longer fit in the prompt
+  summary?: {
+    content: string;
+    // How many messages, from the start, the summary covers
+    coveredMessageCount: number;
+    updatedAt: Date;
+  };
   // Internal flag to track empty sessions
   isEmptySession?: boolean;
 }
@@ -41,30 +117,94 @@ const chatMessageSchema = new Schema<IChatMessage>({
       emotionalState: String,
       riskLevel: Number,
     },
+    crisis: {
+      tier: String,
+      score: Number,
+    },
+    generatedBy: {
+      provider: String,
+      model: String,
+      persona: String,
+    },
+    prompt: {
+      name: String,
+      version: Number,
+      experiment: String,
+      variant: String,
+    },
+    variants: [Schema.Types.Mixed],
+    rating: {
+      value: { type: String, enum: ["up", "down"] },
+      reason: String,
+      ratedAt: Date,
+    },
+    edits: [
+      {
+        _id: false,
+        content: String,
+        editedAt: Date,
+      },
+    ],
+    unavailable: Boolean,
+    language: String,
+    exercise: {
+      before: Schema.Types.Mixed,
+      recordId: String,
+    },
   },
 });
 
 const chatSessionSchema = new Schema<IChatSession>({
   sessionId: { type: String, required: true, unique: true },
   userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  title: { type: String, trim: true, maxlength: 120 },
+  titleSource: { type: String, enum: ["user", "generated"] },
+  persona: {
+    type: String,
+    enum: listPersonas().map((persona) => persona.id),
+    default: DEFAULT_PERSONA_ID,
+  },
+  language: {
+    type: String,
+    enum: listLanguages().map((language) => language.code),
+  },
   startTime: { 
     type: Date, 
     required: true,
     default: Date.now 
   },
+  lastActivityAt: {
+    type: Date,
+    default: Date.now
+  },
   status: {
     type: String,
     required: true,
-    enum: ["active", "completed", "archived"],
+    enum: ["active", "closing", "completed", "archived"],
     default: "active"
   },
+  statusBeforeArchive: {
+    type: String,
+    enum: ["active", "closing", "completed"]
+  },
   messages: [chatMessageSchema],
+  activeExercise: Schema.Types.Mixed,
+  suggestedAssessment: { type: String, enum: ["phq9", "gad7"] },
+  summary: {
+    content: String,
+    coveredMessageCount: { type: Number, default: 0 },
+    updatedAt: Date,
+  },
   isEmptySession: {
     type: Boolean,
     default: false
   }
 });
 
+// Session lists are filtered by status and sorted by activity
+chatSessionSchema.index({ userId: 1, lastActivityAt: -1, _id: -1 });
+chatSessionSchema.index({ userId: 1, startTime: -1, _id: -1 });
+
 // ============== SMART VALIDATION ==============
 chatSessionSchema.pre("save", function(next) {
   const session = this;
@@ -0,0 +1,86 @@
+import mongoose, { Document, Schema } from "mongoose";
+import {
+  CrisisTier,
+  CrisisTrigger,
+  CRISIS_TIERS,
+} from "../types/crisis";
+
+export interface ICrisisEvent extends Document {
+  userId: mongoose.Types.ObjectId;
+  // Where the signal came from: "chat" or "assessment"
+  source: string;
+  sessionId?: string;
+  messageId?: mongoose.Types.ObjectId;
+  // The questionnaire result, for source "assessment"
+  assessmentResultId?: mongoose.Types.ObjectId;
+  tier: CrisisTier;
+  score: number;
+  triggers: CrisisTrigger[];
+  // Config in effect when the event was classified, for the audit trail
+  thresholds: Record<string, number>;
+  escalated: boolean;
+  // What the user was shown: the fixed crisis response or Leo's reply
+  responseType: "crisis_response" | "assistant_reply";
+  locale?: string;
+  status: "open" | "acknowledged" | "resolved";
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const crisisTriggerSchema = new Schema<CrisisTrigger>(
+  {
+    source: {
+      type: String,
+      required: true,
+      enum: ["lexicon", "analysis", "assessment"],
+    },
+    ruleId: { type: String, required: true },
+    category: String,
+    matched: String,
+    score: { type: Number, required: true },
+    negated: Boolean,
+  },
+  { _id: false }
+);
+
+const crisisEventSchema = new Schema<ICrisisEvent>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    source: { type: String, required: true, default: "chat" },
+    sessionId: { type: String },
+    messageId: { type: Schema.Types.ObjectId },
+    assessmentResultId: { type: Schema.Types.ObjectId, ref: "AssessmentResult" },
+    tier: { type: String, required: true, enum: CRISIS_TIERS },
+    score: { type: Number, required: true, min: 0, max: 100 },
+    triggers: [crisisTriggerSchema],
+    thresholds: { type: Schema.Types.Mixed },
+    escalated: { type: Boolean, required: true, default: false },
+    responseType: {
+      type: String,
+      required: true,
+      enum: ["crisis_response", "assistant_reply"],
+    },
+    locale: { type: String },
+    status: {
+      type: String,
+      required: true,
+      enum: ["open", "acknowledged", "resolved"],
+      default: "open",
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+crisisEventSchema.index({ userId: 1, createdAt: -1 });
+crisisEventSchema.index({ escalated: 1, status: 1, createdAt: -1 });
+
+export const CrisisEvent = mongoose.model<ICrisisEvent>(
+  "CrisisEvent",
+  crisisEventSchema
+);
@@ -0,0 +1,30 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// LLM tokens spent on one user in one UTC day, across every feature
+export interface IDailyTokenUsage extends Document {
+  userId: mongoose.Types.ObjectId;
+  // UTC date, YYYY-MM-DD
+  day: string;
+  tokens: number;
+  // LLM calls made
+  requests: number;
+}
+
+const dailyTokenUsageSchema = new Schema<IDailyTokenUsage>(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    day: { type: String, required: true },
+    tokens: { type: Number, required: true, default: 0 },
+    requests: { type: Number, required: true, default: 0 },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+dailyTokenUsageSchema.index({ userId: 1, day: 1 }, { unique: true });
+
+export const DailyTokenUsage = mongoose.model<IDailyTokenUsage>(
+  "DailyTokenUsage",
+  dailyTokenUsageSchema
+);
@@ -0,0 +1,48 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { ExerciseAnswer, ExerciseType } from "../types/exercise";
+
+export interface IExerciseRecord extends Document {
+  userId: mongoose.Types.ObjectId;
+  sessionId: string;
+  type: ExerciseType;
+  // Answers by step key
+  responses: Record<string, ExerciseAnswer>;
+  // Intensity (0-100) at the start and at the end
+  ratingBefore?: number;
+  ratingAfter?: number;
+  startedAt: Date;
+  completedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const exerciseRecordSchema = new Schema<IExerciseRecord>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    sessionId: { type: String, required: true },
+    type: {
+      type: String,
+      required: true,
+      enum: ["thought_record", "behavioural_activation", "grounding_54321"],
+    },
+    responses: { type: Schema.Types.Mixed, required: true, default: {} },
+    ratingBefore: { type: Number, min: 0, max: 100 },
+    ratingAfter: { type: Number, min: 0, max: 100 },
+    startedAt: { type: Date, required: true },
+    completedAt: { type: Date, required: true, default: Date.now },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+exerciseRecordSchema.index({ userId: 1, completedAt: -1, _id: -1 });
+
+export const ExerciseRecord = mongoose.model<IExerciseRecord>(
+  "ExerciseRecord",
+  exerciseRecordSchema
+);
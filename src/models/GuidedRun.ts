@@ -0,0 +1,58 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { GuidedRunStatus } from "../types/guide";
+
+export interface IGuidedRun extends Document {
+  userId: mongoose.Types.ObjectId;
+  guideId: mongoose.Types.ObjectId;
+  // Copied from the guide so history reads without a lookup
+  slug: string;
+  title: string;
+  totalSteps: number;
+  // Index of the step the user is on; equals totalSteps once all are done
+  currentStep: number;
+  // Indexes of the steps the user has finished
+  completedSteps: number[];
+  status: GuidedRunStatus;
+  moodBefore?: number;
+  moodAfter?: number;
+  startedAt: Date;
+  completedAt?: Date;
+  // The Activity logged when the run was completed
+  activityId?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const guidedRunSchema = new Schema<IGuidedRun>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    guideId: { type: Schema.Types.ObjectId, ref: "ActivityGuide", required: true },
+    slug: { type: String, required: true },
+    title: { type: String, required: true },
+    totalSteps: { type: Number, required: true, min: 1 },
+    currentStep: { type: Number, required: true, default: 0, min: 0 },
+    completedSteps: { type: [Number], default: [] },
+    status: {
+      type: String,
+      required: true,
+      enum: ["in_progress", "completed"],
+      default: "in_progress",
+    },
+    moodBefore: { type: Number, min: 0, max: 100 },
+    moodAfter: { type: Number, min: 0, max: 100 },
+    startedAt: { type: Date, required: true, default: Date.now },
+    completedAt: { type: Date },
+    activityId: { type: Schema.Types.ObjectId, ref: "Activity" },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+guidedRunSchema.index({ userId: 1, startedAt: -1, _id: -1 });
+
+export const GuidedRun = mongoose.model<IGuidedRun>("GuidedRun", guidedRunSchema);
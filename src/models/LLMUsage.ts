@@ -0,0 +1,41 @@
+import mongoose, { Schema } from "mongoose";
+import { LLMFeature, LLMProviderName } from "../llm/types";
+
+// Tokens used by one successful LLM call. Not a Document subtype because
+// Document already has a `model` member.
+export interface ILLMUsage {
+  provider: LLMProviderName;
+  model: string;
+  feature: LLMFeature;
+  userId?: mongoose.Types.ObjectId;
+  sessionId?: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // The provider didn't report usage; counts are estimated from the text
+  estimated: boolean;
+  createdAt: Date;
+}
+
+const llmUsageSchema = new Schema<ILLMUsage>(
+  {
+    provider: { type: String, required: true },
+    model: { type: String, required: true },
+    feature: { type: String, required: true },
+    userId: { type: Schema.Types.ObjectId, ref: "User" },
+    sessionId: { type: String },
+    promptTokens: { type: Number, required: true },
+    completionTokens: { type: Number, required: true },
+    totalTokens: { type: Number, required: true },
+    estimated: { type: Boolean, required: true, default: false },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+llmUsageSchema.index({ createdAt: -1 });
+llmUsageSchema.index({ userId: 1, createdAt: -1 });
+llmUsageSchema.index({ sessionId: 1 });
+
+export const LLMUsage = mongoose.model<ILLMUsage>("LLMUsage", llmUsageSchema);
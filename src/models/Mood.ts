@@ -1,9 +1,20 @@
 import mongoose, { Schema, Document } from "mongoose";
+import { MoodEmotion, MOOD_EMOTIONS } from "../types/mood";
 
 export interface IMood extends Document {
   userId: mongoose.Types.ObjectId;
   score: number;
   note?: string;
+  emotions: MoodEmotion[];
+  // Sub-scores on the same 0-100 scale as score
+  energy?: number;
+  anxiety?: number;
+  // Sleep the night before
+  sleepHours?: number;
+  sleepQuality?: number;
+  // Free-form, lowercased tags such as "work" or "family"
+  triggers: string[];
+  activities: mongoose.Types.ObjectId[];
   timestamp: Date;
   createdAt: Date;
   updatedAt: Date;
@@ -26,6 +37,39 @@ const moodSchema = new Schema<IMood>(
       type: String,
       trim: true,
     },
+    emotions: {
+      type: [{ type: String, enum: MOOD_EMOTIONS }],
+      default: [],
+    },
+    energy: {
+      type: Number,
+      min: 0,
+      max: 100,
+    },
+    anxiety: {
+      type: Number,
+      min: 0,
+      max: 100,
+    },
+    sleepHours: {
+      type: Number,
+      min: 0,
+      max: 24,
+    },
+    // 1 (very poor) to 5 (very good)
+    sleepQuality: {
+      type: Number,
+      min: 1,
+      max: 5,
+    },
+    triggers: {
+      type: [{ type: String, trim: true, lowercase: true }],
+      default: [],
+    },
+    activities: {
+      type: [{ type: Schema.Types.ObjectId, ref: "Activity" }],
+      default: [],
+    },
     timestamp: {
       type: Date,
       default: Date.now,
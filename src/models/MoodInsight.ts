@@ -0,0 +1,94 @@
+import mongoose, { Document, Schema } from "mongoose";
+import {
+  MoodFollowUpReason,
+  MoodTrendDirection,
+  MoodVolatilityLevel,
+} from "../types/mood";
+
+export interface IMoodInsight extends Document {
+  userId: mongoose.Types.ObjectId;
+  // The entry whose save triggered the analysis
+  moodId?: mongoose.Types.ObjectId;
+  from: Date;
+  to: Date;
+  // Zone the days were counted in
+  timeZone: string;
+  entries: number;
+  days: number;
+  average: number | null;
+  latestScore: number | null;
+  trend: {
+    direction: MoodTrendDirection;
+    slopePerWeek: number | null;
+  };
+  // Mean absolute change between consecutive days with entries
+  volatility: {
+    value: number | null;
+    level: MoodVolatilityLevel | null;
+  };
+  sustainedLow: {
+    detected: boolean;
+    // Consecutive days (most recent first) with a daily average below threshold
+    days: number;
+    threshold: number;
+  };
+  // Set when this analysis raised a follow-up event
+  followUp?: {
+    reason: MoodFollowUpReason;
+    raisedAt: Date;
+  };
+  createdAt: Date;
+}
+
+const moodInsightSchema = new Schema<IMoodInsight>(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    moodId: { type: Schema.Types.ObjectId, ref: "Mood" },
+    from: { type: Date, required: true },
+    to: { type: Date, required: true },
+    timeZone: { type: String, default: "UTC" },
+    entries: { type: Number, required: true },
+    days: { type: Number, required: true },
+    average: { type: Number, default: null },
+    latestScore: { type: Number, default: null },
+    trend: {
+      direction: {
+        type: String,
+        required: true,
+        enum: ["improving", "declining", "stable", "insufficient_data"],
+      },
+      slopePerWeek: { type: Number, default: null },
+    },
+    volatility: {
+      value: { type: Number, default: null },
+      level: { type: String, enum: ["low", "moderate", "high", null], default: null },
+    },
+    sustainedLow: {
+      detected: { type: Boolean, required: true },
+      days: { type: Number, required: true },
+      threshold: { type: Number, required: true },
+    },
+    followUp: {
+      type: new Schema(
+        {
+          reason: {
+            type: String,
+            required: true,
+            enum: ["declining_trend", "sustained_low"],
+          },
+          raisedAt: { type: Date, required: true },
+        },
+        { _id: false }
+      ),
+      required: false,
+    },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+moodInsightSchema.index({ userId: 1, createdAt: -1 });
+
+export const MoodInsight = mongoose.model<IMoodInsight>(
+  "MoodInsight",
+  moodInsightSchema
+);
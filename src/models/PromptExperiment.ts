@@ -0,0 +1,55 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { PromptName } from "../types/prompt";
+
+export interface PromptVariant {
+  name: string;
+  // Template version this arm serves (0 = built-in default)
+  version: number;
+  // Relative share of users
+  weight: number;
+}
+
+export interface IPromptExperiment extends Document {
+  // Stable id; also stamped on messages
+  key: string;
+  promptName: PromptName;
+  status: "running" | "stopped";
+  variants: PromptVariant[];
+  startedAt: Date;
+  stoppedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const promptExperimentSchema = new Schema<IPromptExperiment>(
+  {
+    key: { type: String, required: true, unique: true, trim: true },
+    promptName: { type: String, required: true },
+    status: {
+      type: String,
+      required: true,
+      enum: ["running", "stopped"],
+      default: "running",
+    },
+    variants: [
+      {
+        _id: false,
+        name: { type: String, required: true },
+        version: { type: Number, required: true, min: 0 },
+        weight: { type: Number, required: true, min: 0, default: 1 },
+      },
+    ],
+    startedAt: { type: Date, required: true, default: Date.now },
+    stoppedAt: { type: Date },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+promptExperimentSchema.index({ promptName: 1, status: 1 });
+
+export const PromptExperiment = mongoose.model<IPromptExperiment>(
+  "PromptExperiment",
+  promptExperimentSchema
+);
@@ -0,0 +1,38 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { PromptName } from "../types/prompt";
+
+export interface IPromptTemplate extends Document {
+  name: PromptName;
+  // Starts at 1; version 0 is the built-in default
+  version: number;
+  // Text with {{variable}} placeholders
+  template: string;
+  description?: string;
+  // The version served when no experiment is running
+  active: boolean;
+  createdBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const promptTemplateSchema = new Schema<IPromptTemplate>(
+  {
+    name: { type: String, required: true },
+    version: { type: Number, required: true, min: 1 },
+    template: { type: String, required: true },
+    description: { type: String },
+    active: { type: Boolean, required: true, default: false },
+    createdBy: { type: Schema.Types.ObjectId, ref: "User" },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+promptTemplateSchema.index({ name: 1, version: 1 }, { unique: true });
+promptTemplateSchema.index({ name: 1, active: 1 });
+
+export const PromptTemplate = mongoose.model<IPromptTemplate>(
+  "PromptTemplate",
+  promptTemplateSchema
+);
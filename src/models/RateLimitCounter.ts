@@ -0,0 +1,23 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// Hits for one rate limit key in one fixed window
+export interface IRateLimitCounter extends Document {
+  // Limiter name, subject and window start, e.g. "login:ip:1.2.3.4:28512340"
+  key: string;
+  count: number;
+  // End of the window; MongoDB drops the counter after it
+  expiresAt: Date;
+}
+
+const rateLimitCounterSchema = new Schema<IRateLimitCounter>({
+  key: { type: String, required: true, unique: true },
+  count: { type: Number, required: true, default: 0 },
+  expiresAt: { type: Date, required: true },
+});
+
+rateLimitCounterSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RateLimitCounter = mongoose.model<IRateLimitCounter>(
+  "RateLimitCounter",
+  rateLimitCounterSchema
+);
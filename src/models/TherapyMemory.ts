@@ -0,0 +1,99 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface IEmotionalStateEntry {
+  state: string;
+  riskLevel: number;
+  sessionId?: string;
+  recordedAt: Date;
+}
+
+export interface IRecurringStressor {
+  theme: string;
+  // Number of sessions the theme came up in
+  count: number;
+  lastSeen: Date;
+}
+
+export interface IHelpfulStrategy {
+  strategy: string;
+  note?: string;
+  lastUsed: Date;
+}
+
+export interface ITherapyMemory extends Document {
+  userId: mongoose.Types.ObjectId;
+  // Users can switch memory off; nothing is updated or injected then
+  enabled: boolean;
+  emotionalStateHistory: IEmotionalStateEntry[];
+  riskLevel: number;
+  preferences: {
+    tone?: string;
+    style?: string;
+    // Set once the user corrects their preferences; stops inference overwriting them
+    lockedByUser: boolean;
+  };
+  recurringStressors: IRecurringStressor[];
+  helpfulStrategies: IHelpfulStrategy[];
+  currentTechnique: string | null;
+  lastSessionSummary?: string;
+  // Free-form things the user wants Leo to know
+  notes: string[];
+  processedSessionIds: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const therapyMemorySchema = new Schema<ITherapyMemory>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      unique: true,
+    },
+    enabled: { type: Boolean, default: true },
+    emotionalStateHistory: [
+      {
+        _id: false,
+        state: { type: String, required: true },
+        riskLevel: { type: Number, default: 0 },
+        sessionId: String,
+        recordedAt: { type: Date, default: Date.now },
+      },
+    ],
+    riskLevel: { type: Number, default: 0, min: 0, max: 5 },
+    preferences: {
+      tone: String,
+      style: String,
+      lockedByUser: { type: Boolean, default: false },
+    },
+    recurringStressors: [
+      {
+        _id: false,
+        theme: { type: String, required: true },
+        count: { type: Number, default: 1 },
+        lastSeen: { type: Date, default: Date.now },
+      },
+    ],
+    helpfulStrategies: [
+      {
+        _id: false,
+        strategy: { type: String, required: true },
+        note: String,
+        lastUsed: { type: Date, default: Date.now },
+      },
+    ],
+    currentTechnique: { type: String, default: null },
+    lastSessionSummary: { type: String },
+    notes: [{ type: String, trim: true }],
+    processedSessionIds: [{ type: String }],
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export const TherapyMemory = mongoose.model<ITherapyMemory>(
+  "TherapyMemory",
+  therapyMemorySchema
+);
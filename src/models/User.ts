@@ -1,9 +1,21 @@
 import mongoose, { Document, Schema } from "mongoose";
+import { PersonaId } from "../types/persona";
+import { LanguageCode } from "../types/language";
+import { listPersonas } from "../services/personas";
+import { listLanguages } from "../services/i18n";
+import { isValidTimeZone } from "../utils/dateRange";
 
 export interface IUser extends Document {
   name: string;
   email: string;
   password: string;
+  role: "user" | "admin";
+  // Persona new chat sessions start with
+  defaultPersona?: PersonaId;
+  // Language Leo always replies in; unset means follow the user's messages
+  preferredLanguage?: LanguageCode;
+  // IANA zone for "today", streaks and reports; unset means UTC
+  timezone?: string;
 }
 
 const UserSchema = new Schema<IUser>(
@@ -11,6 +23,22 @@ const UserSchema = new Schema<IUser>(
     name: { type: String, required: true },
     email: { type: String, required: true, unique: true },
     password: { type: String, required: true },
+    role: { type: String, enum: ["user", "admin"], default: "user" },
+    defaultPersona: {
+      type: String,
+      enum: listPersonas().map((persona) => persona.id),
+    },
+    preferredLanguage: {
+      type: String,
+      enum: listLanguages().map((language) => language.code),
+    },
+    timezone: {
+      type: String,
+      validate: {
+        validator: isValidTimeZone,
+        message: "timezone must be an IANA time zone",
+      },
+    },
   },
   { timestamps: true }
 );
@@ -1,16 +1,37 @@
 import express from "express";
 import { auth } from "../middleware/auth";
-import { logActivity, getTodayActivities } from "../controllers/activityController";
+import { resolveTimeZone } from "../middleware/timezone";
+import {
+  logActivity,
+  getTodayActivities,
+  getActivities,
+  getActivityStats,
+  updateActivity,
+  deleteActivity,
+} from "../controllers/activityController";
 
 const router = express.Router();
 
 // All routes are protected with authentication
 router.use(auth);
 
+// Days, weeks and months follow the user's (or the request's) timezone
+router.use(resolveTimeZone);
+
 // Log a new activity
 router.post("/", logActivity);
 
 router.get("/today", getTodayActivities);
 
+// Activity history (?from, ?to, ?type, ?status, ?order, ?limit, ?cursor)
+router.get("/", getActivities);
+
+// Totals and minutes per type and week, and streaks (?from, ?to)
+router.get("/stats", getActivityStats);
+
+// Correct, complete or remove one of the user's activities
+router.patch("/:id", updateActivity);
+router.delete("/:id", deleteActivity);
+
 
 export default router;
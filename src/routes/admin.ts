@@ -0,0 +1,45 @@
+import express from "express";
+import { auth, requireAdmin } from "../middleware/auth";
+import { resolveTimeZone } from "../middleware/timezone";
+import {
+  getRatingsReport,
+  getPromptExperimentReport,
+  getUsageReport,
+} from "../controllers/adminController";
+import {
+  listPrompts,
+  getPromptVersions,
+  createPromptVersion,
+  activatePromptVersion,
+  listExperiments,
+  createExperiment,
+  stopExperiment,
+} from "../controllers/promptController";
+
+const router = express.Router();
+
+// Admin only
+router.use(auth, requireAdmin);
+
+// Reply ratings aggregated by model, provider or persona (?groupBy=&from=&to=)
+router.get("/reports/ratings", getRatingsReport);
+
+// Ratings and session completion per arm of a prompt experiment
+router.get("/reports/prompt-experiments/:key", getPromptExperimentReport);
+
+// LLM token usage and estimated cost
+// (?groupBy=day,provider,model,feature&from=&to=&userId=&sessionId=&timezone=)
+router.get("/reports/usage", resolveTimeZone, getUsageReport);
+
+// Prompt registry
+router.get("/prompts", listPrompts);
+router.get("/prompts/:name", getPromptVersions);
+router.post("/prompts/:name/versions", createPromptVersion);
+router.post("/prompts/:name/versions/:version/activate", activatePromptVersion);
+
+// Prompt A/B experiments
+router.get("/experiments", listExperiments);
+router.post("/experiments", createExperiment);
+router.post("/experiments/:key/stop", stopExperiment);
+
+export default router;
@@ -0,0 +1,27 @@
+import express from "express";
+import { auth } from "../middleware/auth";
+import {
+  getAssessmentTypes,
+  getAssessmentDefinition,
+  submitAssessment,
+  getAssessmentResults,
+} from "../controllers/assessmentController";
+
+const router = express.Router();
+
+// All routes are protected with authentication
+router.use(auth);
+
+// Standardized questionnaires (PHQ-9, GAD-7)
+router.get("/", getAssessmentTypes);
+
+// Your score history (?type=&limit=&cursor=)
+router.get("/results", getAssessmentResults);
+
+// Questions, answer scale and severity bands
+router.get("/:type", getAssessmentDefinition);
+
+// Submit answers; the result is scored and stored
+router.post("/:type", submitAssessment);
+
+export default router;
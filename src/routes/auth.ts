@@ -1,14 +1,15 @@
 import { Router } from "express";
 import { register, login, logout, verifyToken } from "../controllers/authController";
 import { auth } from "../middleware/auth";
+import { loginRateLimit, registerRateLimit } from "../middleware/rateLimit";
 
 const router = Router();
 
 // POST /auth/register
-router.post("/register", register);
+router.post("/register", registerRateLimit, register);
 
 // POST /auth/login
-router.post("/login", login);
+router.post("/login", loginRateLimit, login);
 
 // POST /auth/logout
 router.post("/logout", auth, logout);
@@ -4,28 +4,118 @@ import {
   getChatSession,
   sendMessage,
   getChatHistory,
-  getAllChatSessions
+  getAllChatSessions,
+  getSessionAnalysis,
+  endChatSession,
+  renameChatSession,
+  generateChatSessionTitle,
+  archiveChatSession,
+  unarchiveChatSession,
+  reopenChatSession,
+  deleteChatSession,
+  regenerateReply,
+  editMessage,
+  rateMessage,
+  searchMessages,
+  exportChatSession,
+  exportChatSessions,
+  getPersonas,
+  getLanguages,
+  startChatExercise,
+  cancelChatExercise
 } from "../controllers/chat";
 import { auth } from "../middleware/auth";
+import { messageRateLimit } from "../middleware/rateLimit";
+import { chatTokenQuota } from "../middleware/tokenQuota";
 
 const router = express.Router();
 
 // Apply auth middleware to all routes
 router.use(auth);
 
-// Create a new chat session
+// List the available personas / therapeutic modalities
+router.get("/personas", getPersonas);
+
+// List the languages Leo can reply in
+router.get("/languages", getLanguages);
+
+// Create a new chat session (optionally { persona }; defaults to the user's)
 router.post("/sessions", createChatSession);
 
 // Get a specific chat session
 router.get("/sessions/:sessionId", getChatSession);
 
+// Rename a session
+router.patch("/sessions/:sessionId", renameChatSession);
+
+// Permanently delete a session
+router.delete("/sessions/:sessionId", deleteChatSession);
+
+// Generate a short title from the first exchange
+router.post("/sessions/:sessionId/title", generateChatSessionTitle);
+
+// Archive / unarchive a session
+router.post("/sessions/:sessionId/archive", archiveChatSession);
+router.post("/sessions/:sessionId/unarchive", unarchiveChatSession);
+
+// Reopen a completed session
+router.post("/sessions/:sessionId/reopen", reopenChatSession);
+
 // Send a message in a chat session
-router.post("/sessions/:sessionId/messages", sendMessage);
+// (streams the reply as SSE when sent with "Accept: text/event-stream")
+router.post(
+  "/sessions/:sessionId/messages",
+  messageRateLimit,
+  chatTokenQuota,
+  sendMessage
+);
+
+// Edit your latest message and re-run the turn
+router.patch(
+  "/sessions/:sessionId/messages/:messageId",
+  messageRateLimit,
+  chatTokenQuota,
+  editMessage
+);
+
+// Regenerate the latest assistant reply (previous versions are kept)
+router.post(
+  "/sessions/:sessionId/messages/:messageId/regenerate",
+  messageRateLimit,
+  chatTokenQuota,
+  regenerateReply
+);
+
+// Rate an assistant reply
+router.post("/sessions/:sessionId/messages/:messageId/rating", rateMessage);
+
+// Start a guided exercise ({ type }); following messages answer its steps
+router.post("/sessions/:sessionId/exercises", startChatExercise);
+
+// Stop the exercise in progress
+router.delete("/sessions/:sessionId/exercises/active", cancelChatExercise);
 
 // Get chat history for a session
 router.get("/sessions/:sessionId/history", getChatHistory);
 
+// End a session once the user confirms they are done
+router.post("/sessions/:sessionId/end", endChatSession);
+
+// Get the emotional state / risk timeline for a session
+router.get("/sessions/:sessionId/analysis", getSessionAnalysis);
+
+// Download a transcript (?format=md|json|pdf&includeMetadata=true)
+router.get("/sessions/:sessionId/export", exportChatSession);
+
+// Download every session started in a date range
+// (?from=&to=&format=md|json|pdf&includeMetadata=true)
+router.get("/export", exportChatSessions);
+
+// Search your messages across sessions (?q=&role=&from=&to=&limit=&offset=)
+router.get("/search", searchMessages);
+
 // Get all chat sessions for user
+// (?status=active,completed&sort=lastActivity|startTime&order=asc|desc&limit=&cursor=)
 router.get("/sessions", getAllChatSessions);
 
 export default router;
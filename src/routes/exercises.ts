@@ -0,0 +1,23 @@
+import express from "express";
+import { auth } from "../middleware/auth";
+import {
+  getExerciseTypes,
+  getExerciseRecords,
+  getExerciseRecord,
+} from "../controllers/exerciseController";
+
+const router = express.Router();
+
+// All routes are protected with authentication
+router.use(auth);
+
+// Guided exercises available in chat
+router.get("/types", getExerciseTypes);
+
+// Your completed exercises (?type=&limit=&cursor=)
+router.get("/", getExerciseRecords);
+
+// Revisit one completed exercise
+router.get("/:id", getExerciseRecord);
+
+export default router;
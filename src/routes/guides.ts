@@ -0,0 +1,33 @@
+import express from "express";
+import { auth } from "../middleware/auth";
+import {
+  getGuides,
+  getGuide,
+  startGuidedRun,
+  getGuidedRuns,
+  getGuidedRun,
+  recordGuidedRunProgress,
+  completeGuidedRun,
+} from "../controllers/guideController";
+
+const router = express.Router();
+
+// All routes are protected with authentication
+router.use(auth);
+
+// Guided activity catalog (?type, ?difficulty, ?tag, ?emotion, ?maxMinutes)
+router.get("/", getGuides);
+
+// Your guided runs (?status, ?limit, ?cursor)
+router.get("/runs", getGuidedRuns);
+
+// Follow a run step by step, then complete it to log the activity
+router.get("/runs/:runId", getGuidedRun);
+router.post("/runs/:runId/progress", recordGuidedRunProgress);
+router.post("/runs/:runId/complete", completeGuidedRun);
+
+// One guide with its steps, and starting a run of it
+router.get("/:slug", getGuide);
+router.post("/:slug/runs", startGuidedRun);
+
+export default router;
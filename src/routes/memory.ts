@@ -0,0 +1,23 @@
+import express from "express";
+import { auth } from "../middleware/auth";
+import {
+  getMemory,
+  updateMemory,
+  deleteMemory,
+} from "../controllers/memoryController";
+
+const router = express.Router();
+
+// All routes are protected with authentication
+router.use(auth);
+
+// View what Leo remembers
+router.get("/", getMemory);
+
+// Correct preferences, stressors, strategies or notes
+router.patch("/", updateMemory);
+
+// Wipe the memory
+router.delete("/", deleteMemory);
+
+export default router;
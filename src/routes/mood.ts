@@ -1,17 +1,42 @@
 import express from "express";
 import { auth } from "../middleware/auth";
-import { createMood, getTodayMoods } from "../controllers/moodController";
+import { resolveTimeZone } from "../middleware/timezone";
+import {
+  createMood,
+  getTodayMoods,
+  getMoods,
+  getMoodStats,
+  updateMood,
+  deleteMood,
+  getMoodInsights,
+} from "../controllers/moodController";
 
 const router = express.Router();
 
 // All routes are protected with authentication
 router.use(auth);
 
+// Days, weeks and months follow the user's (or the request's) timezone
+router.use(resolveTimeZone);
+
+// Mood history (?from, ?to, ?sort, ?order, ?limit, ?cursor)
+router.get("/", getMoods);
+
+// Averages, variance, moving average and trend (?from, ?to, ?window)
+router.get("/stats", getMoodStats);
+
+// Trend, volatility and low-mood analyses stored after each entry
+router.get("/insights", getMoodInsights);
+
 // Track a new mood entry
 router.post("/", createMood);
 
 // ✅ Get today's mood entries
 router.get("/today", getTodayMoods);
 
+// Correct or remove one of the user's entries
+router.patch("/:id", updateMood);
+router.delete("/:id", deleteMood);
+
 
 export default router;
@@ -0,0 +1,23 @@
+import express from "express";
+import { auth } from "../middleware/auth";
+import {
+  getPreferences,
+  updatePreferences,
+  getUsage,
+} from "../controllers/userController";
+
+const router = express.Router();
+
+// All routes are protected with authentication
+router.use(auth);
+
+// Get your preferences (default persona, ...)
+router.get("/me/preferences", getPreferences);
+
+// Update your preferences
+router.patch("/me/preferences", updatePreferences);
+
+// Today's LLM token usage and quota
+router.get("/me/usage", getUsage);
+
+export default router;
@@ -0,0 +1,37 @@
+import { streakOf } from "../activityStats";
+
+describe("streakOf", () => {
+  it("is empty without any active days", () => {
+    expect(streakOf([], "2026-03-10")).toEqual({ current: 0, longest: 0, lastDay: null });
+  });
+
+  it("counts a run that reaches today", () => {
+    expect(streakOf(["2026-03-08", "2026-03-09", "2026-03-10"], "2026-03-10")).toEqual({
+      current: 3,
+      longest: 3,
+      lastDay: "2026-03-10",
+    });
+  });
+
+  it("keeps the current streak alive until today has passed", () => {
+    expect(streakOf(["2026-03-08", "2026-03-09"], "2026-03-10").current).toBe(2);
+  });
+
+  it("breaks the current streak after a missed day", () => {
+    expect(streakOf(["2026-03-07", "2026-03-08"], "2026-03-10")).toMatchObject({
+      current: 0,
+      longest: 2,
+    });
+  });
+
+  it("tracks the longest run separately from the current one", () => {
+    const days = ["2026-02-01", "2026-02-02", "2026-02-03", "2026-02-04", "2026-03-09", "2026-03-10"];
+
+    expect(streakOf(days, "2026-03-10")).toMatchObject({ current: 2, longest: 4 });
+  });
+
+  it("counts consecutive days across month and year ends", () => {
+    expect(streakOf(["2025-12-31", "2026-01-01"], "2026-01-01").current).toBe(2);
+    expect(streakOf(["2024-02-28", "2024-02-29", "2024-03-01"], "2024-03-01").current).toBe(3);
+  });
+});
@@ -0,0 +1,92 @@
+import {
+  getAssessment,
+  isAssessmentType,
+  scoreAssessment,
+  screenAnswers,
+  validateAnswers,
+} from "../assessments";
+
+describe("isAssessmentType", () => {
+  it("accepts the defined questionnaires", () => {
+    expect(isAssessmentType("phq9")).toBe(true);
+    expect(isAssessmentType("gad7")).toBe(true);
+  });
+
+  it("rejects unknown names, including inherited object keys", () => {
+    for (const value of ["phq2", "toString", "constructor", "__proto__", "hasOwnProperty", 9]) {
+      expect(isAssessmentType(value)).toBe(false);
+    }
+  });
+});
+
+describe("scoreAssessment", () => {
+  const phq9 = getAssessment("phq9");
+  const gad7 = getAssessment("gad7");
+
+  it("sums the answers into a severity band", () => {
+    expect(scoreAssessment(phq9, [1, 1, 1, 1, 1, 1, 1, 1, 0])).toEqual({
+      score: 8,
+      maxScore: 27,
+      severity: "mild",
+      label: "Mild depression",
+    });
+  });
+
+  it("uses the band edges inclusively", () => {
+    expect(scoreAssessment(gad7, [2, 2, 2, 2, 2, 0, 0]).severity).toBe("moderate");
+    expect(scoreAssessment(gad7, [3, 3, 3, 3, 3, 0, 0]).severity).toBe("severe");
+    expect(scoreAssessment(phq9, [0, 0, 0, 0, 0, 0, 0, 0, 0]).severity).toBe("minimal");
+    expect(scoreAssessment(phq9, [3, 3, 3, 3, 3, 3, 3, 3, 3])).toMatchObject({
+      score: 27,
+      severity: "severe",
+    });
+  });
+});
+
+describe("validateAnswers", () => {
+  const gad7 = getAssessment("gad7");
+
+  it("accepts one scale value per question", () => {
+    expect(validateAnswers(gad7, [0, 1, 2, 3, 0, 1, 2])).toBeNull();
+  });
+
+  it("rejects the wrong count, out-of-scale values and non-lists", () => {
+    expect(validateAnswers(gad7, [0, 1, 2])).toMatch(/7 values/);
+    expect(validateAnswers(gad7, [0, 1, 2, 3, 0, 1, 4])).not.toBeNull();
+    expect(validateAnswers(gad7, [0, 1, 2, 3, 0, 1, "2"])).not.toBeNull();
+    expect(validateAnswers(gad7, "0123012")).not.toBeNull();
+  });
+});
+
+describe("screenAnswers", () => {
+  const phq9 = getAssessment("phq9");
+  const withItem9 = (value: number) => [0, 0, 0, 0, 0, 0, 0, 0, value];
+
+  it("returns null when item 9 is not endorsed", () => {
+    expect(screenAnswers(phq9, withItem9(0))).toBeNull();
+  });
+
+  it("flags any endorsement of item 9 at high tier or above", () => {
+    expect(screenAnswers(phq9, withItem9(1))).toMatchObject({ tier: "high", score: 75 });
+    expect(screenAnswers(phq9, withItem9(2))).toMatchObject({ tier: "high", score: 85 });
+    expect(screenAnswers(phq9, withItem9(3))).toMatchObject({ tier: "imminent", score: 95 });
+  });
+
+  it("records which item triggered and the answer given", () => {
+    const assessment = screenAnswers(phq9, withItem9(1));
+
+    expect(assessment?.triggers).toEqual([
+      {
+        source: "assessment",
+        ruleId: "phq9_9",
+        category: "suicidal_ideation",
+        matched: "Several days",
+        score: 75,
+      },
+    ]);
+  });
+
+  it("never flags the GAD-7, which has no safety items", () => {
+    expect(screenAnswers(getAssessment("gad7"), [3, 3, 3, 3, 3, 3, 3])).toBeNull();
+  });
+});
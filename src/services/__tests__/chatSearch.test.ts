@@ -0,0 +1,70 @@
+import { buildSnippet, parseSearchTerms } from "../chatSearch";
+
+const highlighted = (content: string, terms: string[]) => {
+  const { snippet, highlights } = buildSnippet(content, terms);
+  return highlights.map(([start, end]) => snippet.slice(start, end));
+};
+
+describe("parseSearchTerms", () => {
+  it("splits on whitespace and lowercases", () => {
+    expect(parseSearchTerms("Exam  STRESS")).toEqual(["exam", "stress"]);
+  });
+
+  it("keeps quoted phrases together", () => {
+    expect(parseSearchTerms('"panic attack" sleep')).toEqual(["panic attack", "sleep"]);
+  });
+
+  it("drops one-letter terms and duplicates", () => {
+    expect(parseSearchTerms("a sleep I Sleep")).toEqual(["sleep"]);
+  });
+
+  it("keeps at most eight terms", () => {
+    expect(parseSearchTerms("one two three four five six seven eight nine ten")).toHaveLength(8);
+  });
+
+  it("returns nothing for an empty query", () => {
+    expect(parseSearchTerms("   ")).toEqual([]);
+  });
+});
+
+describe("buildSnippet", () => {
+  it("matches terms at the start of words", () => {
+    expect(highlighted("My exams start next week", ["exam"])).toEqual(["exam"]);
+    expect(highlighted("I passed the reexam", ["exam"])).toEqual([]);
+  });
+
+  it("matches any of the terms, and phrases as a whole", () => {
+    expect(
+      highlighted("Sleep was bad after the panic attack, not the panic itself", [
+        "panic attack",
+        "sleep",
+      ])
+    ).toEqual(["Sleep", "panic attack"]);
+  });
+
+  it("finds words that start with an accented letter", () => {
+    expect(highlighted("Hablé con mi équipe hoy", ["équipe"])).toEqual(["équipe"]);
+    expect(highlighted("Me siento ñoño", ["ñoño"])).toEqual(["ñoño"]);
+    expect(highlighted("Él dijo que sí", ["él"])).toEqual(["Él"]);
+  });
+
+  it("does not match inside a word after an accented letter", () => {
+    expect(highlighted("Ça va, ça passe", ["va"])).toEqual(["va"]);
+    expect(highlighted("Mañana", ["ana"])).toEqual([]);
+  });
+
+  it("treats regex characters in terms literally", () => {
+    expect(highlighted("Is (this) normal?", ["(this)"])).toEqual(["(this)"]);
+  });
+
+  it("cuts a window around the first match without splitting words", () => {
+    const content = `${"before ".repeat(30)}target${" after".repeat(30)}`;
+    const { snippet, highlights } = buildSnippet(content, ["target"]);
+
+    expect(snippet.startsWith("…")).toBe(true);
+    expect(snippet.endsWith("…")).toBe(true);
+    expect(snippet.slice(1).split(" ")[0]).toBe("before");
+    expect(snippet.slice(0, -1).split(" ").pop()).toBe("after");
+    expect(snippet.slice(highlights[0][0], highlights[0][1])).toBe("target");
+  });
+});
@@ -0,0 +1,54 @@
+jest.mock("../../utils/logger", () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+// The backfill runs once per process, so each test loads a fresh copy
+const loadBackfill = () => {
+  let ensure!: typeof import("../chatSessions").ensureLastActivityBackfilled;
+  let updateMany!: jest.SpyInstance;
+  jest.isolateModules(() => {
+    const { ChatSession } = require("../../models/ChatSession");
+    updateMany = jest.spyOn(ChatSession, "updateMany").mockResolvedValue({ modifiedCount: 3 });
+    ensure = require("../chatSessions").ensureLastActivityBackfilled;
+  });
+  return { ensure, updateMany };
+};
+
+describe("ensureLastActivityBackfilled", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("fills in the last message time, else the start time, on sessions without one", async () => {
+    const { ensure, updateMany } = loadBackfill();
+    await ensure();
+
+    const [filter, pipeline] = updateMany.mock.calls[0];
+    expect(filter).toEqual({ lastActivityAt: { $exists: false } });
+    expect(pipeline).toEqual([
+      {
+        $set: {
+          lastActivityAt: { $ifNull: [{ $max: "$messages.timestamp" }, "$startTime"] },
+        },
+      },
+    ]);
+  });
+
+  it("runs once per process", async () => {
+    const { ensure, updateMany } = loadBackfill();
+    await ensure();
+    await ensure();
+
+    expect(updateMany).toHaveBeenCalledTimes(1);
+  });
+
+  it("tries again after a failure", async () => {
+    const { ensure, updateMany } = loadBackfill();
+    updateMany.mockRejectedValueOnce(new Error("db down"));
+
+    await expect(ensure()).resolves.toBeUndefined();
+    await ensure();
+
+    expect(updateMany).toHaveBeenCalledTimes(2);
+  });
+});
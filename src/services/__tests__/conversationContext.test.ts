@@ -0,0 +1,100 @@
+import { Types } from "mongoose";
+import { IChatMessage, IChatSession } from "../../models/ChatSession";
+import { ensureSessionSummary, invalidateSummaryFrom } from "../conversationContext";
+import { FakeLLMProvider } from "../../llm/providers/fake";
+import { setLLMProvider } from "../../llm";
+
+jest.mock("../../utils/logger", () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+jest.mock("../prompts", () => ({
+  renderPrompt: jest.fn(async (_name: string, values: Record<string, unknown>) => ({
+    content: `${values.previousSummary}\n${values.transcript}`,
+    ref: { name: "session.summary", version: 0 },
+  })),
+}));
+
+// Messages of about 100 tokens each, numbered so transcripts are easy to check
+const messages = (count: number): IChatMessage[] =>
+  Array.from({ length: count }, (_, i) => ({
+    role: i % 2 === 0 ? "user" : "assistant",
+    content: `message ${i} ${"word ".repeat(80)}`,
+    timestamp: new Date(Date.UTC(2026, 2, 1, 12, i)),
+  }));
+
+const newSession = (count: number, summary?: IChatSession["summary"]) =>
+  ({
+    userId: new Types.ObjectId(),
+    sessionId: "session-1",
+    messages: messages(count),
+    summary,
+  }) as unknown as IChatSession;
+
+const summary = (coveredMessageCount: number) => ({
+  content: "Old summary",
+  coveredMessageCount,
+  updatedAt: new Date(),
+});
+
+describe("invalidateSummaryFrom", () => {
+  it("drops a summary that covers the messages being changed", () => {
+    const session = newSession(20, summary(10));
+    invalidateSummaryFrom(session, 9);
+
+    expect(session.summary).toBeUndefined();
+  });
+
+  it("keeps a summary that ends before them", () => {
+    const session = newSession(20, summary(10));
+    invalidateSummaryFrom(session, 10);
+
+    expect(session.summary).toMatchObject({ coveredMessageCount: 10 });
+  });
+});
+
+describe("ensureSessionSummary", () => {
+  let provider: FakeLLMProvider;
+
+  beforeEach(() => {
+    process.env.CHAT_HISTORY_TOKEN_BUDGET = "500";
+    provider = new FakeLLMProvider({ entries: [], defaultResponse: "New summary" });
+    setLLMProvider(provider);
+  });
+
+  afterEach(() => {
+    delete process.env.CHAT_HISTORY_TOKEN_BUDGET;
+    setLLMProvider(null);
+  });
+
+  it("rebuilds a dropped summary from the first message", async () => {
+    const session = newSession(30, summary(20));
+    invalidateSummaryFrom(session, 12);
+
+    await ensureSessionSummary(session, "next message");
+
+    const prompt = provider.calls[0].messages[1].content;
+    expect(prompt).toContain("(none yet)");
+    expect(prompt).toContain("message 0 ");
+    expect(session.summary).toMatchObject({ content: "New summary" });
+  });
+
+  it("only summarizes the history it is given", async () => {
+    const session = newSession(30);
+    const history = session.messages.slice(0, 20);
+
+    await ensureSessionSummary(session, "next message", history);
+
+    expect(provider.calls[0].messages[1].content).not.toContain("message 20 ");
+    expect(session.summary!.coveredMessageCount).toBeLessThanOrEqual(20);
+  });
+
+  it("leaves a summary alone while it covers everything outside the window", async () => {
+    const session = newSession(30, summary(28));
+
+    await ensureSessionSummary(session, "next message");
+
+    expect(provider.calls).toHaveLength(0);
+    expect(session.summary).toMatchObject({ content: "Old summary" });
+  });
+});
@@ -0,0 +1,60 @@
+import { IChatSession } from "../../models/ChatSession";
+import {
+  advanceExercise,
+  isExerciseType,
+  rewindExercise,
+  startExercise,
+} from "../exercises";
+
+// Only the fields the exercise helpers touch
+const newSession = () => ({ userId: "user-1", sessionId: "session-1" }) as unknown as IChatSession;
+
+describe("isExerciseType", () => {
+  it("accepts only the defined exercises", () => {
+    expect(isExerciseType("thought_record")).toBe(true);
+    expect(isExerciseType("toString")).toBe(false);
+    expect(isExerciseType("constructor")).toBe(false);
+  });
+});
+
+describe("rewindExercise", () => {
+  it("lets an edited answer replace the original one for the same step", async () => {
+    const session = newSession();
+    startExercise(session, "thought_record");
+    await advanceExercise(session, "A meeting at work");
+
+    const before = session.activeExercise!;
+    await advanceExercise(session, "I'm going to get fired");
+    expect(session.activeExercise?.stepIndex).toBe(2);
+
+    rewindExercise(session, { before });
+    const { progress } = await advanceExercise(session, "Everyone thinks I'm useless");
+
+    expect(progress.stepKey).toBe("emotion");
+    expect(session.activeExercise?.responses).toEqual({
+      situation: "A meeting at work",
+      automaticThought: "Everyone thinks I'm useless",
+    });
+  });
+
+  it("drops an exercise that started after the message", () => {
+    const session = newSession();
+    startExercise(session, "grounding_54321");
+
+    rewindExercise(session, undefined);
+
+    expect(session.activeExercise).toBeUndefined();
+  });
+
+  it("does not share state with the snapshot", async () => {
+    const session = newSession();
+    startExercise(session, "grounding_54321");
+    const before = session.activeExercise!;
+
+    rewindExercise(session, { before });
+    await advanceExercise(session, "40");
+
+    expect(before.stepIndex).toBe(0);
+    expect(before.responses).toEqual({});
+  });
+});
@@ -0,0 +1,88 @@
+import { analyzeMoodEntries, followUpReason, LOW_MOOD_THRESHOLD } from "../moodAnalysis";
+
+const FROM = new Date("2026-03-01T00:00:00Z");
+const TO = new Date("2026-03-31T00:00:00Z");
+
+// One entry at noon UTC per score, on consecutive days from March 1st
+const dailyEntries = (scores: number[], firstDay = 1) =>
+  scores.map((score, index) => ({
+    score,
+    timestamp: new Date(Date.UTC(2026, 2, firstDay + index, 12)),
+  }));
+
+describe("analyzeMoodEntries", () => {
+  it("averages per day and overall", () => {
+    const moods = [
+      ...dailyEntries([60, 80]),
+      { score: 40, timestamp: new Date("2026-03-01T18:00:00Z") },
+    ];
+    const analysis = analyzeMoodEntries(moods, FROM, TO);
+
+    expect(analysis.entries).toBe(3);
+    expect(analysis.days).toBe(2);
+    expect(analysis.average).toBe(60);
+    expect(analysis.latestScore).toBe(80);
+  });
+
+  it("measures volatility as the mean day-to-day change", () => {
+    expect(analyzeMoodEntries(dailyEntries([50, 55, 50, 55]), FROM, TO).volatility).toEqual({
+      value: 5,
+      level: "low",
+    });
+    expect(analyzeMoodEntries(dailyEntries([20, 80, 20, 80]), FROM, TO).volatility).toEqual({
+      value: 60,
+      level: "high",
+    });
+    expect(analyzeMoodEntries(dailyEntries([50]), FROM, TO).volatility).toEqual({
+      value: null,
+      level: null,
+    });
+  });
+
+  it("detects a sustained low from the most recent consecutive low days", () => {
+    const analysis = analyzeMoodEntries(dailyEntries([70, 30, 35, 20]), FROM, TO);
+
+    expect(analysis.sustainedLow).toEqual({
+      detected: true,
+      days: 3,
+      threshold: LOW_MOOD_THRESHOLD,
+    });
+    expect(followUpReason(analysis)).toBe("sustained_low");
+  });
+
+  it("breaks the low run on a missing day or a better day", () => {
+    const withGap = [...dailyEntries([30, 30]), ...dailyEntries([30], 4)];
+    expect(analyzeMoodEntries(withGap, FROM, TO).sustainedLow.days).toBe(1);
+
+    const recovered = dailyEntries([30, 30, 30, 60]);
+    expect(analyzeMoodEntries(recovered, FROM, TO).sustainedLow).toMatchObject({
+      detected: false,
+      days: 0,
+    });
+  });
+
+  it("groups entries by the day in the user's timezone", () => {
+    // 02:00 UTC on the 2nd is still the 1st in New York
+    const moods = [
+      { score: 30, timestamp: new Date("2026-03-01T15:00:00Z") },
+      { score: 50, timestamp: new Date("2026-03-02T02:00:00Z") },
+    ];
+
+    expect(analyzeMoodEntries(moods, FROM, TO, "UTC").days).toBe(2);
+    expect(analyzeMoodEntries(moods, FROM, TO, "America/New_York").days).toBe(1);
+  });
+
+  it("asks for a follow-up on a declining trend", () => {
+    const analysis = analyzeMoodEntries(dailyEntries([90, 80, 70, 60, 50]), FROM, TO);
+
+    expect(analysis.trend.direction).toBe("declining");
+    expect(followUpReason(analysis)).toBe("declining_trend");
+  });
+
+  it("handles no entries at all", () => {
+    const analysis = analyzeMoodEntries([], FROM, TO);
+
+    expect(analysis).toMatchObject({ entries: 0, days: 0, average: null, latestScore: null });
+    expect(followUpReason(analysis)).toBeNull();
+  });
+});
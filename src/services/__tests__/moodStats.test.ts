@@ -0,0 +1,38 @@
+import { moodTrend } from "../moodStats";
+
+describe("moodTrend", () => {
+  const days = (averages: number[]) =>
+    averages.map((average, index) => ({
+      period: `2026-03-${String(index + 1).padStart(2, "0")}`,
+      average,
+    }));
+
+  it("needs at least three days", () => {
+    expect(moodTrend(days([50, 20]))).toEqual({
+      direction: "insufficient_data",
+      slopePerWeek: null,
+    });
+  });
+
+  it("reports the least-squares slope per week", () => {
+    expect(moodTrend(days([40, 50, 60, 70]))).toEqual({
+      direction: "improving",
+      slopePerWeek: 70,
+    });
+    expect(moodTrend(days([70, 60, 50, 40])).direction).toBe("declining");
+  });
+
+  it("treats small changes as stable", () => {
+    expect(moodTrend(days([50, 50.1, 50, 50.2])).direction).toBe("stable");
+  });
+
+  it("uses the real distance between days with gaps", () => {
+    const trend = moodTrend([
+      { period: "2026-03-01", average: 50 },
+      { period: "2026-03-08", average: 60 },
+      { period: "2026-03-15", average: 70 },
+    ]);
+
+    expect(trend.slopePerWeek).toBe(10);
+  });
+});
@@ -0,0 +1,68 @@
+import { Types } from "mongoose";
+import { recordLLMUsage } from "../usageAccounting";
+import { LLMUsage } from "../../models/LLMUsage";
+import { DailyTokenUsage } from "../../models/DailyTokenUsage";
+import { LLMUsageRecord } from "../../llm/metering";
+
+jest.mock("../../utils/logger", () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+const usage = (overrides: Partial<LLMUsageRecord> = {}): LLMUsageRecord => ({
+  feature: "analysis",
+  provider: "fake",
+  model: "fake-analysis",
+  promptTokens: 300,
+  completionTokens: 50,
+  totalTokens: 350,
+  estimated: false,
+  ...overrides,
+});
+
+// Lets the fire-and-forget writes run
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("recordLLMUsage", () => {
+  let create: jest.SpyInstance;
+  let updateOne: jest.SpyInstance;
+
+  beforeEach(() => {
+    create = jest.spyOn(LLMUsage, "create").mockResolvedValue({} as any);
+    updateOne = jest.spyOn(DailyTokenUsage, "updateOne").mockResolvedValue({} as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("counts calls made for a user against their daily quota, whatever the feature", async () => {
+    const userId = new Types.ObjectId().toString();
+
+    recordLLMUsage(usage({ userId, feature: "analysis" }));
+    recordLLMUsage(usage({ userId, feature: "session_summary", totalTokens: 120 }));
+    await settle();
+
+    expect(create).toHaveBeenCalledTimes(2);
+    expect(updateOne).toHaveBeenCalledTimes(2);
+    expect(updateOne.mock.calls.map(([, update]) => update.$inc.tokens)).toEqual([350, 120]);
+    expect(updateOne.mock.calls[0][0]).toMatchObject({ userId });
+  });
+
+  it("records calls without a user but counts them against no quota", async () => {
+    recordLLMUsage(usage());
+    recordLLMUsage(usage({ userId: "not-an-id" }));
+    await settle();
+
+    expect(create).toHaveBeenCalledTimes(2);
+    expect(create.mock.calls[1][0].userId).toBeUndefined();
+    expect(updateOne).not.toHaveBeenCalled();
+  });
+
+  it("never throws when the writes fail", async () => {
+    create.mockRejectedValue(new Error("db down"));
+    updateOne.mockRejectedValue(new Error("db down"));
+
+    expect(() => recordLLMUsage(usage({ userId: new Types.ObjectId().toString() }))).not.toThrow();
+    await settle();
+  });
+});
@@ -0,0 +1,24 @@
+import { IActivity } from "../models/Activity";
+import { sendActivityCompletionEvent } from "../utils/inngestEvents";
+
+/**
+ * Tells Inngest about a finished activity, however it was logged. Never
+ * rejects: the activity is already saved, so a failed send shouldn't fail
+ * the request that saved it.
+ */
+export const notifyActivityCompleted = (activity: IActivity): Promise<void> =>
+  sendActivityCompletionEvent({
+    userId: activity.userId,
+    id: activity._id,
+    type: activity.type,
+    name: activity.name,
+    duration: activity.duration,
+    difficulty: activity.difficulty,
+    feedback: activity.feedback,
+    moodBefore: activity.moodBefore,
+    moodAfter: activity.moodAfter,
+    guideId: activity.guideId,
+    timestamp: activity.timestamp,
+  }).catch(() => {
+    // Already logged by sendActivityCompletionEvent
+  });
@@ -0,0 +1,171 @@
+import { Types } from "mongoose";
+import { Activity } from "../models/Activity";
+import { ActivityType } from "../types/activity";
+import { DAY_MS, DEFAULT_TIME_ZONE, dayKey } from "../utils/dateRange";
+
+export interface ActivityTotals {
+  count: number;
+  // Sum of durations; activities without one count as 0
+  minutes: number;
+}
+
+export interface ActivityStreak {
+  // Consecutive days up to today (or yesterday, if today has none yet)
+  current: number;
+  longest: number;
+  lastDay: string | null;
+}
+
+export interface ActivityStats {
+  range: { from: Date; to: Date };
+  timeZone: string;
+  totals: ActivityTotals;
+  byType: (ActivityTotals & {
+    type: ActivityType;
+    // Average moodAfter - moodBefore, where both were recorded
+    averageMoodChange: number | null;
+  })[];
+  // ISO weeks, e.g. "2026-W42"
+  weekly: (ActivityTotals & { week: string })[];
+  // Over all history, not just the range
+  streaks: {
+    overall: ActivityStreak;
+    byType: (ActivityStreak & { type: ActivityType })[];
+  };
+}
+
+// Activities saved before statuses existed have none and were completed
+export const COMPLETED_FILTER = { status: { $in: ["completed", null] } };
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Day number of a "YYYY-MM-DD" key, for spotting gaps
+const dayNumber = (key: string) => Math.round(Date.parse(`${key}T00:00:00Z`) / DAY_MS);
+
+/**
+ * Current and longest run of consecutive days from a sorted list of days
+ */
+export const streakOf = (days: string[], today: string): ActivityStreak => {
+  if (days.length === 0) return { current: 0, longest: 0, lastDay: null };
+
+  let longest = 1;
+  let run = 1;
+  for (let i = 1; i < days.length; i++) {
+    run = dayNumber(days[i]) - dayNumber(days[i - 1]) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  }
+
+  // The last run only counts as current if it reaches today or yesterday
+  const lastDay = days[days.length - 1];
+  const current = dayNumber(today) - dayNumber(lastDay) <= 1 ? run : 0;
+
+  return { current, longest, lastDay };
+};
+
+/**
+ * Totals, minutes per type and per week for completed activities in
+ * [from, to], plus streaks per type over all history. Days and weeks are
+ * counted in the given timezone.
+ */
+export const getActivityStats = async (
+  userId: Types.ObjectId | string,
+  from: Date,
+  to: Date,
+  timeZone = DEFAULT_TIME_ZONE
+): Promise<ActivityStats> => {
+  const user = new Types.ObjectId(userId.toString());
+  const totalsFields = {
+    count: { $sum: 1 },
+    minutes: { $sum: { $ifNull: ["$duration", 0] } },
+  };
+
+  const [[ranged], days] = await Promise.all([
+    Activity.aggregate([
+      { $match: { userId: user, timestamp: { $gte: from, $lte: to }, ...COMPLETED_FILTER } },
+      {
+        $facet: {
+          totals: [{ $group: { _id: null, ...totalsFields } }],
+          byType: [
+            {
+              $group: {
+                _id: "$type",
+                ...totalsFields,
+                averageMoodChange: {
+                  $avg: {
+                    $cond: [
+                      { $and: [{ $isNumber: "$moodBefore" }, { $isNumber: "$moodAfter" }] },
+                      { $subtract: ["$moodAfter", "$moodBefore"] },
+                      null,
+                    ],
+                  },
+                },
+              },
+            },
+            { $sort: { minutes: -1, count: -1 } },
+          ],
+          weekly: [
+            {
+              $group: {
+                _id: {
+                  $dateToString: { format: "%G-W%V", date: "$timestamp", timezone: timeZone },
+                },
+                ...totalsFields,
+              },
+            },
+            { $sort: { _id: 1 } },
+          ],
+        },
+      },
+    ]),
+    // Distinct active days per type, for streaks
+    Activity.aggregate([
+      { $match: { userId: user, ...COMPLETED_FILTER } },
+      {
+        $group: {
+          _id: {
+            type: "$type",
+            day: {
+              $dateToString: { format: "%Y-%m-%d", date: "$timestamp", timezone: timeZone },
+            },
+          },
+        },
+      },
+      { $sort: { "_id.day": 1 } },
+    ]),
+  ]);
+
+  const today = dayKey(new Date(), timeZone);
+  const daysByType = new Map<ActivityType, string[]>();
+  for (const { _id } of days) {
+    const list = daysByType.get(_id.type) || [];
+    list.push(_id.day);
+    daysByType.set(_id.type, list);
+  }
+  const allDays = [...new Set(days.map((row: any) => row._id.day as string))].sort();
+
+  const totals = ranged.totals[0];
+
+  return {
+    range: { from, to },
+    timeZone,
+    totals: { count: totals?.count || 0, minutes: totals?.minutes || 0 },
+    byType: ranged.byType.map((row: any) => ({
+      type: row._id,
+      count: row.count,
+      minutes: row.minutes,
+      averageMoodChange:
+        row.averageMoodChange === null ? null : round(row.averageMoodChange),
+    })),
+    weekly: ranged.weekly.map((row: any) => ({
+      week: row._id,
+      count: row.count,
+      minutes: row.minutes,
+    })),
+    streaks: {
+      overall: streakOf(allDays, today),
+      byType: [...daysByType.entries()]
+        .map(([type, typeDays]) => ({ type, ...streakOf(typeDays, today) }))
+        .sort((a, b) => b.current - a.current || b.longest - a.longest),
+    },
+  };
+};
@@ -0,0 +1,205 @@
+import { Types } from "mongoose";
+import { AssessmentResult } from "../models/AssessmentResult";
+import { MoodInsight } from "../models/MoodInsight";
+import {
+  AssessmentDefinition,
+  AssessmentScore,
+  AssessmentType,
+} from "../types/assessment";
+import { CrisisAssessment, CrisisTrigger } from "../types/crisis";
+import { tierForScore } from "./crisis";
+import { DAY_MS } from "../utils/dateRange";
+import { isOwnKey } from "../utils/objects";
+
+// Standard 2-week frequency scale used by both the PHQ-9 and the GAD-7
+const FREQUENCY_OPTIONS = [
+  { value: 0, label: "Not at all" },
+  { value: 1, label: "Several days" },
+  { value: 2, label: "More than half the days" },
+  { value: 3, label: "Nearly every day" },
+];
+
+const TWO_WEEK_INSTRUCTIONS =
+  "Over the last 2 weeks, how often have you been bothered by any of the following problems?";
+
+const ASSESSMENTS: Record<AssessmentType, AssessmentDefinition> = {
+  phq9: {
+    type: "phq9",
+    title: "PHQ-9 depression check",
+    description:
+      "Nine questions about low mood and related symptoms over the last two weeks.",
+    instructions: TWO_WEEK_INSTRUCTIONS,
+    questions: [
+      { id: "phq9_1", text: "Little interest or pleasure in doing things" },
+      { id: "phq9_2", text: "Feeling down, depressed, or hopeless" },
+      {
+        id: "phq9_3",
+        text: "Trouble falling or staying asleep, or sleeping too much",
+      },
+      { id: "phq9_4", text: "Feeling tired or having little energy" },
+      { id: "phq9_5", text: "Poor appetite or overeating" },
+      {
+        id: "phq9_6",
+        text: "Feeling bad about yourself, or that you are a failure or have let yourself or your family down",
+      },
+      {
+        id: "phq9_7",
+        text: "Trouble concentrating on things, such as reading the newspaper or watching television",
+      },
+      {
+        id: "phq9_8",
+        text: "Moving or speaking so slowly that other people could have noticed, or the opposite: being so fidgety or restless that you have been moving around a lot more than usual",
+      },
+      {
+        id: "phq9_9",
+        text: "Thoughts that you would be better off dead, or of hurting yourself in some way",
+      },
+    ],
+    options: FREQUENCY_OPTIONS,
+    bands: [
+      { min: 0, max: 4, severity: "minimal", label: "Minimal depression" },
+      { min: 5, max: 9, severity: "mild", label: "Mild depression" },
+      { min: 10, max: 14, severity: "moderate", label: "Moderate depression" },
+      {
+        min: 15,
+        max: 19,
+        severity: "moderately_severe",
+        label: "Moderately severe depression",
+      },
+      { min: 20, max: 27, severity: "severe", label: "Severe depression" },
+    ],
+    // Any thoughts of death or self-harm get the same follow-up as chat
+    safetyItems: [
+      { questionId: "phq9_9", category: "suicidal_ideation", scores: [0, 75, 85, 95] },
+    ],
+    retakeAfterDays: 14,
+  },
+  gad7: {
+    type: "gad7",
+    title: "GAD-7 anxiety check",
+    description: "Seven questions about worry and anxiety over the last two weeks.",
+    instructions: TWO_WEEK_INSTRUCTIONS,
+    questions: [
+      { id: "gad7_1", text: "Feeling nervous, anxious, or on edge" },
+      { id: "gad7_2", text: "Not being able to stop or control worrying" },
+      { id: "gad7_3", text: "Worrying too much about different things" },
+      { id: "gad7_4", text: "Trouble relaxing" },
+      { id: "gad7_5", text: "Being so restless that it is hard to sit still" },
+      { id: "gad7_6", text: "Becoming easily annoyed or irritable" },
+      { id: "gad7_7", text: "Feeling afraid, as if something awful might happen" },
+    ],
+    options: FREQUENCY_OPTIONS,
+    bands: [
+      { min: 0, max: 4, severity: "minimal", label: "Minimal anxiety" },
+      { min: 5, max: 9, severity: "mild", label: "Mild anxiety" },
+      { min: 10, max: 14, severity: "moderate", label: "Moderate anxiety" },
+      { min: 15, max: 21, severity: "severe", label: "Severe anxiety" },
+    ],
+    retakeAfterDays: 14,
+  },
+};
+
+// Mood insights older than this don't prompt a suggestion
+const SUGGESTION_INSIGHT_MAX_AGE_DAYS = 7;
+
+export const listAssessments = (): AssessmentDefinition[] =>
+  Object.values(ASSESSMENTS);
+
+export const isAssessmentType = (value: unknown): value is AssessmentType => isOwnKey(ASSESSMENTS, value);
+
+export const getAssessment = (type: AssessmentType): AssessmentDefinition =>
+  ASSESSMENTS[type];
+
+/**
+ * Checks that there is one answer per question, each a value of the
+ * answer scale. Returns an error message, or null when valid.
+ */
+export const validateAnswers = (
+  definition: AssessmentDefinition,
+  answers: unknown
+): string | null => {
+  const values = definition.options.map((option) => option.value);
+  if (
+    !Array.isArray(answers) ||
+    answers.length !== definition.questions.length ||
+    !answers.every((answer) => values.includes(answer))
+  ) {
+    return `answers must be a list of ${definition.questions.length} values, each one of ${values.join(", ")}`;
+  }
+  return null;
+};
+
+/**
+ * Sums the answers and finds the severity band
+ */
+export const scoreAssessment = (
+  definition: AssessmentDefinition,
+  answers: number[]
+): AssessmentScore => {
+  const score = answers.reduce((sum, answer) => sum + answer, 0);
+  const maxScore =
+    definition.questions.length *
+    Math.max(...definition.options.map((option) => option.value));
+  const band =
+    definition.bands.find((b) => score >= b.min && score <= b.max) ||
+    definition.bands[definition.bands.length - 1];
+
+  return { score, maxScore, severity: band.severity, label: band.label };
+};
+
+/**
+ * Turns answers to safety items into a crisis assessment, so they go
+ * through the same recording and escalation as risky chat messages.
+ * Returns null when no safety item was endorsed.
+ */
+export const screenAnswers = (
+  definition: AssessmentDefinition,
+  answers: number[]
+): CrisisAssessment | null => {
+  const triggers: CrisisTrigger[] = [];
+
+  for (const item of definition.safetyItems || []) {
+    const index = definition.questions.findIndex((q) => q.id === item.questionId);
+    const score = item.scores[answers[index]] || 0;
+    if (score > 0) {
+      triggers.push({
+        source: "assessment",
+        ruleId: item.questionId,
+        category: item.category,
+        matched: definition.options.find((o) => o.value === answers[index])?.label,
+        score,
+      });
+    }
+  }
+
+  if (triggers.length === 0) return null;
+  const score = Math.max(...triggers.map((t) => t.score));
+  return { tier: tierForScore(score), score, triggers };
+};
+
+/**
+ * The assessment Leo may offer: the PHQ-9 when the latest mood insight
+ * shows a sustained low and no PHQ-9 was taken recently. Null otherwise.
+ */
+export const suggestAssessment = async (
+  userId: Types.ObjectId | string
+): Promise<AssessmentDefinition | null> => {
+  const definition = getAssessment("phq9");
+  const now = Date.now();
+
+  const insight = await MoodInsight.findOne({
+    userId,
+    createdAt: { $gte: new Date(now - SUGGESTION_INSIGHT_MAX_AGE_DAYS * DAY_MS) },
+  })
+    .sort({ createdAt: -1 })
+    .select("sustainedLow")
+    .lean();
+  if (!insight?.sustainedLow?.detected) return null;
+
+  const recent = await AssessmentResult.exists({
+    userId,
+    type: definition.type,
+    completedAt: { $gte: new Date(now - definition.retakeAfterDays * DAY_MS) },
+  });
+  return recent ? null : definition;
+};
@@ -0,0 +1,136 @@
+import { Types } from "mongoose";
+import { ChatSession } from "../models/ChatSession";
+
+export interface ChatSearchOptions {
+  userId: Types.ObjectId;
+  query: string;
+  role?: "user" | "assistant";
+  from?: Date;
+  to?: Date;
+  limit: number;
+  offset: number;
+}
+
+export interface ChatSearchHit {
+  sessionId: string;
+  sessionTitle: string | null;
+  messageId: Types.ObjectId;
+  role: "user" | "assistant";
+  timestamp: Date;
+  snippet: string;
+  // [start, end) offsets of the matched terms inside snippet
+  highlights: [number, number][];
+}
+
+const SNIPPET_RADIUS = 80;
+const MAX_TERMS = 8;
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Splits the query into terms; quoted phrases stay together as one term.
+ * A message matches when it contains any of the terms.
+ */
+export const parseSearchTerms = (query: string): string[] => {
+  const terms: string[] = [];
+  const pattern = /"([^"]+)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(query)) && terms.length < MAX_TERMS) {
+    const term = (match[1] || match[2]).trim().toLowerCase();
+    if (term.length >= 2 && !terms.includes(term)) terms.push(term);
+  }
+  return terms;
+};
+
+// Terms match at word starts, so "exam" also finds "exams". `\b` only knows
+// ASCII letters, so the start of a word is "not after a letter or digit",
+// which also works for "équipe" or "ñoño".
+const termsPattern = (terms: string[]) =>
+  `(?<![\\p{L}\\p{N}])(${terms.map(escapeRegex).join("|")})`;
+
+const termsRegex = (terms: string[]) => new RegExp(termsPattern(terms), "giu");
+
+/**
+ * Cuts a window around the first match and records where the terms are
+ */
+export const buildSnippet = (
+  content: string,
+  terms: string[]
+): { snippet: string; highlights: [number, number][] } => {
+  const regex = termsRegex(terms);
+  const first = regex.exec(content);
+  const center = first ? first.index : 0;
+
+  let start = Math.max(0, center - SNIPPET_RADIUS);
+  let end = Math.min(content.length, center + SNIPPET_RADIUS);
+  // Don't cut words in half
+  if (start > 0) start = content.indexOf(" ", start) + 1 || start;
+  if (end < content.length) end = content.lastIndexOf(" ", end) || end;
+
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < content.length ? "…" : "";
+  const snippet = `${prefix}${content.slice(start, end)}${suffix}`;
+
+  const highlights: [number, number][] = [];
+  const inSnippet = termsRegex(terms);
+  let match: RegExpExecArray | null;
+  while ((match = inSnippet.exec(snippet))) {
+    highlights.push([match.index, match.index + match[0].length]);
+  }
+
+  return { snippet, highlights };
+};
+
+/**
+ * Finds the user's messages containing any of the query terms. The same
+ * pattern first narrows the user's sessions (on the userId index), then
+ * picks the matching messages inside them.
+ */
+export const searchChatMessages = async (
+  options: ChatSearchOptions
+): Promise<{ results: ChatSearchHit[]; hasMore: boolean }> => {
+  const terms = parseSearchTerms(options.query);
+  if (terms.length === 0) return { results: [], hasMore: false };
+
+  const contentMatch = { $regex: termsPattern(terms), $options: "i" };
+  const messageMatch: Record<string, any> = { "messages.content": contentMatch };
+  if (options.role) messageMatch["messages.role"] = options.role;
+  if (options.from || options.to) {
+    messageMatch["messages.timestamp"] = {
+      ...(options.from && { $gte: options.from }),
+      ...(options.to && { $lte: options.to }),
+    };
+  }
+
+  const rows = await ChatSession.aggregate([
+    {
+      $match: { userId: options.userId, "messages.content": contentMatch },
+    },
+    { $unwind: "$messages" },
+    { $match: messageMatch },
+    { $sort: { "messages.timestamp": -1, "messages._id": -1 } },
+    { $skip: options.offset },
+    { $limit: options.limit + 1 },
+    {
+      $project: {
+        _id: 0,
+        sessionId: 1,
+        title: 1,
+        message: "$messages",
+      },
+    },
+  ]);
+
+  const hasMore = rows.length > options.limit;
+  const results = rows.slice(0, options.limit).map((row) => ({
+    sessionId: row.sessionId,
+    sessionTitle: row.title || null,
+    messageId: row.message._id,
+    role: row.message.role,
+    timestamp: row.message.timestamp,
+    ...buildSnippet(row.message.content, terms),
+  }));
+
+  return { results, hasMore };
+};
@@ -0,0 +1,32 @@
+import { ChatSession } from "../models/ChatSession";
+import { logger } from "../utils/logger";
+
+let backfilled: Promise<void> | null = null;
+
+/**
+ * Gives sessions created before lastActivityAt existed their last message
+ * time (or start time), once per process. Until then Mongoose fills in
+ * "now" when it loads them, and cursor pages sorted by the field skip them.
+ */
+export const ensureLastActivityBackfilled = (): Promise<void> => {
+  if (!backfilled) {
+    backfilled = ChatSession.updateMany({ lastActivityAt: { $exists: false } }, [
+      {
+        $set: {
+          lastActivityAt: { $ifNull: [{ $max: "$messages.timestamp" }, "$startTime"] },
+        },
+      },
+    ])
+      .then((result) => {
+        if (result.modifiedCount > 0) {
+          logger.info(`Backfilled lastActivityAt on ${result.modifiedCount} chat sessions`);
+        }
+      })
+      .catch((error) => {
+        // Try again on the next request
+        backfilled = null;
+        logger.error("Error backfilling session lastActivityAt:", error);
+      });
+  }
+  return backfilled;
+};
@@ -0,0 +1,159 @@
+import { IChatSession, IChatMessage } from "../models/ChatSession";
+import { getLLMProvider, getModel, LLMMessage, LLMUsageOwner } from "../llm";
+import { estimateTokens, truncateToTokens } from "../utils/tokens";
+import { logger } from "../utils/logger";
+import { readNumberEnv } from "../utils/env";
+import { renderPrompt } from "./prompts";
+
+/**
+ * Token budgets for the conversation part of the prompt.
+ * CHAT_HISTORY_TOKEN_BUDGET covers the verbatim recent turns,
+ * CHAT_MAX_MESSAGE_TOKENS caps any single message.
+ */
+export const getContextBudget = () => ({
+  historyTokens: readNumberEnv("CHAT_HISTORY_TOKEN_BUDGET", 2500),
+  maxMessageTokens: readNumberEnv("CHAT_MAX_MESSAGE_TOKENS", 800),
+  summaryTokens: readNumberEnv("CHAT_SUMMARY_TOKEN_BUDGET", 300),
+});
+
+// Summarize a few messages past the window edge so it isn't redone every turn
+const SUMMARY_LOOKAHEAD_MESSAGES = 8;
+
+/**
+ * Index of the first message that still fits in the history budget,
+ * walking back from the newest. The current message's tokens are
+ * reserved up front.
+ */
+export const findWindowStart = (
+  messages: IChatMessage[],
+  reservedTokens = 0,
+  budget = getContextBudget()
+): number => {
+  let used = reservedTokens;
+  let start = messages.length;
+
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const tokens = Math.min(
+      estimateTokens(messages[i].content),
+      budget.maxMessageTokens
+    );
+    if (used + tokens > budget.historyTokens) break;
+    used += tokens;
+    start = i;
+  }
+
+  return start;
+};
+
+/**
+ * Recent messages as prompt messages, with oversized ones truncated
+ */
+export const toHistoryMessages = (
+  messages: IChatMessage[],
+  budget = getContextBudget()
+): LLMMessage[] =>
+  messages.map((msg) => ({
+    role: msg.role === "user" ? "user" : "assistant",
+    content: truncateToTokens(msg.content.trim(), budget.maxMessageTokens),
+  }));
+
+const summarizeMessages = async (
+  previousSummary: string | undefined,
+  messages: IChatMessage[],
+  budget = getContextBudget(),
+  owner?: LLMUsageOwner
+): Promise<string> => {
+  const transcript = toHistoryMessages(messages, budget)
+    .map((msg) => `${msg.role === "user" ? "User" : "Leo"}: ${msg.content}`)
+    .join("\n");
+
+  const prompt = await renderPrompt("session.summary", {
+    previousSummary: previousSummary || "(none yet)",
+    transcript,
+    maxWords: Math.round(budget.summaryTokens * 0.75),
+  });
+
+  const completion = await getLLMProvider().complete(
+    [
+      {
+        role: "system",
+        content: "You write concise, factual conversation summaries.",
+      },
+      { role: "user", content: prompt.content },
+    ],
+    {
+      model: getModel("analysis"),
+      temperature: 0.2,
+      maxTokens: budget.summaryTokens,
+      accounting: { feature: "session_summary", ...owner },
+    }
+  );
+
+  return completion.content;
+};
+
+/**
+ * Makes sure every message that has fallen out of the history window is
+ * covered by the session's rolling summary, regenerating it if not.
+ * `history` defaults to the whole session; regenerate passes the turns
+ * before the reply. Updates the document in memory only; the caller
+ * saves the session.
+ *
+ * Returns the index where the verbatim history window starts.
+ */
+export const ensureSessionSummary = async (
+  session: IChatSession,
+  currentMessage: string,
+  history: IChatMessage[] = session.messages
+): Promise<number> => {
+  const budget = getContextBudget();
+  const windowStart = findWindowStart(
+    history,
+    Math.min(estimateTokens(currentMessage), budget.maxMessageTokens),
+    budget
+  );
+  const covered = session.summary?.coveredMessageCount || 0;
+
+  if (windowStart <= covered) return windowStart;
+
+  // Summary may overlap the window a little; that is cheaper than
+  // re-summarizing on every turn.
+  const coverUpTo = Math.min(
+    history.length,
+    windowStart + SUMMARY_LOOKAHEAD_MESSAGES
+  );
+
+  try {
+    const content = await summarizeMessages(
+      session.summary?.content,
+      history.slice(covered, coverUpTo),
+      budget,
+      { userId: session.userId.toString(), sessionId: session.sessionId }
+    );
+
+    if (content) {
+      session.summary = {
+        content,
+        coveredMessageCount: coverUpTo,
+        updatedAt: new Date(),
+      };
+    }
+  } catch (error) {
+    // Fall back to the older summary; the gap is retried next turn
+    logger.error("Error updating session summary:", error);
+  }
+
+  return windowStart;
+};
+
+/**
+ * Drops the rolling summary when it covers any message from `index` on,
+ * before those messages are edited away or replaced. It would still
+ * describe the old text, and coveredMessageCount would count different
+ * messages. The next ensureSessionSummary rebuilds it from the start.
+ */
+export const invalidateSummaryFrom = (session: IChatSession, index: number) => {
+  if ((session.summary?.coveredMessageCount || 0) > index) {
+    session.summary = undefined;
+  }
+};
@@ -0,0 +1,190 @@
+import { getLLMProvider, getModel, LLMMessage, LLMUsageOwner } from "../llm";
+import { logger } from "../utils/logger";
+import { readNumberEnv } from "../utils/env";
+import { LanguageCode } from "../types/language";
+import { getCatalog, pickLine } from "./i18n";
+
+export type EndIntent = "end" | "continue" | "unsure";
+
+export interface EndIntentResult {
+  intent: EndIntent;
+  // 0-1, how sure the detector is that the user wants to stop
+  confidence: number;
+  source: "llm" | "rules";
+  reason?: string;
+}
+
+// What the chat should do with the turn
+export type EndDecision = "continue" | "soft_close" | "close";
+
+/**
+ * END_INTENT_CLOSE_THRESHOLD: confidence needed to end straight away.
+ * END_INTENT_SOFT_THRESHOLD: confidence at which Leo asks if the user is done.
+ */
+export const getEndIntentThresholds = () => ({
+  close: readNumberEnv("END_INTENT_CLOSE_THRESHOLD", 0.85),
+  soft: readNumberEnv("END_INTENT_SOFT_THRESHOLD", 0.5),
+});
+
+const wordCount = (message: string) =>
+  message.trim().split(/\s+/).filter(Boolean).length;
+
+/**
+ * Rule-based detector, used on its own when the LLM is unavailable and as a
+ * cheap pre-filter so ordinary turns never pay for an extra model call.
+ * Keywords come from the language's catalog.
+ */
+export const detectEndIntentByRules = (
+  message: string,
+  language: LanguageCode = "en"
+): EndIntentResult => {
+  const { farewell, done, thanks, acknowledgement, continuation } =
+    getCatalog(language).endPatterns;
+  const text = message.trim();
+  const words = wordCount(text);
+  let confidence = 0;
+  let reason: string | undefined;
+
+  if (farewell.test(text)) {
+    confidence = 0.9;
+    reason = "farewell";
+  } else if (done.test(text)) {
+    confidence = 0.85;
+    reason = "done";
+  } else if (thanks.test(text)) {
+    confidence = words <= 6 ? 0.7 : 0.3;
+    reason = "gratitude";
+  } else if (acknowledgement.test(text)) {
+    confidence = 0.5;
+    reason = "acknowledgement";
+  }
+
+  if (confidence > 0) {
+    if (continuation.test(text)) confidence *= 0.4;
+    // Long messages are usually disclosures, not sign-offs
+    if (words > 15) confidence *= 0.5;
+  }
+
+  const rounded = Math.round(confidence * 100) / 100;
+  return {
+    intent: rounded >= 0.5 ? "end" : rounded > 0 ? "unsure" : "continue",
+    confidence: rounded,
+    source: "rules",
+    reason,
+  };
+};
+
+const detectEndIntentWithLLM = async (
+  message: string,
+  history: LLMMessage[],
+  awaitingConfirmation: boolean,
+  owner?: LLMUsageOwner
+): Promise<EndIntentResult> => {
+  const recent = history
+    .filter((m) => m.role !== "system")
+    .slice(-4)
+    .map((m) => `${m.role === "user" ? "User" : "Leo"}: ${m.content}`)
+    .join("\n");
+
+  const prompt = `
+Decide whether the user wants to end this supportive chat now. The user may write in any language.
+${awaitingConfirmation ? "Leo has just asked whether the user is done for now.\n" : ""}
+Recent conversation:
+${recent}
+
+Latest user message: ${message}
+
+Respond with JSON only:
+{
+  "intent": "end" | "continue" | "unsure",
+  "confidence": 0.0-1.0 (how sure you are the user wants to end),
+  "reason": "short explanation"
+}
+Thanks or agreement followed by a new concern, a question or a disclosure is "continue".
+`;
+
+  const { data } = await getLLMProvider().completeJSON(
+    [
+      {
+        role: "system",
+        content: "You classify conversation intent and respond with JSON only.",
+      },
+      { role: "user", content: prompt },
+    ],
+    {
+      model: getModel("analysis"),
+      temperature: 0,
+      accounting: { feature: "end_detection", ...owner },
+    }
+  );
+
+  const confidence = Number(data?.confidence);
+  const intent: EndIntent = ["end", "continue", "unsure"].includes(data?.intent)
+    ? data.intent
+    : "unsure";
+
+  return {
+    intent,
+    confidence: Number.isFinite(confidence)
+      ? Math.min(1, Math.max(0, confidence))
+      : 0,
+    source: "llm",
+    reason: typeof data?.reason === "string" ? data.reason : undefined,
+  };
+};
+
+/**
+ * Detects whether the user wants to stop. The rules decide alone when they
+ * see nothing; otherwise the LLM gets the final word, with the rules as
+ * fallback if it fails.
+ */
+export const detectEndIntent = async (
+  message: string,
+  history: LLMMessage[],
+  awaitingConfirmation = false,
+  options: { owner?: LLMUsageOwner; language?: LanguageCode } = {}
+): Promise<EndIntentResult> => {
+  const rules = detectEndIntentByRules(message, options.language);
+  if (rules.confidence === 0 && !awaitingConfirmation) return rules;
+
+  try {
+    return await detectEndIntentWithLLM(
+      message,
+      history,
+      awaitingConfirmation,
+      options.owner
+    );
+  } catch (error) {
+    logger.error("End intent detection failed, using rules:", error);
+    return rules;
+  }
+};
+
+/**
+ * Turns a detection into what the chat does next. While Leo is waiting for
+ * confirmation, a weaker "end" signal is enough to close.
+ */
+export const decideEnd = (
+  result: EndIntentResult,
+  awaitingConfirmation: boolean
+): EndDecision => {
+  const thresholds = getEndIntentThresholds();
+  if (result.intent === "continue") return "continue";
+
+  const wantsEnd = result.intent === "end";
+  if (awaitingConfirmation) {
+    return wantsEnd && result.confidence >= thresholds.soft
+      ? "close"
+      : "continue";
+  }
+
+  if (wantsEnd && result.confidence >= thresholds.close) return "close";
+  if (result.confidence >= thresholds.soft) return "soft_close";
+  return "continue";
+};
+
+/**
+ * What Leo says when checking whether the user is done
+ */
+export const getSoftCloseResponse = (language?: LanguageCode): string =>
+  pickLine(getCatalog(language).softCloseChecks);
@@ -0,0 +1,131 @@
+import { screenMessage, tierForScore } from "../classifier";
+import { CrisisConfig } from "../config";
+import { LanguageCode } from "../../../types/language";
+
+const CONFIG: CrisisConfig = {
+  thresholds: { low: 25, moderate: 50, high: 75, imminent: 90 },
+  escalationTier: "high",
+  recordTier: "moderate",
+  analysisRiskWeight: 16,
+};
+
+const screen = (message: string, languages: LanguageCode[] = []) =>
+  screenMessage(message, languages, CONFIG);
+
+describe("tierForScore", () => {
+  it("maps scores onto tiers at the thresholds", () => {
+    expect(tierForScore(0, CONFIG)).toBe("none");
+    expect(tierForScore(24, CONFIG)).toBe("none");
+    expect(tierForScore(25, CONFIG)).toBe("low");
+    expect(tierForScore(50, CONFIG)).toBe("moderate");
+    expect(tierForScore(75, CONFIG)).toBe("high");
+    expect(tierForScore(89, CONFIG)).toBe("high");
+    expect(tierForScore(90, CONFIG)).toBe("imminent");
+    expect(tierForScore(100, CONFIG)).toBe("imminent");
+  });
+});
+
+describe("screenMessage", () => {
+  it("passes ordinary messages", () => {
+    expect(screen("I had a rough day at work but I'm okay")).toEqual({
+      tier: "none",
+      score: 0,
+      triggers: [],
+    });
+  });
+
+  it("scores explicit ideation as high", () => {
+    expect(screen("Honestly I want to die")).toMatchObject({ tier: "high", score: 80 });
+  });
+
+  it("scores a plan as imminent", () => {
+    const assessment = screen("I'm going to kill myself tonight");
+
+    expect(assessment.tier).toBe("imminent");
+    expect(assessment.triggers.map((t) => t.ruleId)).toContain("intent-plan");
+  });
+
+  it("keeps the strongest trigger as the score", () => {
+    const assessment = screen("I feel worthless and I want to die");
+
+    expect(assessment.score).toBe(80);
+    expect(assessment.triggers).toHaveLength(2);
+  });
+
+  describe("negation", () => {
+    it.each([
+      "I'm not suicidal",
+      "I am not feeling suicidal anymore",
+      "I don't want to die",
+      "I'm not going to kill myself",
+      "I would never hurt myself",
+    ])("softens a negator that governs the phrase: %s", (message) => {
+      const assessment = screen(message);
+
+      expect(assessment.triggers[0].negated).toBe(true);
+      expect(assessment.tier).toBe("low");
+    });
+
+    it.each([
+      "I don't know, I want to die",
+      "I don't know; I want to die",
+      "I'm not okay and I want to die",
+      "It's not that bad but I want to die",
+      "I don't know if I want to die",
+    ])("does not let a negation in another clause lower the score: %s", (message) => {
+      const assessment = screen(message);
+
+      expect(assessment.triggers.every((t) => !t.negated)).toBe(true);
+      expect(assessment.tier).toBe("high");
+    });
+
+    it("never softens rules that aren't negatable", () => {
+      expect(screen("I'm not joking, I wrote a suicide note").tier).toBe("imminent");
+    });
+  });
+
+  describe("other languages", () => {
+    it.each<[LanguageCode, string]>([
+      ["es", "quiero morir, me quiero suicidar"],
+      ["es", "No sé, quiero morirme"],
+      ["fr", "je veux mourir"],
+      ["fr", "Je n'en peux plus, j'ai envie de me tuer"],
+      ["de", "ich will mich umbringen"],
+      ["de", "Ich bin lebensmüde"],
+      ["pt", "eu quero morrer"],
+      ["pt", "não sei, quero me matar"],
+    ])("screens %s messages: %s", (language, message) => {
+      expect(screen(message, [language]).tier).toBe("high");
+    });
+
+    it.each<[LanguageCode, string]>([
+      ["es", "me voy a matar esta noche"],
+      ["fr", "je vais me suicider"],
+      ["de", "ich werde mich heute nacht umbringen"],
+      ["pt", "vou me matar"],
+    ])("treats a %s plan as imminent: %s", (language, message) => {
+      expect(screen(message, [language]).tier).toBe("imminent");
+    });
+
+    it.each<[LanguageCode, string]>([
+      ["es", "no quiero morir"],
+      ["fr", "je ne suis pas suicidaire"],
+      ["de", "ich bin nicht suizidal"],
+      ["pt", "não vou me matar"],
+    ])("softens a governing %s negation: %s", (language, message) => {
+      const assessment = screen(message, [language]);
+
+      expect(assessment.triggers.length).toBeGreaterThan(0);
+      expect(assessment.triggers.every((t) => t.negated)).toBe(true);
+      expect(assessment.tier).toBe("low");
+    });
+
+    it("still screens English alongside the other language", () => {
+      expect(screen("I want to die", ["es"]).tier).toBe("high");
+    });
+
+    it("only applies the patterns of the languages asked for", () => {
+      expect(screen("je veux mourir").tier).toBe("none");
+    });
+  });
+});
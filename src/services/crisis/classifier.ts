@@ -0,0 +1,103 @@
+import {
+  CrisisAssessment,
+  CrisisTier,
+  CrisisTrigger,
+} from "../../types/crisis";
+import { MessageAnalysis } from "../../types/inngest";
+import { LanguageCode } from "../../types/language";
+import { DEFAULT_LANGUAGE, getCatalog } from "../i18n";
+import { getCrisisConfig, CrisisConfig } from "./config";
+import { OUTPUT_LEXICON } from "./lexicon";
+
+// Negated matches ("I'm not suicidal") still count, just for less
+const NEGATED_SCORE_FACTOR = 0.4;
+
+export const tierForScore = (
+  score: number,
+  config: CrisisConfig = getCrisisConfig()
+): CrisisTier => {
+  const { thresholds } = config;
+  if (score >= thresholds.imminent) return "imminent";
+  if (score >= thresholds.high) return "high";
+  if (score >= thresholds.moderate) return "moderate";
+  if (score >= thresholds.low) return "low";
+  return "none";
+};
+
+const toAssessment = (
+  triggers: CrisisTrigger[],
+  config: CrisisConfig
+): CrisisAssessment => {
+  const score = triggers.reduce((max, t) => Math.max(max, t.score), 0);
+  return { tier: tierForScore(score, config), score, triggers };
+};
+
+/**
+ * Screens the user's own message against the crisis lexicon: English,
+ * plus the patterns of any other language given (e.g. the one the message
+ * was detected in). Synchronous so it can run before any model call.
+ */
+export const screenMessage = (
+  message: string,
+  languages: LanguageCode[] = [],
+  config: CrisisConfig = getCrisisConfig()
+): CrisisAssessment => {
+  const triggers: CrisisTrigger[] = [];
+
+  for (const language of new Set([DEFAULT_LANGUAGE, ...languages])) {
+    const { rules, negation, clauseBreak } = getCatalog(language).crisisPatterns;
+
+    for (const rule of rules) {
+      const match = rule.pattern.exec(message);
+      if (!match) continue;
+
+      // A negation never reaches past the start of its clause, so "I don't
+      // know, I want to die" is not negated
+      const clause = message.slice(0, match.index).split(clauseBreak).pop() || "";
+      const negated = !!rule.negatable && negation.test(clause);
+
+      triggers.push({
+        source: "lexicon",
+        ruleId: rule.id,
+        category: rule.category,
+        matched: match[0],
+        score: negated ? Math.round(rule.score * NEGATED_SCORE_FACTOR) : rule.score,
+        negated,
+      });
+    }
+  }
+
+  return toAssessment(triggers, config);
+};
+
+/**
+ * Folds the model's riskLevel (0-5) into a lexicon assessment
+ */
+export const combineWithAnalysis = (
+  assessment: CrisisAssessment,
+  analysis: MessageAnalysis | null,
+  config: CrisisConfig = getCrisisConfig()
+): CrisisAssessment => {
+  if (!analysis || !analysis.riskLevel) return assessment;
+
+  const triggers: CrisisTrigger[] = [
+    ...assessment.triggers,
+    {
+      source: "analysis",
+      ruleId: "analysis-risk-level",
+      matched: `riskLevel ${analysis.riskLevel}`,
+      score: Math.min(100, analysis.riskLevel * config.analysisRiskWeight),
+    },
+  ];
+
+  return toAssessment(triggers, config);
+};
+
+/**
+ * True when the model's reply contains advice Leo must never give
+ * (diagnoses, medication, self-harm methods). Returns the matching rule ids.
+ */
+export const findUnsafeReplyRules = (reply: string): string[] =>
+  OUTPUT_LEXICON.filter((rule) => rule.pattern.test(reply)).map(
+    (rule) => rule.id
+  );
@@ -0,0 +1,38 @@
+import { CrisisTier, CRISIS_TIERS } from "../../types/crisis";
+import { readNumberEnv } from "../../utils/env";
+
+export interface CrisisConfig {
+  // Minimum score for each tier (0-100)
+  thresholds: Record<Exclude<CrisisTier, "none">, number>;
+  // Tier at which Leo is bypassed and the fixed crisis response is sent
+  escalationTier: CrisisTier;
+  // Lowest tier that still gets a CrisisEvent for the audit trail
+  recordTier: CrisisTier;
+  // Analysis riskLevel (0-5) is multiplied by this to get a score
+  analysisRiskWeight: number;
+}
+
+const readTier = (name: string, fallback: CrisisTier): CrisisTier => {
+  const value = process.env[name] as CrisisTier | undefined;
+  return value && CRISIS_TIERS.includes(value) ? value : fallback;
+};
+
+/**
+ * Crisis thresholds, overridable through CRISIS_* environment variables
+ */
+export const getCrisisConfig = (): CrisisConfig => ({
+  thresholds: {
+    low: readNumberEnv("CRISIS_THRESHOLD_LOW", 25),
+    moderate: readNumberEnv("CRISIS_THRESHOLD_MODERATE", 50),
+    high: readNumberEnv("CRISIS_THRESHOLD_HIGH", 75),
+    imminent: readNumberEnv("CRISIS_THRESHOLD_IMMINENT", 90),
+  },
+  escalationTier: readTier("CRISIS_ESCALATION_TIER", "high"),
+  recordTier: readTier("CRISIS_RECORD_TIER", "moderate"),
+  analysisRiskWeight: readNumberEnv("CRISIS_ANALYSIS_RISK_WEIGHT", 16),
+});
+
+export const tierRank = (tier: CrisisTier) => CRISIS_TIERS.indexOf(tier);
+
+export const isAtLeast = (tier: CrisisTier, minimum: CrisisTier) =>
+  tierRank(tier) >= tierRank(minimum);
@@ -0,0 +1,86 @@
+import { Types } from "mongoose";
+import { CrisisEvent, ICrisisEvent } from "../../models/CrisisEvent";
+import { CrisisAssessment } from "../../types/crisis";
+import { sendCrisisAlertEvent } from "../../utils/inngestEvents";
+import { logger } from "../../utils/logger";
+import { getCrisisConfig, isAtLeast } from "./config";
+
+export interface RecordCrisisParams {
+  userId: Types.ObjectId | string;
+  assessment: CrisisAssessment;
+  source?: string;
+  sessionId?: string;
+  messageId?: Types.ObjectId;
+  assessmentResultId?: Types.ObjectId;
+  locale?: string;
+}
+
+/**
+ * True when the fixed crisis response should replace Leo's reply
+ */
+export const shouldEscalate = (assessment: CrisisAssessment): boolean =>
+  isAtLeast(assessment.tier, getCrisisConfig().escalationTier);
+
+/**
+ * Stores a CrisisEvent for anything at or above the record tier and, for
+ * escalations, fires `safety/crisis.detected` for on-call staff.
+ * Never throws: a failed alert must not break the chat reply or the
+ * assessment submission.
+ */
+export const recordCrisisEvent = async ({
+  userId,
+  assessment,
+  source = "chat",
+  sessionId,
+  messageId,
+  assessmentResultId,
+  locale,
+}: RecordCrisisParams): Promise<ICrisisEvent | null> => {
+  const config = getCrisisConfig();
+  if (!isAtLeast(assessment.tier, config.recordTier)) return null;
+
+  const escalated = shouldEscalate(assessment);
+
+  try {
+    const event = await CrisisEvent.create({
+      userId,
+      source,
+      sessionId,
+      messageId,
+      assessmentResultId,
+      tier: assessment.tier,
+      score: assessment.score,
+      triggers: assessment.triggers,
+      thresholds: config.thresholds,
+      escalated,
+      responseType: escalated ? "crisis_response" : "assistant_reply",
+      locale,
+    });
+
+    if (escalated) {
+      logger.warn("Crisis escalation", {
+        crisisEventId: event._id,
+        tier: assessment.tier,
+        rules: assessment.triggers.map((t) => t.ruleId),
+      });
+
+      await sendCrisisAlertEvent({
+        id: event._id,
+        userId,
+        source,
+        sessionId,
+        messageId,
+        tier: assessment.tier,
+        score: assessment.score,
+        triggers: assessment.triggers,
+      }).catch(() => {
+        // Already logged by sendCrisisAlertEvent; the event is still stored
+      });
+    }
+
+    return event;
+  } catch (error) {
+    logger.error("Failed to record crisis event:", error);
+    return null;
+  }
+};
@@ -0,0 +1,14 @@
+export { getCrisisConfig, isAtLeast } from "./config";
+export {
+  screenMessage,
+  combineWithAnalysis,
+  findUnsafeReplyRules,
+  tierForScore,
+} from "./classifier";
+export {
+  getCrisisResponse,
+  formatCrisisResponse,
+  regionFromLocale,
+} from "./resources";
+export { shouldEscalate, recordCrisisEvent } from "./escalation";
+export { INPUT_LEXICON, OUTPUT_LEXICON } from "./lexicon";
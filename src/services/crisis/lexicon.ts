@@ -0,0 +1,111 @@
+import { LexiconRule } from "../../types/crisis";
+
+/**
+ * Rules applied to the user's own message, in English. Other languages
+ * keep theirs in their chat catalog (crisisPatterns).
+ * Keep patterns specific: a false "imminent" skips the model entirely.
+ */
+export const INPUT_LEXICON: LexiconRule[] = [
+  {
+    id: "intent-plan",
+    category: "suicidal_intent",
+    pattern:
+      /\b(i('m| am)|im) (going|gonna|planning) to (kill myself|end (it all|my life)|take my (own )?life)\b/i,
+    score: 95,
+  },
+  {
+    id: "intent-means",
+    category: "suicidal_intent",
+    pattern:
+      /\b(i (have|bought|got|saved( up)?)|stockpil(ed|ing)) (the |some |enough )?(pills|a gun|rope|a blade)\b.*\b(die|end it|kill myself)\b/i,
+    score: 95,
+  },
+  {
+    id: "intent-goodbye-note",
+    category: "suicidal_intent",
+    pattern: /\b(wrote|writing|left) (a|my) (suicide|goodbye) note\b/i,
+    score: 95,
+  },
+  {
+    id: "intent-timeframe",
+    category: "suicidal_intent",
+    pattern:
+      /\b(tonight|today|right now|this weekend)\b.{0,40}\b(kill myself|end my life|end it all)\b/i,
+    score: 92,
+  },
+  {
+    id: "ideation-explicit",
+    category: "suicidal_ideation",
+    pattern:
+      /\b(kill(ing)? myself|suicid(e|al)|end(ing)? my (own )?life|take my (own )?life|want(ed)? to die|wanna die|better off dead)\b/i,
+    score: 80,
+    negatable: true,
+  },
+  {
+    id: "ideation-passive",
+    category: "suicidal_ideation",
+    pattern:
+      /\b(no reason to (live|go on)|don'?t want to (live|be alive|exist|wake up)|wish i (was|were) dead|wish i could disappear forever)\b/i,
+    score: 75,
+    negatable: true,
+  },
+  {
+    id: "self-harm",
+    category: "self_harm",
+    pattern:
+      /\b(cut(ting)? myself|hurt(ing)? myself|self[- ]harm(ing)?|burn(ing)? myself|starv(e|ing) myself)\b/i,
+    score: 75,
+    negatable: true,
+  },
+  {
+    id: "harm-to-others",
+    category: "harm_to_others",
+    pattern: /\b(i('m| am| want to| will)|im) (going to )?(kill|hurt|stab|shoot) (him|her|them|someone|somebody|people)\b/i,
+    score: 80,
+    negatable: true,
+  },
+  {
+    id: "abuse",
+    category: "abuse",
+    pattern:
+      /\b((he|she|they) (hits|beats|chokes|hurts) me|being abused|afraid (he|she|they)('ll| will) hurt me)\b/i,
+    score: 60,
+  },
+  {
+    id: "hopelessness",
+    category: "hopelessness",
+    pattern:
+      /\b(hopeless|no way out|can'?t go on|can'?t do this anymore|everyone would be better off without me|i'?m (just )?a burden)\b/i,
+    score: 55,
+    negatable: true,
+  },
+  {
+    id: "distress",
+    category: "distress",
+    pattern: /\b(worthless|empty inside|can'?t cope|falling apart|breaking down)\b/i,
+    score: 30,
+    negatable: true,
+  },
+];
+
+/**
+ * Rules applied to the model's reply. These catch advice Leo must never
+ * give, without blanking replies that merely mention the words.
+ */
+export const OUTPUT_LEXICON: { id: string; pattern: RegExp }[] = [
+  {
+    id: "diagnosis",
+    pattern:
+      /\byou (have|probably have|might have|are suffering from|clearly have) (clinical )?(depression|bipolar|adhd|ptsd|ocd|bpd|schizophrenia|an? [a-z]+ disorder)\b/i,
+  },
+  {
+    id: "medication",
+    pattern:
+      /\b(take|try|increase|double|stop taking|prescribe)\b.{0,30}\b(\d+\s?mg|milligrams|dosage|dose of|antidepressants?|ssris?|benzos?|xanax|sertraline|prozac)\b/i,
+  },
+  {
+    id: "self-harm-method",
+    pattern:
+      /\b(how to|ways to|best way to) (kill|hurt|cut|harm) (yourself|oneself)\b/i,
+  },
+];
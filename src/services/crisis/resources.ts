@@ -0,0 +1,161 @@
+import { CrisisResource, CrisisResponse } from "../../types/crisis";
+import { LanguageCode } from "../../types/language";
+import { DEFAULT_LANGUAGE, getCatalog, languageFromLocale } from "../i18n";
+
+const FIND_A_HELPLINE: CrisisResource = {
+  name: "Find A Helpline (international directory)",
+  url: "https://findahelpline.com",
+};
+
+// Hotlines by ISO country code; "default" is used for anywhere else
+const RESOURCES_BY_REGION: Record<string, CrisisResource[]> = {
+  US: [
+    {
+      name: "988 Suicide & Crisis Lifeline",
+      phone: "988",
+      text: "988",
+      url: "https://988lifeline.org",
+      available: "24/7",
+    },
+    { name: "Emergency services", phone: "911" },
+  ],
+  CA: [
+    {
+      name: "9-8-8 Suicide Crisis Helpline",
+      phone: "988",
+      text: "988",
+      url: "https://988.ca",
+      available: "24/7",
+    },
+    { name: "Emergency services", phone: "911" },
+  ],
+  GB: [
+    {
+      name: "Samaritans",
+      phone: "116 123",
+      url: "https://www.samaritans.org",
+      available: "24/7",
+    },
+    { name: "Shout", text: "SHOUT to 85258", available: "24/7" },
+    { name: "Emergency services", phone: "999" },
+  ],
+  IE: [
+    {
+      name: "Samaritans",
+      phone: "116 123",
+      url: "https://www.samaritans.org",
+      available: "24/7",
+    },
+    { name: "Emergency services", phone: "112" },
+  ],
+  AU: [
+    {
+      name: "Lifeline",
+      phone: "13 11 14",
+      url: "https://www.lifeline.org.au",
+      available: "24/7",
+    },
+    { name: "Emergency services", phone: "000" },
+  ],
+  NG: [{ name: "Emergency services", phone: "112" }, FIND_A_HELPLINE],
+  ES: [
+    {
+      name: "Línea 024 de atención a la conducta suicida",
+      phone: "024",
+      available: "24/7",
+    },
+    { name: "Emergencias", phone: "112" },
+  ],
+  MX: [
+    {
+      name: "Línea de la Vida",
+      phone: "800 911 2000",
+      available: "24/7",
+    },
+    { name: "Emergencias", phone: "911" },
+  ],
+  FR: [
+    {
+      name: "3114 — Numéro national de prévention du suicide",
+      phone: "3114",
+      url: "https://3114.fr",
+      available: "24/7",
+    },
+    { name: "Urgences", phone: "112" },
+  ],
+  DE: [
+    {
+      name: "TelefonSeelsorge",
+      phone: "0800 111 0 111",
+      url: "https://www.telefonseelsorge.de",
+      available: "24/7",
+    },
+    { name: "Notruf", phone: "112" },
+  ],
+  BR: [
+    {
+      name: "CVV — Centro de Valorização da Vida",
+      phone: "188",
+      url: "https://cvv.org.br",
+      available: "24/7",
+    },
+    { name: "SAMU", phone: "192" },
+  ],
+  PT: [
+    {
+      name: "SOS Voz Amiga",
+      phone: "213 544 545",
+      url: "https://www.sosvozamiga.org",
+    },
+    { name: "Emergência", phone: "112" },
+  ],
+  default: [FIND_A_HELPLINE],
+};
+
+/**
+ * Pulls the region out of a locale tag ("en-GB" -> "GB")
+ */
+export const regionFromLocale = (locale?: string): string | undefined => {
+  const region = locale?.split(/[-_]/)[1];
+  return region ? region.toUpperCase() : undefined;
+};
+
+/**
+ * The fixed response sent instead of Leo's reply when a message escalates.
+ * Hotlines follow the locale's region; the message follows the
+ * conversation's language (the locale's, if not given).
+ */
+export const getCrisisResponse = (
+  locale = "en",
+  language: LanguageCode = languageFromLocale(locale) || DEFAULT_LANGUAGE
+): CrisisResponse => {
+  const region = regionFromLocale(locale);
+  const resources =
+    (region && RESOURCES_BY_REGION[region]) || RESOURCES_BY_REGION.default;
+
+  return {
+    locale,
+    language,
+    message: getCatalog(language).crisisMessage,
+    resources,
+  };
+};
+
+/**
+ * Plain-text version of the crisis response, stored as the assistant message
+ */
+export const formatCrisisResponse = (response: CrisisResponse): string => {
+  const words = getCatalog(response.language).contact;
+  const lines = response.resources.map((resource) => {
+    const contact = [
+      resource.phone && `${words.call} ${resource.phone}`,
+      resource.text && `${words.text} ${resource.text}`,
+      resource.url,
+    ]
+      .filter(Boolean)
+      .join(", ");
+    return `• ${resource.name}${contact ? ` — ${contact}` : ""}`;
+  });
+
+  return [response.message, ...lines].join("\n");
+};
@@ -0,0 +1,341 @@
+import { IChatSession } from "../models/ChatSession";
+import { ExerciseRecord } from "../models/ExerciseRecord";
+import {
+  ActiveExercise,
+  ExerciseAnswer,
+  ExerciseDefinition,
+  ExerciseProgress,
+  ExerciseSnapshot,
+  ExerciseStep,
+  ExerciseType,
+} from "../types/exercise";
+import { isOwnKey } from "../utils/objects";
+
+const EXERCISES: Record<ExerciseType, ExerciseDefinition> = {
+  thought_record: {
+    type: "thought_record",
+    title: "Thought record",
+    description:
+      "Slow down a difficult moment, look at the thought behind it and find a more balanced one.",
+    intro: "Let's walk through a thought record together, one step at a time.",
+    steps: [
+      {
+        key: "situation",
+        kind: "text",
+        prompt: "What was the situation? Where were you, and what was happening?",
+      },
+      {
+        key: "automaticThought",
+        kind: "text",
+        prompt: "What thought went through your mind in that moment?",
+      },
+      {
+        key: "emotion",
+        kind: "text",
+        prompt: "What emotion did that bring up? A word or two is fine.",
+      },
+      {
+        key: "emotionBefore",
+        kind: "rating",
+        rating: "before",
+        prompt: "How strong was that {{emotion}}, from 0 (not at all) to 100 (the most intense)?",
+      },
+      {
+        key: "evidenceFor",
+        kind: "text",
+        prompt: 'What makes the thought "{{automaticThought}}" feel true?',
+      },
+      {
+        key: "evidenceAgainst",
+        kind: "text",
+        prompt: "And what doesn't quite fit with it? Anything that points the other way?",
+      },
+      {
+        key: "balancedThought",
+        kind: "text",
+        prompt:
+          "Looking at both sides, what's a more balanced way to see it? It doesn't have to be positive, just fair.",
+      },
+      {
+        key: "emotionAfter",
+        kind: "rating",
+        rating: "after",
+        prompt: "Holding that balanced thought, how strong is the {{emotion}} now, from 0 to 100?",
+      },
+    ],
+    outro:
+      "Nice work getting through that. Your {{emotion}} went from {{before}} to {{after}}. I've saved this thought record so you can come back to it.",
+  },
+  behavioural_activation: {
+    type: "behavioural_activation",
+    title: "Behavioural activation plan",
+    description:
+      "Pick one small, doable activity that brings enjoyment or a sense of achievement, and plan when to do it.",
+    intro: "Let's plan one small thing that could lift your mood a little.",
+    steps: [
+      {
+        key: "moodBefore",
+        kind: "rating",
+        rating: "before",
+        prompt: "First, how low or flat does your mood feel right now, from 0 (not at all) to 100 (extremely)?",
+      },
+      {
+        key: "activities",
+        kind: "list",
+        prompt:
+          "List a few things you used to enjoy, or that give you a sense of achievement, even small ones. Separate them with commas.",
+      },
+      {
+        key: "chosenActivity",
+        kind: "text",
+        prompt: "Which one feels most doable this week? You can make it smaller if that helps.",
+      },
+      {
+        key: "when",
+        kind: "text",
+        prompt: "When exactly will you do {{chosenActivity}}? Pick a day and time.",
+      },
+      {
+        key: "obstacle",
+        kind: "text",
+        prompt: "What might get in the way, and what could you do if it does?",
+      },
+      {
+        key: "moodAfter",
+        kind: "rating",
+        rating: "after",
+        prompt: "With that plan in place, how low or flat does your mood feel now, from 0 to 100?",
+      },
+    ],
+    outro:
+      "That's a solid plan: {{chosenActivity}}, {{when}}. Your rating went from {{before}} to {{after}}. I've saved it so you can check back after you've tried it.",
+  },
+  grounding_54321: {
+    type: "grounding_54321",
+    title: "5-4-3-2-1 grounding",
+    description: "Use your senses to come back to the present when things feel overwhelming.",
+    intro: "Let's try a grounding exercise. Take your time with each step.",
+    steps: [
+      {
+        key: "distressBefore",
+        kind: "rating",
+        rating: "before",
+        prompt: "How anxious or overwhelmed do you feel right now, from 0 (calm) to 100 (extremely)?",
+      },
+      {
+        key: "see",
+        kind: "list",
+        prompt: "Look around and name 5 things you can see.",
+      },
+      {
+        key: "touch",
+        kind: "list",
+        prompt: "Now 4 things you can feel or touch — your feet on the floor, your clothes, anything.",
+      },
+      {
+        key: "hear",
+        kind: "list",
+        prompt: "3 things you can hear right now.",
+      },
+      {
+        key: "smell",
+        kind: "list",
+        prompt: "2 things you can smell, or two smells you like.",
+      },
+      {
+        key: "taste",
+        kind: "list",
+        prompt: "And 1 thing you can taste.",
+      },
+      {
+        key: "distressAfter",
+        kind: "rating",
+        rating: "after",
+        prompt: "Take a slow breath. How anxious or overwhelmed do you feel now, from 0 to 100?",
+      },
+    ],
+    outro:
+      "Well done. You went from {{before}} to {{after}}. You can come back to this exercise any time things start to feel like too much.",
+  },
+};
+
+export const listExercises = (): ExerciseDefinition[] => Object.values(EXERCISES);
+
+export const isExerciseType = (value: unknown): value is ExerciseType => isOwnKey(EXERCISES, value);
+
+export const getExercise = (type: ExerciseType): ExerciseDefinition =>
+  EXERCISES[type];
+
+const fillTemplate = (
+  template: string,
+  values: Record<string, ExerciseAnswer | undefined>
+) =>
+  template.replace(/\{\{(\w+)\}\}/g, (_, key: string) => {
+    const value = values[key];
+    if (value === undefined) return "";
+    return Array.isArray(value) ? value.join(", ") : String(value);
+  });
+
+const promptFor = (step: ExerciseStep, state: ActiveExercise) =>
+  fillTemplate(step.prompt, state.responses);
+
+/**
+ * Parses the user's message for a step. Returns null when it doesn't fit
+ * (e.g. no number for a rating) so Leo can ask again.
+ */
+const parseAnswer = (step: ExerciseStep, message: string): ExerciseAnswer | null => {
+  const text = message.trim();
+  if (!text) return null;
+
+  switch (step.kind) {
+    case "rating": {
+      const match = text.match(/\b(100|\d{1,2})\b/);
+      return match ? Number(match[1]) : null;
+    }
+    case "list": {
+      const items = text
+        .split(/[,;\n]+/)
+        .map((item) => item.trim())
+        .filter(Boolean);
+      return items.length > 0 ? items : null;
+    }
+    default:
+      return text;
+  }
+};
+
+const ratingFor = (
+  definition: ExerciseDefinition,
+  responses: Record<string, ExerciseAnswer>,
+  which: "before" | "after"
+): number | undefined => {
+  const step = definition.steps.find((s) => s.rating === which);
+  const value = step ? responses[step.key] : undefined;
+  return typeof value === "number" ? value : undefined;
+};
+
+export const toExerciseProgress = (
+  state: ActiveExercise,
+  recordId?: string
+): ExerciseProgress => {
+  const definition = EXERCISES[state.type];
+  const completed = state.stepIndex >= definition.steps.length;
+
+  return {
+    type: state.type,
+    title: definition.title,
+    step: Math.min(state.stepIndex + 1, definition.steps.length),
+    totalSteps: definition.steps.length,
+    stepKey: completed ? null : definition.steps[state.stepIndex].key,
+    completed,
+    ...(recordId && { recordId }),
+  };
+};
+
+/**
+ * Starts an exercise on the session (in memory; the caller saves).
+ * Returns Leo's opening message with the first step.
+ */
+export const startExercise = (
+  session: IChatSession,
+  type: ExerciseType
+): { reply: string; progress: ExerciseProgress } => {
+  const definition = EXERCISES[type];
+  const state: ActiveExercise = {
+    type,
+    stepIndex: 0,
+    responses: {},
+    startedAt: new Date(),
+  };
+  session.activeExercise = state;
+
+  return {
+    reply: `${definition.intro} ${promptFor(definition.steps[0], state)}`,
+    progress: toExerciseProgress(state),
+  };
+};
+
+/**
+ * Records the user's answer to the current step and moves on. On the last
+ * step the exercise is saved as an ExerciseRecord and cleared from the
+ * session. Updates the session in memory; the caller saves it.
+ */
+export const advanceExercise = async (
+  session: IChatSession,
+  message: string
+): Promise<{ reply: string; progress: ExerciseProgress }> => {
+  const state = session.activeExercise!;
+  const definition = EXERCISES[state.type];
+  const step = definition.steps[state.stepIndex];
+
+  const answer = parseAnswer(step, message);
+  if (answer === null) {
+    const retry =
+      step.kind === "rating"
+        ? "Could you give that as a number from 0 to 100?"
+        : "Take your time — whenever you're ready.";
+    return {
+      reply: `${retry} ${promptFor(step, state)}`,
+      progress: toExerciseProgress(state),
+    };
+  }
+
+  // Replace the Mixed value wholesale so Mongoose sees the change
+  const next: ActiveExercise = {
+    ...state,
+    stepIndex: state.stepIndex + 1,
+    responses: { ...state.responses, [step.key]: answer },
+  };
+
+  if (next.stepIndex < definition.steps.length) {
+    session.activeExercise = next;
+    return {
+      reply: promptFor(definition.steps[next.stepIndex], next),
+      progress: toExerciseProgress(next),
+    };
+  }
+
+  const ratingBefore = ratingFor(definition, next.responses, "before");
+  const ratingAfter = ratingFor(definition, next.responses, "after");
+  const record = await ExerciseRecord.create({
+    userId: session.userId,
+    sessionId: session.sessionId,
+    type: next.type,
+    responses: next.responses,
+    ratingBefore,
+    ratingAfter,
+    startedAt: next.startedAt,
+    completedAt: new Date(),
+  });
+  session.activeExercise = undefined;
+
+  return {
+    reply: fillTemplate(definition.outro, {
+      ...next.responses,
+      before: ratingBefore,
+      after: ratingAfter,
+    }),
+    progress: toExerciseProgress(next, record.id),
+  };
+};
+
+/**
+ * Puts the session's exercise back to how it was before a user message
+ * (in memory; the caller saves). Used when the message is edited, so the
+ * new text answers the same step again. Without a snapshot no exercise was
+ * running then, and one started since is dropped.
+ */
+export const rewindExercise = (session: IChatSession, snapshot?: ExerciseSnapshot) => {
+  session.activeExercise = snapshot ? { ...snapshot.before } : undefined;
+};
+
+/**
+ * Deletes the record a rewound answer had completed
+ */
+export const discardExerciseRecord = async (
+  session: IChatSession,
+  snapshot?: ExerciseSnapshot
+): Promise<void> => {
+  if (!snapshot?.recordId) return;
+  await ExerciseRecord.deleteOne({ _id: snapshot.recordId, userId: session.userId });
+};
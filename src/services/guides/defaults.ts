@@ -0,0 +1,271 @@
+import { GuideDefinition } from "../../types/guide";
+
+// Built-in guides, added to the catalog collection when missing. Edits made
+// in the database are kept.
+export const DEFAULT_GUIDES: GuideDefinition[] = [
+  {
+    slug: "box-breathing",
+    title: "Box breathing",
+    summary: "Slow, even breaths in four counts to settle a racing body and mind.",
+    activityType: "meditation",
+    difficulty: "easy",
+    tags: ["breathing", "quick", "grounding"],
+    targetEmotions: ["anxious", "stressed", "overwhelmed", "angry"],
+    steps: [
+      {
+        title: "Get comfortable",
+        instruction:
+          "Sit upright with your feet on the floor. Rest your hands and let your shoulders drop.",
+        durationSeconds: 30,
+      },
+      {
+        title: "Breathe in for 4",
+        instruction:
+          "Breathe in through your nose for a slow count of four, then hold for four, breathe out for four and hold for four.",
+        durationSeconds: 16,
+      },
+      {
+        title: "Keep the box going",
+        instruction:
+          "Repeat the four sides of the box at your own pace. If your mind wanders, come back to the counting.",
+        durationSeconds: 180,
+      },
+      {
+        title: "Notice",
+        instruction:
+          "Let your breathing return to normal and notice how your body feels now compared to when you started.",
+        durationSeconds: 30,
+      },
+    ],
+  },
+  {
+    slug: "body-scan",
+    title: "Body scan",
+    summary: "Move your attention slowly from head to toe, noticing without judging.",
+    activityType: "meditation",
+    difficulty: "easy",
+    tags: ["mindfulness", "relaxation", "sleep"],
+    targetEmotions: ["stressed", "anxious", "tired", "numb"],
+    steps: [
+      {
+        title: "Settle in",
+        instruction:
+          "Lie down or sit comfortably and close your eyes if that feels okay. Take three slow breaths.",
+        durationSeconds: 60,
+      },
+      {
+        title: "Head and face",
+        instruction:
+          "Notice your forehead, jaw and the muscles around your eyes. If there is tension, just notice it and let it soften if it can.",
+        durationSeconds: 90,
+      },
+      {
+        title: "Shoulders, arms and hands",
+        instruction:
+          "Move your attention down through your shoulders, arms and hands. Notice warmth, weight or tingling.",
+        durationSeconds: 90,
+      },
+      {
+        title: "Chest and belly",
+        instruction: "Notice your chest and belly rising and falling with each breath.",
+        durationSeconds: 90,
+      },
+      {
+        title: "Legs and feet",
+        instruction:
+          "Move down through your hips, legs and feet. Notice where they touch the floor or the bed.",
+        durationSeconds: 90,
+      },
+      {
+        title: "Whole body",
+        instruction:
+          "Hold your whole body in your attention for a few breaths, then gently open your eyes.",
+        durationSeconds: 60,
+      },
+    ],
+  },
+  {
+    slug: "progressive-muscle-relaxation",
+    title: "Progressive muscle relaxation",
+    summary: "Tense and release each muscle group to let go of physical tension.",
+    activityType: "meditation",
+    difficulty: "moderate",
+    tags: ["relaxation", "sleep", "tension"],
+    targetEmotions: ["anxious", "stressed", "irritable", "overwhelmed"],
+    steps: [
+      {
+        title: "Get ready",
+        instruction:
+          "Find a quiet spot and sit or lie down. You'll tense each muscle group for about five seconds, then release it for ten.",
+        durationSeconds: 45,
+      },
+      {
+        title: "Hands and arms",
+        instruction:
+          "Make fists and tighten your arms. Hold, then let go all at once and notice the difference.",
+        durationSeconds: 60,
+      },
+      {
+        title: "Shoulders and neck",
+        instruction:
+          "Lift your shoulders towards your ears. Hold, then let them drop.",
+        durationSeconds: 60,
+      },
+      {
+        title: "Face",
+        instruction:
+          "Scrunch your face, squeezing your eyes and jaw. Hold, then release and let your face go slack.",
+        durationSeconds: 60,
+      },
+      {
+        title: "Stomach",
+        instruction: "Tighten your stomach muscles. Hold, then release and breathe out.",
+        durationSeconds: 60,
+      },
+      {
+        title: "Legs and feet",
+        instruction:
+          "Press your legs together and curl your toes. Hold, then release and let your legs feel heavy.",
+        durationSeconds: 60,
+      },
+      {
+        title: "Rest",
+        instruction:
+          "Breathe slowly and enjoy the feeling of your body being loose and heavy.",
+        durationSeconds: 60,
+      },
+    ],
+  },
+  {
+    slug: "worry-time",
+    title: "Worry time",
+    summary:
+      "Give your worries a set time and place, so they take up less of the rest of your day.",
+    activityType: "journaling",
+    difficulty: "moderate",
+    tags: ["cbt", "writing", "worry"],
+    targetEmotions: ["anxious", "overwhelmed", "stressed"],
+    steps: [
+      {
+        title: "Write the worries down",
+        instruction:
+          "For the next few minutes, write down everything you've been worrying about, without sorting or judging it.",
+        durationSeconds: 300,
+      },
+      {
+        title: "Sort them",
+        instruction:
+          "Mark each worry as something you can act on or something outside your control.",
+        durationSeconds: 180,
+      },
+      {
+        title: "Plan one step",
+        instruction:
+          "For one worry you can act on, write down a small first step and when you'll do it.",
+        durationSeconds: 180,
+      },
+      {
+        title: "Let the rest wait",
+        instruction:
+          "For the worries you can't act on, remind yourself they'll get time again at your next worry time. Close the notebook.",
+        durationSeconds: 60,
+      },
+    ],
+  },
+  {
+    slug: "gratitude-journal",
+    title: "Three good things",
+    summary: "Write down three things that went well today and why.",
+    activityType: "journaling",
+    difficulty: "easy",
+    tags: ["writing", "positive", "evening"],
+    targetEmotions: ["sad", "lonely", "numb", "bored"],
+    steps: [
+      {
+        title: "Think back",
+        instruction:
+          "Look back over your day. Small things count: a good coffee, a kind word, a moment of quiet.",
+        durationSeconds: 60,
+      },
+      {
+        title: "Write three good things",
+        instruction: "Write down three things that went well, however small.",
+        durationSeconds: 180,
+      },
+      {
+        title: "Why did they happen?",
+        instruction:
+          "Next to each one, write a line about why it happened or what part you played in it.",
+        durationSeconds: 180,
+      },
+    ],
+  },
+  {
+    slug: "mindful-walk",
+    title: "Mindful walk",
+    summary: "A short walk where you pay attention to what you can see, hear and feel.",
+    activityType: "walking",
+    difficulty: "easy",
+    tags: ["outdoors", "movement", "mindfulness"],
+    targetEmotions: ["sad", "stressed", "tired", "irritable"],
+    steps: [
+      {
+        title: "Start walking",
+        instruction:
+          "Walk at an easy pace. Notice the feeling of each foot touching the ground.",
+        durationSeconds: 180,
+      },
+      {
+        title: "Look around",
+        instruction:
+          "Notice colours, shapes and movement around you, as if you were seeing the place for the first time.",
+        durationSeconds: 180,
+      },
+      {
+        title: "Listen",
+        instruction: "Pay attention to the sounds near you and far away.",
+        durationSeconds: 180,
+      },
+      {
+        title: "Head back",
+        instruction:
+          "On the way back, notice how your body feels and whether your mood has shifted at all.",
+        durationSeconds: 300,
+      },
+    ],
+  },
+  {
+    slug: "gentle-stretching",
+    title: "Gentle stretching",
+    summary: "A few slow stretches to wake up a tired body or wind down a tense one.",
+    activityType: "exercise",
+    difficulty: "easy",
+    tags: ["movement", "morning", "tension"],
+    targetEmotions: ["tired", "stressed", "bored"],
+    steps: [
+      {
+        title: "Neck rolls",
+        instruction: "Slowly roll your head in a half circle from shoulder to shoulder.",
+        durationSeconds: 60,
+      },
+      {
+        title: "Shoulder and chest opener",
+        instruction:
+          "Clasp your hands behind your back and gently lift them, opening your chest.",
+        durationSeconds: 60,
+      },
+      {
+        title: "Side stretch",
+        instruction:
+          "Reach one arm over your head and lean to the other side. Hold, then switch.",
+        durationSeconds: 60,
+      },
+      {
+        title: "Forward fold",
+        instruction:
+          "Bend forward from your hips with soft knees and let your arms hang. Come up slowly.",
+        durationSeconds: 60,
+      },
+    ],
+  },
+];
@@ -0,0 +1,192 @@
+import { Types } from "mongoose";
+import { ActivityGuide, IActivityGuide } from "../../models/ActivityGuide";
+import { GuidedRun, IGuidedRun } from "../../models/GuidedRun";
+import { Activity, IActivity } from "../../models/Activity";
+import { ActivityDifficulty, ActivityType } from "../../types/activity";
+import { MoodEmotion } from "../../types/mood";
+import { logger } from "../../utils/logger";
+import { DEFAULT_GUIDES } from "./defaults";
+
+export interface GuideFilter {
+  activityType?: ActivityType;
+  difficulty?: ActivityDifficulty;
+  tag?: string;
+  emotion?: MoodEmotion;
+  // Only guides that take at most this long
+  maxMinutes?: number;
+}
+
+// What the client needs to render a run
+export interface GuidedRunProgress {
+  runId: string;
+  slug: string;
+  title: string;
+  status: IGuidedRun["status"];
+  step: number;
+  totalSteps: number;
+  completedSteps: number[];
+  startedAt: Date;
+  completedAt?: Date;
+  activityId?: string;
+}
+
+let seeded: Promise<void> | null = null;
+
+/**
+ * Adds built-in guides missing from the collection, once per process.
+ * Existing documents (and edits to them) are left alone.
+ */
+export const ensureDefaultGuides = (): Promise<void> => {
+  if (!seeded) {
+    seeded = ActivityGuide.bulkWrite(
+      DEFAULT_GUIDES.map((guide) => ({
+        updateOne: {
+          filter: { slug: guide.slug },
+          update: { $setOnInsert: guide },
+          upsert: true,
+        },
+      }))
+    )
+      .then(() => undefined)
+      .catch((error) => {
+        // Try again on the next request
+        seeded = null;
+        logger.error("Error seeding activity guides:", error);
+      });
+  }
+  return seeded;
+};
+
+/**
+ * Total length of a guide in whole minutes
+ */
+export const guideMinutes = (guide: Pick<IActivityGuide, "steps">): number =>
+  Math.ceil(guide.steps.reduce((sum, step) => sum + step.durationSeconds, 0) / 60);
+
+export const listGuides = async (
+  filter: GuideFilter = {}
+): Promise<IActivityGuide[]> => {
+  await ensureDefaultGuides();
+
+  const query: Record<string, unknown> = { active: true };
+  if (filter.activityType) query.activityType = filter.activityType;
+  if (filter.difficulty) query.difficulty = filter.difficulty;
+  if (filter.tag) query.tags = filter.tag;
+  if (filter.emotion) query.targetEmotions = filter.emotion;
+
+  const guides = await ActivityGuide.find(query).sort({ title: 1 });
+  return filter.maxMinutes === undefined
+    ? guides
+    : guides.filter((guide) => guideMinutes(guide) <= filter.maxMinutes!);
+};
+
+export const findGuide = async (slug: string): Promise<IActivityGuide | null> => {
+  await ensureDefaultGuides();
+  return ActivityGuide.findOne({ slug, active: true });
+};
+
+export const toRunProgress = (run: IGuidedRun): GuidedRunProgress => ({
+  runId: run.id,
+  slug: run.slug,
+  title: run.title,
+  status: run.status,
+  step: run.currentStep,
+  totalSteps: run.totalSteps,
+  completedSteps: run.completedSteps,
+  startedAt: run.startedAt,
+  ...(run.completedAt && { completedAt: run.completedAt }),
+  ...(run.activityId && { activityId: run.activityId.toString() }),
+});
+
+export const startRun = (
+  userId: Types.ObjectId | string,
+  guide: IActivityGuide,
+  moodBefore?: number
+): Promise<IGuidedRun> =>
+  GuidedRun.create({
+    userId,
+    guideId: guide._id,
+    slug: guide.slug,
+    title: guide.title,
+    totalSteps: guide.steps.length,
+    ...(moodBefore !== undefined && { moodBefore }),
+    startedAt: new Date(),
+  });
+
+/**
+ * Marks a step as done and moves the run past it. Steps can be done out of
+ * order (e.g. skipped and come back to).
+ */
+export const recordStep = async (run: IGuidedRun, step: number): Promise<IGuidedRun> => {
+  if (!run.completedSteps.includes(step)) {
+    run.completedSteps = [...run.completedSteps, step].sort((a, b) => a - b);
+  }
+  run.currentStep = Math.min(run.totalSteps, Math.max(run.currentStep, step + 1));
+  return run.save();
+};
+
+/**
+ * Finishes the run and logs it as a completed Activity linked to the guide.
+ * The run is claimed with a conditional update first, so two concurrent
+ * requests can't both log it; returns null when it was already completed.
+ * The duration is the time actually spent, capped at twice the guide's
+ * length so a run left open for hours doesn't skew the stats.
+ */
+export const completeRun = async (
+  run: IGuidedRun,
+  guide: IActivityGuide,
+  details: {
+    moodAfter?: number;
+    feedback?: string;
+    difficulty?: ActivityDifficulty;
+  } = {}
+): Promise<{ run: IGuidedRun; activity: IActivity } | null> => {
+  const completedAt = new Date();
+  const claimed = await GuidedRun.findOneAndUpdate(
+    { _id: run._id, userId: run.userId, status: "in_progress" },
+    {
+      $set: {
+        status: "completed",
+        completedAt,
+        ...(details.moodAfter !== undefined && { moodAfter: details.moodAfter }),
+      },
+    },
+    { new: true }
+  );
+  if (!claimed) return null;
+
+  const elapsedMinutes = Math.round(
+    (completedAt.getTime() - claimed.startedAt.getTime()) / 60_000
+  );
+  const duration = Math.max(1, Math.min(elapsedMinutes, guideMinutes(guide) * 2));
+
+  let activity: IActivity;
+  try {
+    activity = await Activity.create({
+      userId: claimed.userId,
+      type: guide.activityType,
+      name: guide.title,
+      description: guide.summary,
+      duration,
+      difficulty: details.difficulty || guide.difficulty,
+      ...(details.feedback !== undefined && { feedback: details.feedback }),
+      ...(claimed.moodBefore !== undefined && { moodBefore: claimed.moodBefore }),
+      ...(details.moodAfter !== undefined && { moodAfter: details.moodAfter }),
+      status: "completed",
+      guideId: guide._id,
+      timestamp: completedAt,
+    });
+  } catch (error) {
+    // Release the claim so the user can try again
+    await GuidedRun.updateOne(
+      { _id: claimed._id },
+      { $set: { status: "in_progress" }, $unset: { completedAt: 1, moodAfter: 1 } }
+    );
+    throw error;
+  }
+
+  claimed.activityId = activity._id as Types.ObjectId;
+  await claimed.save();
+
+  return { run: claimed, activity };
+};
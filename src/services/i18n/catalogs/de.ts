@@ -0,0 +1,164 @@
+import { ChatCatalog } from "../../../types/language";
+import {
+  phrases,
+  questionOrPhrases,
+  wholeMessage,
+  negation,
+  clauseBreak,
+} from "../patterns";
+
+export const de: ChatCatalog = {
+  closings: [
+    "Pass gut auf dich auf. Schön, dass wir heute geredet haben.",
+    "Gern geschehen. Ich bin da, wann immer du mich brauchst.",
+    "Danke, dass du das mit mir geteilt hast. Sei nachsichtig mit dir.",
+    "Jederzeit. Ruh dich gut aus und komm wieder, wann du möchtest.",
+    "Schön, dass ich zuhören konnte. Alles Gute.",
+    "Ein Schritt nach dem anderen. Auch kleine Schritte zählen.",
+  ],
+  softCloseChecks: [
+    "Klingt so, als würden wir langsam zum Ende kommen. Gibt es noch etwas, das dich beschäftigt, oder passt es für jetzt?",
+    "Schön, dass es ein bisschen geholfen hat. Möchtest du noch über etwas anderes sprechen, oder lassen wir es für heute dabei?",
+    "Ich mache gern weiter, wenn dich noch etwas beschäftigt. Oder bist du für jetzt fertig?",
+  ],
+  emptyReply: "Ich bin für dich da. Was beschäftigt dich gerade?",
+  unsafeReply:
+    "Ich bin hier, um dir zuzuhören und dich in dem zu unterstützen, was du gerade durchmachst. Wenn es um etwas Ernstes geht, wende dich bitte an eine Vertrauensperson oder an Fachleute, die dir sofort helfen können.",
+  unavailableReply:
+    "Ich habe gerade Schwierigkeiten, meine Gedanken zu sortieren. Deine Nachricht ist gespeichert. " +
+    "Gib mir einen Moment und versuch es dann noch einmal – ich mache genau dort weiter, wo wir aufgehört haben.",
+  crisisMessage:
+    "Es tut mir wirklich leid, dass du das gerade durchmachst, und ich bin froh, dass du es mir erzählt hast. " +
+    "Deine Sicherheit ist jetzt das Wichtigste, und dabei kann ich allein nicht genug helfen. " +
+    "Bitte wende dich an einen dieser Dienste – sie sind kostenlos, vertraulich und genau dafür da. " +
+    "Wenn du in unmittelbarer Gefahr bist, ruf jetzt den Notruf an. Ich bin weiterhin da und höre dir zu.",
+  contact: { call: "Tel.", text: "SMS" },
+  endPatterns: {
+    farewell: phrases(
+      "tschüss?",
+      "auf wiedersehen",
+      "bis (bald|später|morgen|dann|zum nächsten mal)",
+      "gute nacht",
+      "mach['’]?s gut",
+      "ciao",
+      "ich muss (los|gehen|weg)"
+    ),
+    done: phrases(
+      "das (war['’]?s|ist alles)( für (jetzt|heute))?",
+      "ich bin fertig",
+      "keine weiteren fragen",
+      "passt für (jetzt|heute)"
+    ),
+    thanks: phrases("danke", "dankeschön", "vielen dank"),
+    acknowledgement: wholeMessage(
+      ["ok(ay)?", "alles klar", "gut", "verstanden", "passt", "super", "mach ich", "ich versuch['’]?s", "werde ich (machen|versuchen)"],
+      ["danke( schön)?", "vielen dank", "leo"]
+    ),
+    continuation: questionOrPhrases(
+      "aber",
+      "trotzdem",
+      "obwohl",
+      "jedoch",
+      "immer noch",
+      "was (ist|wenn)",
+      "wie (kann|soll) ich",
+      "kannst du",
+      "ich weiß (es )?nicht"
+    ),
+  },
+  crisisPatterns: {
+    rules: [
+      {
+        id: "de-intent-plan",
+        category: "suicidal_intent",
+        pattern: phrases(
+          "ich werde mich (heute( nacht)? )?(umbringen|töten)",
+          "ich bringe mich (heute( nacht)? )?um"
+        ),
+        score: 95,
+      },
+      {
+        id: "de-intent-goodbye-note",
+        category: "suicidal_intent",
+        pattern: phrases("(einen|meinen) abschiedsbrief"),
+        score: 95,
+      },
+      {
+        id: "de-ideation-explicit",
+        category: "suicidal_ideation",
+        pattern: phrases(
+          "(will|möchte) (lieber )?sterben",
+          "mich (umbringen|umzubringen|töten|zu töten)",
+          "suizid(al|gedanken)?",
+          "selbstmord(gedanken)?",
+          "mir (das )?leben (zu )?nehmen",
+          "mein leben (zu )?beenden",
+          "wäre (lieber|besser) tot"
+        ),
+        score: 80,
+        negatable: true,
+      },
+      {
+        id: "de-ideation-passive",
+        category: "suicidal_ideation",
+        pattern: phrases(
+          "(will|möchte) nicht mehr leben",
+          "keinen grund (mehr )?zu leben",
+          "wünschte,? ich wäre tot",
+          "lebensmüde",
+          "für immer verschwinden"
+        ),
+        score: 75,
+        negatable: true,
+      },
+      {
+        id: "de-self-harm",
+        category: "self_harm",
+        pattern: phrases(
+          "mich (selbst )?(verletzen|ritzen|schneiden|verbrennen)",
+          "ritze mich",
+          "selbstverletzung"
+        ),
+        score: 75,
+        negatable: true,
+      },
+      {
+        id: "de-harm-to-others",
+        category: "harm_to_others",
+        pattern: phrases("(werde|will) (ihn|sie|jemanden) (umbringen|töten|verletzen|erstechen)"),
+        score: 80,
+        negatable: true,
+      },
+      {
+        id: "de-abuse",
+        category: "abuse",
+        pattern: phrases("(er|sie) (schlägt|würgt|verletzt) mich", "werde (misshandelt|missbraucht)"),
+        score: 60,
+      },
+      {
+        id: "de-hopelessness",
+        category: "hopelessness",
+        pattern: phrases(
+          "hoffnungslos",
+          "keinen ausweg",
+          "ich kann nicht mehr",
+          "(bin|wäre) (nur )?eine last",
+          "allen ginge es besser ohne mich"
+        ),
+        score: 55,
+        negatable: true,
+      },
+      {
+        id: "de-distress",
+        category: "distress",
+        pattern: phrases("wertlos", "innerlich leer", "(breche|falle) zusammen"),
+        score: 30,
+        negatable: true,
+      },
+    ],
+    // "Nicht" mostly follows the verb, so negated phrases rarely match at
+    // all; this covers "nicht suizidal", "keine Suizidgedanken"
+    negation: negation(["nicht", "nie", "niemals", "kein(e|en)?"], ["wirklich", "mehr"]),
+    clauseBreak: clauseBreak("aber", "und", "sondern"),
+  },
+};
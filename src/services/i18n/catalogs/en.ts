@@ -0,0 +1,59 @@
+import { ChatCatalog } from "../../../types/language";
+import { INPUT_LEXICON } from "../../crisis/lexicon";
+import { clauseBreak, negation } from "../patterns";
+
+export const en: ChatCatalog = {
+  closings: [
+    "Take care — really glad we talked today.",
+    "You're welcome. I'm here anytime you need me.",
+    "Thanks for sharing. Be gentle with yourself.",
+    "Anytime. Rest well and come back when you want.",
+    "Proud of you for opening up. See you soon.",
+    "Glad I could listen. Take good care.",
+    "Happy to help. Remember, small steps make a big difference.",
+    "Wishing you well. Come back whenever you need to talk.",
+    "Take things one day at a time. You've got this.",
+    "I'm glad you're willing to try that. Be patient with yourself.",
+    "Sounds like a plan. Remember to be kind to yourself along the way.",
+    "I'm here whenever you need support. Take it easy.",
+  ],
+  softCloseChecks: [
+    "Sounds like we might be wrapping up — is there anything else on your mind, or are you good for now?",
+    "Glad that helped a bit. Anything else you want to talk through, or shall we leave it here for today?",
+    "I'm happy to keep going if there's more on your mind. Or are you all set for now?",
+  ],
+  emptyReply: "I'm here with you. What's been on your mind?",
+  unsafeReply:
+    "I'm here to listen and support you with what you're going through. If you're dealing with something serious, please reach out to a trusted person or professional who can provide immediate help.",
+  unavailableReply:
+    "I'm having trouble putting my thoughts together right now. Your message is saved. " +
+    "Give me a moment and try again, and I'll pick up right where we left off.",
+  crisisMessage:
+    "I'm really sorry you're going through this, and I'm glad you told me. " +
+    "Your safety matters most right now, and this is more than I can help with on my own. " +
+    "Please reach out to one of these services — they're free, confidential and there for exactly this. " +
+    "If you're in immediate danger, call your local emergency number now. I'm still here to listen.",
+  contact: { call: "call", text: "text" },
+  // Patterns use word boundaries so "ty" no longer matches inside "anxiety"
+  endPatterns: {
+    farewell:
+      /\b(bye|goodbye|good ?night|see (you|ya)|talk (to you )?(later|soon|tomorrow)|cya|take care|gotta go)\b/i,
+    done: /\b((i'?m|i am) (done|all set|good)( for (now|today|tonight)| now)?|that'?s (all|it)( for (now|today))?|no (more|further) questions|done (talking|for (now|today)))\b/i,
+    thanks: /\b(thanks|thank you|thx|ty|appreciate (it|you|that))\b/i,
+    acknowledgement:
+      /^(ok(ay)?|alright|got it|sounds good|makes sense|will do|sure( thing)?|understood|i('ll| will) (try|do) (that|it|this))\b[\s.!,]*(thanks|thank you|leo)?[\s.!]*$/i,
+    continuation:
+      /\?|\b(but|still|though|although|however|what if|how (do|can|should) i|can you|i (just )?don'?t know)\b/i,
+  },
+  crisisPatterns: {
+    rules: INPUT_LEXICON,
+    negation: negation(
+      ["not", "never", "no longer", "don'?t", "didn'?t", "wouldn'?t", "won'?t"],
+      [
+        "really", "actually", "even", "ever", "feel(ing)?", "being", "going to", "gonna",
+        "trying to", "planning (to|on)", "want(ing)? to", "wanna", "about to",
+      ]
+    ),
+    clauseBreak: clauseBreak("but", "and"),
+  },
+};
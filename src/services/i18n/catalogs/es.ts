@@ -0,0 +1,170 @@
+import { ChatCatalog } from "../../../types/language";
+import {
+  phrases,
+  questionOrPhrases,
+  wholeMessage,
+  negation,
+  clauseBreak,
+} from "../patterns";
+
+export const es: ChatCatalog = {
+  closings: [
+    "Cuídate mucho. Me alegra de verdad que hayamos hablado hoy.",
+    "De nada. Aquí estoy cuando me necesites.",
+    "Gracias por compartirlo conmigo. Trátate con cariño.",
+    "Cuando quieras. Descansa y vuelve cuando lo necesites.",
+    "Me alegra haberte escuchado. Cuídate.",
+    "Paso a paso. Los pequeños pasos también cuentan.",
+  ],
+  softCloseChecks: [
+    "Parece que estamos terminando. ¿Hay algo más que te preocupe, o lo dejamos aquí por ahora?",
+    "Me alegra que te haya ayudado un poco. ¿Quieres hablar de algo más, o lo dejamos aquí por hoy?",
+    "Puedo seguir si tienes algo más en mente. ¿O ya estás bien por ahora?",
+  ],
+  emptyReply: "Aquí estoy contigo. ¿Qué tienes en mente?",
+  unsafeReply:
+    "Estoy aquí para escucharte y acompañarte en lo que estás viviendo. Si estás pasando por algo serio, por favor acude a una persona de confianza o a un profesional que pueda ayudarte de inmediato.",
+  unavailableReply:
+    "Ahora mismo me está costando ordenar mis ideas. Tu mensaje está guardado. " +
+    "Dame un momento e inténtalo de nuevo, y seguiremos justo donde lo dejamos.",
+  crisisMessage:
+    "Siento mucho que estés pasando por esto, y me alegra que me lo hayas contado. " +
+    "Ahora mismo lo más importante es tu seguridad, y esto es más de lo que puedo ayudarte yo solo. " +
+    "Por favor, contacta con alguno de estos servicios: son gratuitos, confidenciales y están precisamente para esto. " +
+    "Si estás en peligro inmediato, llama ahora al número de emergencias de tu zona. Sigo aquí para escucharte.",
+  contact: { call: "llama al", text: "escribe al" },
+  endPatterns: {
+    farewell: phrases(
+      "adi[oó]s",
+      "chao",
+      "chau",
+      "hasta (luego|pronto|mañana|la próxima)",
+      "buenas noches",
+      "nos vemos",
+      "cu[ií]date",
+      "me tengo que ir"
+    ),
+    done: phrases(
+      "(eso es|es) todo( por (ahora|hoy))?",
+      "ya (terminé|acabé)",
+      "(estoy|quedo) bien por (ahora|hoy)",
+      "no tengo más preguntas",
+      "nada más por (ahora|hoy)"
+    ),
+    thanks: phrases("gracias", "te lo agradezco"),
+    acknowledgement: wholeMessage(
+      ["vale", "ok(ay)?", "de acuerdo", "entendido", "perfecto", "genial", "claro", "lo intentaré", "lo haré"],
+      ["(muchas )?gracias", "leo"]
+    ),
+    continuation: questionOrPhrases(
+      "pero",
+      "aunque",
+      "todavía",
+      "aún",
+      "sin embargo",
+      "qué pasa si",
+      "cómo (puedo|hago|debería)",
+      "puedes",
+      "no (lo )?sé"
+    ),
+  },
+  crisisPatterns: {
+    rules: [
+      {
+        id: "es-intent-plan",
+        category: "suicidal_intent",
+        pattern: phrases(
+          "voy a (matarme|suicidarme|quitarme la vida)",
+          "me voy a (matar|suicidar|quitar la vida)"
+        ),
+        score: 95,
+        negatable: true,
+      },
+      {
+        id: "es-intent-goodbye-note",
+        category: "suicidal_intent",
+        pattern: phrases("(escribí|estoy escribiendo|dejé) (una|mi) (carta|nota) de (despedida|suicidio)"),
+        score: 95,
+      },
+      {
+        id: "es-ideation-explicit",
+        category: "suicidal_ideation",
+        pattern: phrases(
+          "quiero (morir(me)?|matarme|suicidarme)",
+          "me quiero (morir|matar|suicidar)",
+          "(ganas de|pienso en) (morir(me)?|matarme|suicidarme)",
+          "suicid(arme|io|a)",
+          "quitarme la vida",
+          "(estaría|estaria) mejor muert[oa]"
+        ),
+        score: 80,
+        negatable: true,
+      },
+      {
+        id: "es-ideation-passive",
+        category: "suicidal_ideation",
+        pattern: phrases(
+          "no quiero (vivir|seguir viviendo|existir|despertar(me)?)",
+          "no tengo (razones|motivos) para vivir",
+          "ojalá (estuviera|estuviese) muert[oa]",
+          "desaparecer para siempre"
+        ),
+        score: 75,
+        negatable: true,
+      },
+      {
+        id: "es-self-harm",
+        category: "self_harm",
+        pattern: phrases(
+          "(hacerme|me hago|me hice) daño",
+          "(cortarme|lastimarme|quemarme)",
+          "me (corto|corté|lastimo|quemo)",
+          "autolesi(ón|ones|onarme)"
+        ),
+        score: 75,
+        negatable: true,
+      },
+      {
+        id: "es-harm-to-others",
+        category: "harm_to_others",
+        pattern: phrases("(voy a|quiero) (matar|lastimar|apuñalar) a (alguien|él|ella|ellos|ellas)"),
+        score: 80,
+        negatable: true,
+      },
+      {
+        id: "es-abuse",
+        category: "abuse",
+        pattern: phrases(
+          "me (pega|golpea|maltrata|ahorca)",
+          "(sufro|estoy sufriendo) (maltrato|abusos?)"
+        ),
+        score: 60,
+      },
+      {
+        id: "es-hopelessness",
+        category: "hopelessness",
+        pattern: phrases(
+          "sin esperanza",
+          "no (hay|tengo|veo) salida",
+          "no puedo más",
+          "(soy|me siento) una carga",
+          "(todos|todo el mundo) estar[ií]an? mejor sin mí"
+        ),
+        score: 55,
+        negatable: true,
+      },
+      {
+        id: "es-distress",
+        category: "distress",
+        pattern: phrases("no valgo nada", "vac[ií][oa] por dentro", "me estoy (derrumbando|desmoronando)"),
+        score: 30,
+        negatable: true,
+      },
+    ],
+    negation: negation(
+      ["no", "nunca", "jamás", "ya no"],
+      ["realmente", "de verdad", "me", "voy a", "quiero", "pienso", "estoy"]
+    ),
+    clauseBreak: clauseBreak("pero", "y", "sino"),
+  },
+};
@@ -0,0 +1,162 @@
+import { ChatCatalog } from "../../../types/language";
+import {
+  phrases,
+  questionOrPhrases,
+  wholeMessage,
+  negation,
+  clauseBreak,
+} from "../patterns";
+
+export const fr: ChatCatalog = {
+  closings: [
+    "Prends soin de toi. Je suis content qu'on ait parlé aujourd'hui.",
+    "Avec plaisir. Je suis là quand tu en as besoin.",
+    "Merci de ta confiance. Vas-y doucement avec toi-même.",
+    "Quand tu veux. Repose-toi bien et reviens quand tu le souhaites.",
+    "Content d'avoir pu t'écouter. À bientôt.",
+    "Un pas après l'autre. Les petits pas comptent aussi.",
+  ],
+  softCloseChecks: [
+    "On dirait qu'on arrive au bout. Y a-t-il autre chose qui te préoccupe, ou on s'arrête là pour le moment ?",
+    "Content que ça ait pu t'aider un peu. Tu veux parler d'autre chose, ou on en reste là pour aujourd'hui ?",
+    "Je peux continuer si tu as autre chose en tête. Ou c'est bon pour toi pour l'instant ?",
+  ],
+  emptyReply: "Je suis là avec toi. Qu'est-ce qui te préoccupe ?",
+  unsafeReply:
+    "Je suis là pour t'écouter et te soutenir dans ce que tu traverses. Si tu vis quelque chose de grave, n'hésite pas à contacter une personne de confiance ou un professionnel qui pourra t'aider tout de suite.",
+  unavailableReply:
+    "J'ai du mal à rassembler mes idées pour le moment. Ton message est enregistré. " +
+    "Laisse-moi un instant et réessaie, on reprendra là où on s'était arrêtés.",
+  crisisMessage:
+    "Je suis vraiment désolé que tu traverses ça, et je suis content que tu m'en aies parlé. " +
+    "Ta sécurité est ce qui compte le plus en ce moment, et c'est plus que ce que je peux gérer seul. " +
+    "Contacte l'un de ces services : ils sont gratuits, confidentiels et là exactement pour ça. " +
+    "Si tu es en danger immédiat, appelle tout de suite le numéro d'urgence local. Je suis toujours là pour t'écouter.",
+  contact: { call: "appelle le", text: "envoie un SMS au" },
+  endPatterns: {
+    farewell: phrases(
+      "au revoir",
+      "bonne (nuit|soirée|journée)",
+      "à (plus( tard)?|bientôt|demain|la prochaine)",
+      "ciao",
+      "je dois (y aller|partir|filer)"
+    ),
+    done: phrases(
+      "c['’]est tout( pour (l['’]instant|le moment|aujourd['’]hui))?",
+      "j['’]ai (fini|terminé)",
+      "ça (ira|va) pour (l['’]instant|le moment|aujourd['’]hui)",
+      "pas d['’]autres? questions?"
+    ),
+    thanks: phrases("merci", "je te remercie"),
+    acknowledgement: wholeMessage(
+      ["d['’]accord", "ok(ay)?", "ça marche", "entendu", "compris", "parfait", "super", "je vais essayer", "je vais le faire"],
+      ["merci( beaucoup)?", "leo"]
+    ),
+    continuation: questionOrPhrases(
+      "mais",
+      "pourtant",
+      "quand même",
+      "toujours",
+      "et si",
+      "comment (je|faire|puis-je|dois-je)",
+      "tu peux",
+      "je (ne )?sais pas"
+    ),
+  },
+  crisisPatterns: {
+    rules: [
+      {
+        id: "fr-intent-plan",
+        category: "suicidal_intent",
+        pattern: phrases("je vais (me tuer|me suicider|mettre fin à (mes jours|ma vie))"),
+        score: 95,
+      },
+      {
+        id: "fr-intent-goodbye-note",
+        category: "suicidal_intent",
+        pattern: phrases("(j'ai écrit|j'écris|j'ai laissé) (une|ma) lettre d'adieu"),
+        score: 95,
+      },
+      {
+        id: "fr-ideation-explicit",
+        category: "suicidal_ideation",
+        pattern: phrases(
+          "(veux|voudrais|envie de|pense à) (mourir|me tuer|me suicider|en finir)",
+          "me suicider",
+          "suicidaire",
+          "mettre fin à (mes jours|ma vie)",
+          "serais mieux mort(e)?"
+        ),
+        score: 80,
+        negatable: true,
+      },
+      {
+        id: "fr-ideation-passive",
+        category: "suicidal_ideation",
+        pattern: phrases(
+          "(aucune|plus de) raison de vivre",
+          "(veux|voudrais) plus vivre",
+          "plus envie de vivre",
+          "j'aimerais être mort(e)?",
+          "disparaître pour toujours"
+        ),
+        score: 75,
+        negatable: true,
+      },
+      {
+        id: "fr-self-harm",
+        category: "self_harm",
+        pattern: phrases(
+          "me (faire du mal|blesser|couper|scarifier|mutiler)",
+          "automutil(ation|er)",
+          "scarification"
+        ),
+        score: 75,
+        negatable: true,
+      },
+      {
+        id: "fr-harm-to-others",
+        category: "harm_to_others",
+        pattern: phrases("(vais|veux) (le|la|les) (tuer|poignarder|blesser)", "(vais|veux) tuer quelqu'un"),
+        score: 80,
+        negatable: true,
+      },
+      {
+        id: "fr-abuse",
+        category: "abuse",
+        pattern: phrases(
+          "(il|elle|ils|elles) me (frappe|frappent|bat|battent|étrangle|fait du mal)",
+          "je suis (battue?|maltraitée?)"
+        ),
+        score: 60,
+      },
+      {
+        id: "fr-hopelessness",
+        category: "hopelessness",
+        pattern: phrases(
+          "sans (issue|espoir)",
+          "désespérée?",
+          "j'en peux plus",
+          "n'en peux plus",
+          "(je suis|suis) un fardeau",
+          "tout le monde serait mieux sans moi"
+        ),
+        score: 55,
+        negatable: true,
+      },
+      {
+        id: "fr-distress",
+        category: "distress",
+        pattern: phrases("je ne vaux rien", "vide à l'intérieur", "je craque", "je m'effondre"),
+        score: 30,
+        negatable: true,
+      },
+    ],
+    // "ne" alone doesn't negate: "je ne veux plus vivre"
+    negation: negation(
+      ["pas", "jamais", "aucunement"],
+      ["vraiment", "du tout", "envie de", "l'intention de", "me"]
+    ),
+    clauseBreak: clauseBreak("mais", "et"),
+  },
+};
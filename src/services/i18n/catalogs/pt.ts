@@ -0,0 +1,166 @@
+import { ChatCatalog } from "../../../types/language";
+import {
+  phrases,
+  questionOrPhrases,
+  wholeMessage,
+  negation,
+  clauseBreak,
+} from "../patterns";
+
+export const pt: ChatCatalog = {
+  closings: [
+    "Se cuida. Fico muito feliz que a gente tenha conversado hoje.",
+    "De nada. Estou aqui sempre que você precisar.",
+    "Obrigado por confiar em mim. Vá com calma.",
+    "Quando quiser. Descanse bem e volte quando sentir vontade.",
+    "Que bom que pude ouvir você. Cuide-se.",
+    "Um passo de cada vez. Pequenos passos também contam.",
+  ],
+  softCloseChecks: [
+    "Parece que estamos encerrando. Tem mais alguma coisa te preocupando, ou podemos parar por aqui por enquanto?",
+    "Que bom que ajudou um pouco. Quer conversar sobre mais alguma coisa, ou deixamos por aqui hoje?",
+    "Posso continuar se tiver mais alguma coisa na sua cabeça. Ou você já está bem por enquanto?",
+  ],
+  emptyReply: "Estou aqui com você. O que tem passado pela sua cabeça?",
+  unsafeReply:
+    "Estou aqui para ouvir e apoiar você no que está passando. Se estiver lidando com algo sério, procure uma pessoa de confiança ou um profissional que possa ajudar imediatamente.",
+  unavailableReply:
+    "Estou com dificuldade para organizar meus pensamentos agora. Sua mensagem foi salva. " +
+    "Espere um momento e tente de novo, e eu continuo exatamente de onde paramos.",
+  crisisMessage:
+    "Sinto muito que você esteja passando por isso, e fico feliz que tenha me contado. " +
+    "Sua segurança é o mais importante agora, e isso é mais do que eu consigo ajudar sozinho. " +
+    "Por favor, entre em contato com um destes serviços — eles são gratuitos, confidenciais e existem exatamente para isso. " +
+    "Se você estiver em perigo imediato, ligue agora para o número de emergência local. Continuo aqui para ouvir você.",
+  contact: { call: "ligue", text: "mande SMS para" },
+  endPatterns: {
+    farewell: phrases(
+      "tchau",
+      "adeus",
+      "até (logo|mais|amanhã|breve|a próxima)",
+      "boa noite",
+      "se cuida",
+      "cuide-se",
+      "(tenho|preciso) que ir",
+      "preciso ir"
+    ),
+    done: phrases(
+      "(é|era) só isso( por (agora|hoje))?",
+      "já (terminei|acabei)",
+      "por hoje é só",
+      "(estou|tô) bem por (agora|hoje)",
+      "sem mais perguntas"
+    ),
+    thanks: phrases("obrigad[oa]", "valeu", "agradeço"),
+    acknowledgement: wholeMessage(
+      ["ok(ay)?", "beleza", "certo", "entendi", "combinado", "perfeito", "pode deixar", "vou tentar", "vou fazer isso"],
+      ["(muito )?obrigad[oa]", "valeu", "leo"]
+    ),
+    continuation: questionOrPhrases(
+      "mas",
+      "ainda",
+      "porém",
+      "embora",
+      "e se",
+      "como (eu )?(posso|faço|devo)",
+      "você pode",
+      "não sei"
+    ),
+  },
+  crisisPatterns: {
+    rules: [
+      {
+        id: "pt-intent-plan",
+        category: "suicidal_intent",
+        pattern: phrases(
+          "vou (me matar|me suicidar|matar-me|suicidar-me)",
+          "vou (acabar com|tirar) (a )?minha (própria )?vida"
+        ),
+        score: 95,
+        negatable: true,
+      },
+      {
+        id: "pt-intent-goodbye-note",
+        category: "suicidal_intent",
+        pattern: phrases("(escrevi|deixei|estou escrevendo) (uma|minha) carta de despedida"),
+        score: 95,
+      },
+      {
+        id: "pt-ideation-explicit",
+        category: "suicidal_ideation",
+        pattern: phrases(
+          "(quero|queria|vontade de|penso em|pensando em) (morrer|me matar|me suicidar|matar-me|suicidar-me)",
+          "suicid(ar|io|a)",
+          "(tirar|acabar com) (a )?minha (própria )?vida",
+          "(estaria|seria) melhor mort[oa]"
+        ),
+        score: 80,
+        negatable: true,
+      },
+      {
+        id: "pt-ideation-passive",
+        category: "suicidal_ideation",
+        pattern: phrases(
+          "não quero (mais )?viver",
+          "(nenhum|sem) motivo para viver",
+          "queria estar mort[oa]",
+          "sumir para sempre"
+        ),
+        score: 75,
+        negatable: true,
+      },
+      {
+        id: "pt-self-harm",
+        category: "self_harm",
+        pattern: phrases(
+          "me (machucar|cortar|ferir|queimar)",
+          "(machucar|cortar|ferir)-me",
+          "automutila(ção|r)",
+          "autolesão"
+        ),
+        score: 75,
+        negatable: true,
+      },
+      {
+        id: "pt-harm-to-others",
+        category: "harm_to_others",
+        pattern: phrases("vou (matar|machucar|esfaquear) (alguém|ele|ela|eles|elas)"),
+        score: 80,
+        negatable: true,
+      },
+      {
+        id: "pt-abuse",
+        category: "abuse",
+        pattern: phrases(
+          "(ele|ela) me (bate|agride|machuca|enforca)",
+          "sofro (abuso|violência|maus-tratos)"
+        ),
+        score: 60,
+      },
+      {
+        id: "pt-hopelessness",
+        category: "hopelessness",
+        pattern: phrases(
+          "sem (saída|esperança)",
+          "não aguento mais",
+          "sou um (peso|fardo)",
+          "todos estariam melhor sem mim"
+        ),
+        score: 55,
+        negatable: true,
+      },
+      {
+        id: "pt-distress",
+        category: "distress",
+        pattern: phrases("não valho nada", "vazi[oa] por dentro", "(estou )?desmoronando"),
+        score: 30,
+        negatable: true,
+      },
+    ],
+    negation: negation(
+      ["não", "nunca", "jamais"],
+      ["realmente", "quero", "vou", "penso em", "estou", "me", "mais"]
+    ),
+    clauseBreak: clauseBreak("mas", "e", "porém"),
+  },
+};
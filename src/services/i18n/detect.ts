@@ -0,0 +1,77 @@
+import { LanguageCode } from "../../types/language";
+
+// Frequent short words; a handful is enough to tell these languages apart
+const STOPWORDS: Record<LanguageCode, string[]> = {
+  en: [
+    "the", "and", "is", "are", "i", "you", "it", "to", "of", "that", "my",
+    "me", "what", "this", "with", "have", "was", "not", "but", "for", "feel",
+    "just", "don't", "i'm", "it's", "so", "really", "thanks", "bye", "hi",
+  ],
+  es: [
+    "el", "la", "los", "las", "que", "y", "es", "en", "un", "una", "no",
+    "me", "mi", "por", "con", "para", "pero", "muy", "estoy", "siento",
+    "qué", "cómo", "gracias", "hola", "tengo", "está", "lo", "yo", "también", "porque",
+  ],
+  fr: [
+    "le", "la", "les", "et", "est", "je", "tu", "pas", "des", "un", "une",
+    "que", "qui", "ne", "mais", "suis", "mon", "ma", "avec", "pour", "très",
+    "merci", "bonjour", "c'est", "j'ai", "moi", "ça", "vraiment", "parce", "sens",
+  ],
+  de: [
+    "der", "die", "das", "und", "ist", "ich", "du", "nicht", "ein", "eine",
+    "mit", "auf", "für", "aber", "sehr", "mich", "mir", "bin", "habe", "es",
+    "zu", "auch", "danke", "hallo", "was", "wie", "wirklich", "fühle", "weil", "heute",
+  ],
+  pt: [
+    "o", "os", "as", "e", "é", "eu", "você", "não", "do", "da", "um",
+    "uma", "que", "com", "para", "mas", "muito", "estou", "meu", "minha",
+    "obrigado", "obrigada", "olá", "tenho", "isso", "tô", "também", "porque", "sinto", "hoje",
+  ],
+};
+
+// Letters that only (or mostly) show up in some of the languages
+const LETTER_HINTS: [RegExp, LanguageCode[]][] = [
+  [/[ñ¿¡]/u, ["es"]],
+  [/[ãõ]/u, ["pt"]],
+  [/ç/u, ["pt", "fr"]],
+  [/[ßäöü]/u, ["de"]],
+  [/[èêëœù]/u, ["fr"]],
+];
+
+export interface LanguageDetection {
+  language: LanguageCode;
+  // 0-1, how far ahead of the runner-up the language is
+  confidence: number;
+}
+
+/**
+ * Guesses which supported language a message is written in from common
+ * words and letters. Returns null when the text is too short or too
+ * mixed to tell.
+ */
+export const detectLanguage = (text: string): LanguageDetection | null => {
+  const lower = text.toLowerCase().replace(/’/g, "'");
+  const words = lower.match(/[\p{L}']+/gu) || [];
+  if (words.length === 0) return null;
+
+  const scores = (Object.keys(STOPWORDS) as LanguageCode[]).map((language) => {
+    const stopwords = new Set(STOPWORDS[language]);
+    let score = words.filter((word) => stopwords.has(word)).length;
+    for (const [pattern, languages] of LETTER_HINTS) {
+      if (languages.includes(language) && pattern.test(lower)) score += 1;
+    }
+    return { language, score };
+  });
+  scores.sort((a, b) => b.score - a.score);
+
+  const [best, second] = scores;
+  const clearWinner =
+    (best.score >= 2 && best.score >= second.score * 1.5) ||
+    (best.score >= 1 && second.score === 0);
+  if (!clearWinner) return null;
+
+  return {
+    language: best.language,
+    confidence: Math.round(((best.score - second.score) / best.score) * 100) / 100,
+  };
+};
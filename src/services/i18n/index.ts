@@ -0,0 +1,44 @@
+import { LanguageCode } from "../../types/language";
+import { detectLanguage } from "./detect";
+import { DEFAULT_LANGUAGE, languageFromLocale } from "./languages";
+
+export {
+  DEFAULT_LANGUAGE,
+  listLanguages,
+  isLanguageCode,
+  getLanguage,
+  getCatalog,
+  languageFromLocale,
+  pickLine,
+} from "./languages";
+export { detectLanguage } from "./detect";
+export type { LanguageDetection } from "./detect";
+
+export interface LanguageChoice {
+  // What Leo answers in
+  language: LanguageCode;
+  // What the message looked like, when it was clear enough to tell
+  detected: LanguageCode | null;
+}
+
+/**
+ * Language for a turn: the user's preference if set, otherwise the
+ * message's own language, then the conversation's so far, then the
+ * client locale.
+ */
+export const resolveLanguage = (options: {
+  message: string;
+  preferred?: LanguageCode;
+  conversation?: LanguageCode;
+  locale?: string;
+}): LanguageChoice => {
+  const detected = detectLanguage(options.message)?.language || null;
+  const language =
+    options.preferred ||
+    detected ||
+    options.conversation ||
+    languageFromLocale(options.locale) ||
+    DEFAULT_LANGUAGE;
+
+  return { language, detected };
+};
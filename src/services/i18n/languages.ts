@@ -0,0 +1,46 @@
+import { ChatCatalog, Language, LanguageCode } from "../../types/language";
+import { en } from "./catalogs/en";
+import { es } from "./catalogs/es";
+import { fr } from "./catalogs/fr";
+import { de } from "./catalogs/de";
+import { pt } from "./catalogs/pt";
+
+export const DEFAULT_LANGUAGE: LanguageCode = "en";
+
+const LANGUAGES: Language[] = [
+  { code: "en", name: "English", nativeName: "English" },
+  { code: "es", name: "Spanish", nativeName: "Español" },
+  { code: "fr", name: "French", nativeName: "Français" },
+  { code: "de", name: "German", nativeName: "Deutsch" },
+  { code: "pt", name: "Portuguese", nativeName: "Português" },
+];
+
+const CATALOGS: Record<LanguageCode, ChatCatalog> = { en, es, fr, de, pt };
+
+export const listLanguages = (): Language[] => LANGUAGES;
+
+export const isLanguageCode = (value: unknown): value is LanguageCode =>
+  typeof value === "string" && LANGUAGES.some((language) => language.code === value);
+
+export const getLanguage = (code: LanguageCode): Language =>
+  LANGUAGES.find((language) => language.code === code) || LANGUAGES[0];
+
+/**
+ * Canned text for a language, English when it isn't supported
+ */
+export const getCatalog = (code?: string): ChatCatalog =>
+  isLanguageCode(code) ? CATALOGS[code] : CATALOGS[DEFAULT_LANGUAGE];
+
+/**
+ * Pulls a supported language out of a locale tag ("pt-BR" -> "pt")
+ */
+export const languageFromLocale = (locale?: string): LanguageCode | undefined => {
+  const language = locale?.split(/[-_]/)[0]?.toLowerCase();
+  return isLanguageCode(language) ? language : undefined;
+};
+
+/**
+ * Picks a random line from a catalog list
+ */
+export const pickLine = (lines: string[]): string =>
+  lines[Math.floor(Math.random() * lines.length)];
@@ -0,0 +1,39 @@
+/**
+ * Case-insensitive pattern matching any of the phrases as whole words.
+ * `\b` only knows ASCII letters, so accented words ("adiós", "à bientôt")
+ * need Unicode-aware boundaries instead.
+ */
+export const phrases = (...alternatives: string[]): RegExp =>
+  new RegExp(`(?<![\\p{L}\\p{N}])(${alternatives.join("|")})(?![\\p{L}\\p{N}])`, "iu");
+
+/**
+ * Pattern for a message made up only of one of the phrases, optionally
+ * followed by a thank-you or Leo's name
+ */
+export const wholeMessage = (alternatives: string[], trailing: string[]): RegExp =>
+  new RegExp(
+    `^(${alternatives.join("|")})[\\s.!,]*(${trailing.join("|")})?[\\s.!]*$`,
+    "iu"
+  );
+
+/**
+ * Matches a question mark (including Spanish "¿") or any of the phrases
+ */
+export const questionOrPhrases = (...alternatives: string[]): RegExp =>
+  new RegExp(`[?¿]|${phrases(...alternatives).source}`, "iu");
+
+/**
+ * Pattern for a negator at the end of a clause, optionally followed by up
+ * to two helper words ("no quiero", "not going to")
+ */
+export const negation = (negators: string[], helpers: string[]): RegExp =>
+  new RegExp(
+    `(?<![\\p{L}\\p{N}])(${negators.join("|")})\\s+((${helpers.join("|")})\\s+){0,2}$`,
+    "iu"
+  );
+
+/**
+ * Matches clause-ending punctuation or any of the joining words
+ */
+export const clauseBreak = (...words: string[]): RegExp =>
+  new RegExp(`[,;.!?]|(?<![\\p{L}\\p{N}])(?:${words.join("|")})(?![\\p{L}\\p{N}])`, "iu");
@@ -0,0 +1,97 @@
+import { getLLMProvider, getModel, LLMMessage, LLMUsageOwner } from "../llm";
+import { MessageAnalysis, TherapyAgentMemory } from "../types/inngest";
+import { logger } from "../utils/logger";
+import { renderPrompt } from "./prompts";
+
+export interface AnalysisContext {
+  history?: LLMMessage[];
+  memory?: TherapyAgentMemory;
+  goals?: string[];
+  // Who the analysis tokens are attributed to
+  owner?: LLMUsageOwner;
+}
+
+export const NEUTRAL_ANALYSIS: MessageAnalysis = {
+  emotionalState: "neutral",
+  themes: [],
+  riskLevel: 0,
+  recommendedApproach: "supportive",
+  progressIndicators: [],
+};
+
+const ANALYSIS_SYSTEM_PROMPT =
+  "You are a CBT-trained clinical assistant. You analyze client messages and respond with valid JSON only.";
+
+const toStringArray = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? value.filter((v): v is string => typeof v === "string" && !!v.trim())
+    : [];
+
+/**
+ * Coerces whatever the model returned into a MessageAnalysis.
+ * riskLevel sometimes comes back as a string ("3") and is clamped to 0-5.
+ */
+export const normalizeAnalysis = (raw: any): MessageAnalysis => {
+  const risk = Number.parseFloat(raw?.riskLevel);
+
+  return {
+    emotionalState:
+      typeof raw?.emotionalState === "string" && raw.emotionalState.trim()
+        ? raw.emotionalState.trim().toLowerCase()
+        : NEUTRAL_ANALYSIS.emotionalState,
+    themes: toStringArray(raw?.themes),
+    riskLevel: Number.isFinite(risk)
+      ? Math.min(5, Math.max(0, Math.round(risk)))
+      : 0,
+    recommendedApproach:
+      typeof raw?.recommendedApproach === "string" && raw.recommendedApproach
+        ? raw.recommendedApproach
+        : NEUTRAL_ANALYSIS.recommendedApproach,
+    progressIndicators: toStringArray(raw?.progressIndicators),
+  };
+};
+
+/**
+ * Analyzes a single user message (emotional state, risk, themes, approach).
+ * Throws if the provider fails so callers can decide on a fallback.
+ */
+export const analyzeMessage = async (
+  message: string,
+  context: AnalysisContext = {}
+): Promise<MessageAnalysis> => {
+  const prompt = await renderPrompt("analysis.message", {
+    message,
+    history: (context.history || []).filter((m) => m.role !== "system").slice(-6),
+    context: { memory: context.memory, goals: context.goals || [] },
+  });
+
+  const completion = await getLLMProvider().completeJSON(
+    [
+      { role: "system", content: ANALYSIS_SYSTEM_PROMPT },
+      { role: "user", content: prompt.content },
+    ],
+    {
+      model: getModel("analysis"),
+      temperature: 0.2,
+      accounting: { feature: "analysis", ...context.owner },
+    }
+  );
+
+  return normalizeAnalysis(completion.data);
+};
+
+/**
+ * Same as analyzeMessage but never throws; returns null when analysis failed
+ * so nothing made-up ends up on the message.
+ */
+export const tryAnalyzeMessage = async (
+  message: string,
+  context: AnalysisContext = {}
+): Promise<MessageAnalysis | null> => {
+  try {
+    return await analyzeMessage(message, context);
+  } catch (error) {
+    logger.error("Error analyzing message:", error);
+    return null;
+  }
+};
@@ -0,0 +1,160 @@
+import { Types } from "mongoose";
+import { Mood } from "../models/Mood";
+import { MoodInsight, IMoodInsight } from "../models/MoodInsight";
+import { moodTrend } from "./moodStats";
+import { MoodFollowUpReason, MoodVolatilityLevel } from "../types/mood";
+import { DAY_MS, DEFAULT_TIME_ZONE, dayKey } from "../utils/dateRange";
+
+// How much history each analysis looks at
+const ANALYSIS_WINDOW_DAYS = 30;
+// Daily averages below this (0-100) count as a low day
+export const LOW_MOOD_THRESHOLD = 40;
+// Consecutive low days that make a sustained low
+const SUSTAINED_LOW_DAYS = 3;
+// Mean day-to-day change (points) at which volatility is moderate / high
+const VOLATILITY_LEVELS = { moderate: 10, high: 20 };
+// One follow-up per user within this period
+const FOLLOW_UP_COOLDOWN_DAYS = 3;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export type MoodAnalysis = Pick<
+  IMoodInsight,
+  | "from"
+  | "to"
+  | "timeZone"
+  | "entries"
+  | "days"
+  | "average"
+  | "latestScore"
+  | "trend"
+  | "volatility"
+  | "sustainedLow"
+>;
+
+/**
+ * Trend, volatility and sustained-low detection over mood entries, by
+ * calendar day in the user's timezone. Entries may be in any order.
+ */
+export const analyzeMoodEntries = (
+  moods: { score: number; timestamp: Date }[],
+  from: Date,
+  to: Date,
+  timeZone = DEFAULT_TIME_ZONE
+): MoodAnalysis => {
+  const byDay = new Map<string, { sum: number; count: number }>();
+  for (const mood of moods) {
+    const day = dayKey(new Date(mood.timestamp), timeZone);
+    const totals = byDay.get(day) || { sum: 0, count: 0 };
+    totals.sum += mood.score;
+    totals.count += 1;
+    byDay.set(day, totals);
+  }
+
+  const daily = [...byDay.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([period, { sum, count }]) => ({ period, average: sum / count }));
+
+  // Mean absolute successive difference of the daily averages
+  let volatility: number | null = null;
+  if (daily.length >= 2) {
+    const changes = daily
+      .slice(1)
+      .map((day, index) => Math.abs(day.average - daily[index].average));
+    volatility = round(changes.reduce((sum, c) => sum + c, 0) / changes.length);
+  }
+  const level: MoodVolatilityLevel | null =
+    volatility === null
+      ? null
+      : volatility >= VOLATILITY_LEVELS.high
+      ? "high"
+      : volatility >= VOLATILITY_LEVELS.moderate
+      ? "moderate"
+      : "low";
+
+  // Most recent run of low days, broken by a missing day or a better one
+  let lowDays = 0;
+  for (let i = daily.length - 1; i >= 0; i--) {
+    if (daily[i].average >= LOW_MOOD_THRESHOLD) break;
+    if (i < daily.length - 1) {
+      const gap =
+        new Date(daily[i + 1].period).getTime() - new Date(daily[i].period).getTime();
+      if (gap > DAY_MS) break;
+    }
+    lowDays += 1;
+  }
+
+  const latest = moods.reduce<{ score: number; timestamp: Date } | null>(
+    (last, mood) =>
+      !last || new Date(mood.timestamp) > new Date(last.timestamp) ? mood : last,
+    null
+  );
+
+  return {
+    from,
+    to,
+    timeZone,
+    entries: moods.length,
+    days: daily.length,
+    average: moods.length
+      ? round(moods.reduce((sum, m) => sum + m.score, 0) / moods.length)
+      : null,
+    latestScore: latest ? latest.score : null,
+    trend: moodTrend(daily),
+    volatility: { value: volatility, level },
+    sustainedLow: {
+      detected: lowDays >= SUSTAINED_LOW_DAYS,
+      days: lowDays,
+      threshold: LOW_MOOD_THRESHOLD,
+    },
+  };
+};
+
+// Why the analysis warrants a follow-up, if it does
+export const followUpReason = (
+  analysis: MoodAnalysis
+): MoodFollowUpReason | null => {
+  if (analysis.sustainedLow.detected) return "sustained_low";
+  if (analysis.trend.direction === "declining") return "declining_trend";
+  return null;
+};
+
+/**
+ * Analyses the user's last ANALYSIS_WINDOW_DAYS of entries and stores the
+ * result as a MoodInsight. `followUp` is set (and should be raised by the
+ * caller) when the mood is declining or persistently low and no follow-up
+ * was raised within the cooldown.
+ */
+export const createMoodInsight = async (
+  userId: Types.ObjectId | string,
+  moodId?: Types.ObjectId | string,
+  timeZone = DEFAULT_TIME_ZONE
+) => {
+  const to = new Date();
+  const from = new Date(to.getTime() - ANALYSIS_WINDOW_DAYS * DAY_MS);
+
+  const moods = await Mood.find(
+    { userId, timestamp: { $gte: from, $lte: to } },
+    { score: 1, timestamp: 1 }
+  ).lean();
+  const analysis = analyzeMoodEntries(moods, from, to, timeZone);
+
+  const reason = followUpReason(analysis);
+  let followUp: IMoodInsight["followUp"];
+  if (reason) {
+    const recent = await MoodInsight.exists({
+      userId,
+      "followUp.raisedAt": {
+        $gte: new Date(to.getTime() - FOLLOW_UP_COOLDOWN_DAYS * DAY_MS),
+      },
+    });
+    if (!recent) followUp = { reason, raisedAt: to };
+  }
+
+  return MoodInsight.create({
+    userId,
+    ...(moodId && Types.ObjectId.isValid(moodId.toString()) && { moodId }),
+    ...analysis,
+    ...(followUp && { followUp }),
+  });
+};
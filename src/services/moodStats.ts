@@ -0,0 +1,182 @@
+import { PipelineStage, Types } from "mongoose";
+import { Mood } from "../models/Mood";
+import { MoodTrendDirection } from "../types/mood";
+import { DEFAULT_TIME_ZONE } from "../utils/dateRange";
+
+export interface MoodTrend {
+  direction: MoodTrendDirection;
+  // Least-squares slope of the daily averages, in points per week
+  slopePerWeek: number | null;
+}
+
+export interface MoodPeriodStats {
+  // "2026-10-19", "2026-W42" (ISO week) or "2026-10"
+  period: string;
+  count: number;
+  average: number;
+  min: number;
+  max: number;
+  variance: number;
+}
+
+export interface MoodStats {
+  range: { from: Date; to: Date };
+  timeZone: string;
+  overall: Omit<MoodPeriodStats, "period"> | null;
+  // Daily rows also carry the moving average over the previous `window` days
+  daily: (MoodPeriodStats & { movingAverage: number })[];
+  weekly: MoodPeriodStats[];
+  monthly: MoodPeriodStats[];
+  trend: MoodTrend;
+  movingAverageWindow: number;
+}
+
+// A slope smaller than this (points per week) counts as stable
+const TREND_THRESHOLD = 2;
+// Days with entries needed before a trend is reported
+const MIN_TREND_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Shared $group accumulators for every period
+const periodAccumulators = {
+  count: { $sum: 1 },
+  sum: { $sum: "$score" },
+  average: { $avg: "$score" },
+  min: { $min: "$score" },
+  max: { $max: "$score" },
+  stdDev: { $stdDevPop: "$score" },
+};
+
+const toPeriodStats = (row: any): MoodPeriodStats => ({
+  period: row._id,
+  count: row.count,
+  average: round(row.average),
+  min: row.min,
+  max: row.max,
+  variance: round(row.stdDev * row.stdDev),
+});
+
+const byPeriod = (
+  format: string,
+  timeZone: string
+): PipelineStage.FacetPipelineStage[] => [
+  {
+    $group: {
+      _id: { $dateToString: { format, date: "$timestamp", timezone: timeZone } },
+      ...periodAccumulators,
+    },
+  },
+  { $sort: { _id: 1 } },
+];
+
+/**
+ * Least-squares slope of the daily averages, per week. `period` is the
+ * "YYYY-MM-DD" day.
+ */
+export const moodTrend = (
+  daily: Pick<MoodPeriodStats, "period" | "average">[]
+): MoodTrend => {
+  if (daily.length < MIN_TREND_DAYS) {
+    return { direction: "insufficient_data", slopePerWeek: null };
+  }
+
+  const points = daily.map((day) => ({
+    x: new Date(`${day.period}T00:00:00Z`).getTime() / DAY_MS,
+    y: day.average,
+  }));
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+  const covariance = points.reduce((sum, p) => sum + (p.x - meanX) * (p.y - meanY), 0);
+  const spread = points.reduce((sum, p) => sum + (p.x - meanX) ** 2, 0);
+
+  const slopePerWeek = spread > 0 ? (covariance / spread) * 7 : 0;
+  const direction: MoodTrendDirection =
+    slopePerWeek >= TREND_THRESHOLD
+      ? "improving"
+      : slopePerWeek <= -TREND_THRESHOLD
+      ? "declining"
+      : "stable";
+
+  return { direction, slopePerWeek: round(slopePerWeek) };
+};
+
+/**
+ * Mood statistics for one user over [from, to], in a single aggregation
+ * that starts on the { userId, timestamp } index. Periods are days, ISO
+ * weeks and months in the given timezone.
+ */
+export const getMoodStats = async (
+  userId: Types.ObjectId | string,
+  from: Date,
+  to: Date,
+  movingAverageWindow = 7,
+  timeZone = DEFAULT_TIME_ZONE
+): Promise<MoodStats> => {
+  const dailyWindow: PipelineStage.FacetPipelineStage = {
+    // Weighted by entries: total score / total count in the window
+    $setWindowFields: {
+      sortBy: { day: 1 },
+      output: {
+        windowSum: {
+          $sum: "$sum",
+          window: { range: [-(movingAverageWindow - 1), 0], unit: "day" },
+        },
+        windowCount: {
+          $sum: "$count",
+          window: { range: [-(movingAverageWindow - 1), 0], unit: "day" },
+        },
+      },
+    },
+  };
+
+  const [result] = await Mood.aggregate([
+    {
+      $match: {
+        userId: new Types.ObjectId(userId.toString()),
+        timestamp: { $gte: from, $lte: to },
+      },
+    },
+    {
+      $facet: {
+        overall: [{ $group: { _id: null, ...periodAccumulators } }],
+        daily: [
+          ...byPeriod("%Y-%m-%d", timeZone),
+          { $set: { day: { $dateFromString: { dateString: "$_id" } } } },
+          dailyWindow,
+          { $set: { movingAverage: { $divide: ["$windowSum", "$windowCount"] } } },
+        ],
+        weekly: byPeriod("%G-W%V", timeZone),
+        monthly: byPeriod("%Y-%m", timeZone),
+      },
+    },
+  ]);
+
+  const daily = result.daily.map((row: any) => ({
+    ...toPeriodStats(row),
+    movingAverage: round(row.movingAverage),
+  }));
+  const totals = result.overall[0];
+  const overall = totals
+    ? {
+        count: totals.count,
+        average: round(totals.average),
+        min: totals.min,
+        max: totals.max,
+        variance: round(totals.stdDev * totals.stdDev),
+      }
+    : null;
+
+  return {
+    range: { from, to },
+    timeZone,
+    overall,
+    daily,
+    weekly: result.weekly.map(toPeriodStats),
+    monthly: result.monthly.map(toPeriodStats),
+    trend: moodTrend(daily),
+    movingAverageWindow,
+  };
+};
@@ -0,0 +1,60 @@
+import { Types } from "mongoose";
+import { assignVariant } from "../registry";
+
+jest.mock("../../../utils/logger", () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+const VARIANTS = [
+  { name: "control", version: 1, weight: 50 },
+  { name: "warmer", version: 2, weight: 50 },
+];
+
+const userIds = (count: number) =>
+  Array.from({ length: count }, () => new Types.ObjectId().toString());
+
+describe("assignVariant", () => {
+  it("always puts the same user in the same arm", () => {
+    for (const userId of userIds(20)) {
+      const first = assignVariant("tone-test", userId, VARIANTS);
+      expect(assignVariant("tone-test", userId, VARIANTS)).toBe(first);
+      expect(assignVariant("tone-test", new Types.ObjectId(userId), VARIANTS)).toBe(first);
+    }
+  });
+
+  it("splits users roughly by weight", () => {
+    const variants = [
+      { name: "control", version: 1, weight: 80 },
+      { name: "warmer", version: 2, weight: 20 },
+    ];
+    const users = userIds(2_000);
+    const warmer = users.filter(
+      (userId) => assignVariant("tone-test", userId, variants).name === "warmer"
+    ).length;
+
+    expect(warmer / users.length).toBeGreaterThan(0.15);
+    expect(warmer / users.length).toBeLessThan(0.25);
+  });
+
+  it("assigns independently per experiment", () => {
+    const users = userIds(200);
+    const differs = users.some(
+      (userId) =>
+        assignVariant("tone-test", userId, VARIANTS) !==
+        assignVariant("length-test", userId, VARIANTS)
+    );
+
+    expect(differs).toBe(true);
+  });
+
+  it("never picks an arm with no weight", () => {
+    const variants = [
+      { name: "control", version: 1, weight: 1 },
+      { name: "paused", version: 2, weight: 0 },
+    ];
+
+    for (const userId of userIds(200)) {
+      expect(assignVariant("tone-test", userId, variants).name).toBe("control");
+    }
+  });
+});
@@ -0,0 +1,7 @@
+export { DEFAULT_PROMPTS, isPromptName } from "./defaults";
+export { renderTemplate, templateVariables } from "./template";
+export {
+  renderPrompt,
+  assignVariant,
+  invalidatePromptCache,
+} from "./registry";
@@ -0,0 +1,126 @@
+import { createHash } from "crypto";
+import { Types } from "mongoose";
+import { PromptTemplate } from "../../models/PromptTemplate";
+import {
+  PromptExperiment,
+  PromptVariant,
+} from "../../models/PromptExperiment";
+import { PromptName, PromptRef, RenderedPrompt } from "../../types/prompt";
+import { logger } from "../../utils/logger";
+import { readNumberEnv } from "../../utils/env";
+import { DEFAULT_PROMPTS } from "./defaults";
+import { renderTemplate, TemplateValues } from "./template";
+
+interface PromptSource {
+  // Template text by version, including 0 (the built-in default)
+  versions: Map<number, string>;
+  activeVersion: number;
+  experiment: { key: string; variants: PromptVariant[] } | null;
+  expiresAt: number;
+}
+
+// Templates change rarely; PROMPT_CACHE_TTL_MS bounds how stale a process gets
+const cache = new Map<PromptName, PromptSource>();
+
+const getCacheTTL = () => readNumberEnv("PROMPT_CACHE_TTL_MS", 60_000);
+
+/**
+ * Drops cached templates so the next render reads MongoDB again
+ */
+export const invalidatePromptCache = (name?: PromptName) => {
+  if (name) cache.delete(name);
+  else cache.clear();
+};
+
+const loadPromptSource = async (name: PromptName): Promise<PromptSource> => {
+  const cached = cache.get(name);
+  if (cached && cached.expiresAt > Date.now()) return cached;
+
+  const versions = new Map<number, string>([[0, DEFAULT_PROMPTS[name].template]]);
+  let activeVersion = 0;
+  let experiment: PromptSource["experiment"] = null;
+
+  try {
+    const [running, templates] = await Promise.all([
+      PromptExperiment.findOne({ promptName: name, status: "running" }),
+      PromptTemplate.find({ name }),
+    ]);
+
+    for (const template of templates) {
+      versions.set(template.version, template.template);
+      if (template.active) activeVersion = template.version;
+    }
+
+    if (running) {
+      // Arms pointing at a missing version can't be served
+      const variants = running.variants.filter(
+        (variant) => variant.weight > 0 && versions.has(variant.version)
+      );
+      if (variants.length > 0) experiment = { key: running.key, variants };
+    }
+  } catch (error) {
+    // Serve the defaults rather than fail the request; retried next call
+    logger.error(`Error loading prompt "${name}", using default:`, error);
+    return { versions, activeVersion, experiment, expiresAt: 0 };
+  }
+
+  const source = { versions, activeVersion, experiment, expiresAt: Date.now() + getCacheTTL() };
+  cache.set(name, source);
+  return source;
+};
+
+/**
+ * Picks the user's arm of an experiment. The same user always lands in the
+ * same arm for a given experiment key, on every server.
+ */
+export const assignVariant = (
+  experimentKey: string,
+  userId: Types.ObjectId | string,
+  variants: PromptVariant[]
+): PromptVariant => {
+  const total = variants.reduce((sum, variant) => sum + variant.weight, 0);
+  const hash = createHash("sha256")
+    .update(`${experimentKey}:${userId.toString()}`)
+    .digest();
+  // First 4 bytes as a fraction in [0, 1)
+  let point = (hash.readUInt32BE(0) / 0x100000000) * total;
+
+  for (const variant of variants) {
+    if (point < variant.weight) return variant;
+    point -= variant.weight;
+  }
+  return variants[variants.length - 1];
+};
+
+/**
+ * Renders a prompt from the registry: the user's experiment arm when an
+ * experiment is running, otherwise the active version, otherwise the
+ * built-in default. Never throws for a registry outage.
+ */
+export const renderPrompt = async (
+  name: PromptName,
+  values: TemplateValues,
+  options: { userId?: Types.ObjectId | string } = {}
+): Promise<RenderedPrompt> => {
+  const source = await loadPromptSource(name);
+  let ref: PromptRef = { name, version: source.activeVersion };
+
+  if (source.experiment && options.userId) {
+    const variant = assignVariant(
+      source.experiment.key,
+      options.userId,
+      source.experiment.variants
+    );
+    ref = {
+      name,
+      version: variant.version,
+      experiment: source.experiment.key,
+      variant: variant.name,
+    };
+  }
+
+  return {
+    content: renderTemplate(source.versions.get(ref.version)!, values),
+    ref,
+  };
+};
@@ -0,0 +1,24 @@
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+export type TemplateValues = Record<string, unknown>;
+
+/**
+ * Names of the {{variables}} a template uses
+ */
+export const templateVariables = (template: string): string[] => [
+  ...new Set(Array.from(template.matchAll(PLACEHOLDER), (match) => match[1])),
+];
+
+const toText = (value: unknown): string => {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "string") return value;
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  return JSON.stringify(value);
+};
+
+/**
+ * Fills in {{variables}}. Objects and arrays are inserted as JSON;
+ * missing values become empty strings.
+ */
+export const renderTemplate = (template: string, values: TemplateValues): string =>
+  template.replace(PLACEHOLDER, (_, key: string) => toText(values[key]));
@@ -0,0 +1,29 @@
+import { logger } from "../../utils/logger";
+import { MemoryRateLimitStore, RateLimitStore } from "./store";
+import { MongoRateLimitStore } from "./mongoStore";
+
+export type { RateLimitHit, RateLimitStore } from "./store";
+export { MemoryRateLimitStore } from "./store";
+export { MongoRateLimitStore } from "./mongoStore";
+
+let store: RateLimitStore | null = null;
+
+/**
+ * The store picked by RATE_LIMIT_STORE ("memory", the default, or "mongo")
+ */
+export const getRateLimitStore = (): RateLimitStore => {
+  if (!store) {
+    const requested = (process.env.RATE_LIMIT_STORE || "memory").toLowerCase();
+    if (requested !== "memory" && requested !== "mongo") {
+      logger.warn(`Unknown RATE_LIMIT_STORE "${requested}", using memory`);
+    }
+    store =
+      requested === "mongo" ? new MongoRateLimitStore() : new MemoryRateLimitStore();
+  }
+  return store;
+};
+
+// For tests and scripts
+export const setRateLimitStore = (override: RateLimitStore | null) => {
+  store = override;
+};
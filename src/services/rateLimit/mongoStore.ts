@@ -0,0 +1,21 @@
+import { RateLimitCounter } from "../../models/RateLimitCounter";
+import { RateLimitHit, RateLimitStore, windowStart } from "./store";
+
+/**
+ * Counters shared by every instance, one document per key and window.
+ * Old windows are removed by the TTL index on expiresAt.
+ */
+export class MongoRateLimitStore implements RateLimitStore {
+  async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    const start = windowStart(windowMs);
+    const resetAt = new Date(start + windowMs);
+
+    const counter = await RateLimitCounter.findOneAndUpdate(
+      { key: `${key}:${start}` },
+      { $inc: { count: 1 }, $setOnInsert: { expiresAt: resetAt } },
+      { upsert: true, new: true }
+    );
+
+    return { count: counter.count, resetAt };
+  }
+}
@@ -0,0 +1,52 @@
+export interface RateLimitHit {
+  // Hits in the current window, including this one
+  count: number;
+  resetAt: Date;
+}
+
+/**
+ * Counts hits per key in fixed windows. Implementations must be safe to
+ * call concurrently for the same key.
+ */
+export interface RateLimitStore {
+  increment(key: string, windowMs: number): Promise<RateLimitHit>;
+}
+
+// Start of the fixed window `now` falls in
+export const windowStart = (windowMs: number, now = Date.now()) =>
+  Math.floor(now / windowMs) * windowMs;
+
+// How often expired windows are swept from memory
+const SWEEP_EVERY = 1_000;
+
+/**
+ * Per-process counters. Fine for a single instance; use the Mongo store
+ * when several instances share the limits.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, RateLimitHit>();
+  private hitsSinceSweep = 0;
+
+  async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    const start = windowStart(windowMs);
+    const bucket = `${key}:${start}`;
+
+    let hit = this.counters.get(bucket);
+    if (!hit) {
+      hit = { count: 0, resetAt: new Date(start + windowMs) };
+      this.counters.set(bucket, hit);
+    }
+    hit.count += 1;
+
+    if (++this.hitsSinceSweep >= SWEEP_EVERY) this.sweep();
+    return { ...hit };
+  }
+
+  private sweep() {
+    const now = Date.now();
+    for (const [bucket, hit] of this.counters) {
+      if (hit.resetAt.getTime() <= now) this.counters.delete(bucket);
+    }
+    this.hitsSinceSweep = 0;
+  }
+}
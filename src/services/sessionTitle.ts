@@ -0,0 +1,58 @@
+import { IChatMessage } from "../models/ChatSession";
+import { getLLMProvider, getModel, LLMUsageOwner } from "../llm";
+import { logger } from "../utils/logger";
+
+const MAX_TITLE_LENGTH = 60;
+
+const cleanTitle = (title: string) =>
+  title
+    .replace(/^["'“”\s]+|["'“”.\s]+$/g, "")
+    .replace(/\s+/g, " ")
+    .slice(0, MAX_TITLE_LENGTH)
+    .trim();
+
+// Used when the model can't be reached: the first few words of the user
+const fallbackTitle = (messages: IChatMessage[]) => {
+  const first = messages.find((msg) => msg.role === "user")?.content || "";
+  const words = first.split(/\s+/).slice(0, 6).join(" ");
+  return cleanTitle(words) || "New conversation";
+};
+
+/**
+ * Short title for a session, based on its first exchange
+ */
+export const generateSessionTitle = async (
+  messages: IChatMessage[],
+  owner?: LLMUsageOwner
+): Promise<string> => {
+  const firstExchange = messages
+    .slice(0, 2)
+    .map((msg) => `${msg.role === "user" ? "User" : "Leo"}: ${msg.content}`)
+    .join("\n");
+
+  if (!firstExchange) return "New conversation";
+
+  try {
+    const completion = await getLLMProvider().complete(
+      [
+        {
+          role: "system",
+          content:
+            "You name conversations. Reply with a title of at most 6 words, no quotes, no trailing punctuation. Never include diagnoses.",
+        },
+        { role: "user", content: firstExchange },
+      ],
+      {
+        model: getModel("analysis"),
+        temperature: 0.3,
+        maxTokens: 20,
+        accounting: { feature: "title", ...owner },
+      }
+    );
+
+    return cleanTitle(completion.content) || fallbackTitle(messages);
+  } catch (error) {
+    logger.error("Error generating session title:", error);
+    return fallbackTitle(messages);
+  }
+};
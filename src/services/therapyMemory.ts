@@ -0,0 +1,293 @@
+import { Types } from "mongoose";
+import { ChatSession, IChatSession } from "../models/ChatSession";
+import { TherapyMemory, ITherapyMemory } from "../models/TherapyMemory";
+import { getLLMProvider, getModel } from "../llm";
+import { TherapyAgentMemory } from "../types/inngest";
+import { logger } from "../utils/logger";
+
+// Caps so the document (and the prompt summary) stay small
+const MAX_EMOTIONAL_HISTORY = 50;
+const MAX_STRESSORS = 20;
+const MAX_STRATEGIES = 15;
+const MAX_PROCESSED_SESSIONS = 100;
+const MAX_TRANSCRIPT_MESSAGES = 40;
+
+interface SessionInsights {
+  stressors: string[];
+  helpfulStrategies: { strategy: string; note?: string }[];
+  preferredTone: string | null;
+  preferredStyle: string | null;
+  currentTechnique: string | null;
+  sessionSummary: string | null;
+}
+
+const normalizeTheme = (theme: string) => theme.trim().toLowerCase();
+
+/**
+ * Maps the stored memory onto the shape the analysis prompts expect
+ */
+export const toAgentMemory = (memory: ITherapyMemory): TherapyAgentMemory => ({
+  userProfile: {
+    emotionalState: memory.emotionalStateHistory
+      .slice(-10)
+      .map((entry) => entry.state),
+    riskLevel: memory.riskLevel,
+    preferences: {
+      tone: memory.preferences?.tone,
+      style: memory.preferences?.style,
+    },
+  },
+  sessionContext: {
+    conversationThemes: memory.recurringStressors.map((s) => s.theme),
+    currentTechnique: memory.currentTechnique,
+  },
+});
+
+/**
+ * Compact, prompt-ready summary of what Leo should remember.
+ * Returns null when there is nothing worth injecting.
+ */
+export const buildMemorySummary = (
+  memory: ITherapyMemory | null
+): string | null => {
+  if (!memory || !memory.enabled) return null;
+
+  const lines: string[] = [];
+
+  const stressors = [...memory.recurringStressors]
+    .sort((a, b) => b.count - a.count)
+    .slice(0, 5);
+  if (stressors.length > 0) {
+    lines.push(
+      `Recurring stressors: ${stressors
+        .map((s) => (s.count > 1 ? `${s.theme} (${s.count} sessions)` : s.theme))
+        .join(", ")}.`
+    );
+  }
+
+  const strategies = [...memory.helpfulStrategies]
+    .sort((a, b) => b.lastUsed.getTime() - a.lastUsed.getTime())
+    .slice(0, 5);
+  if (strategies.length > 0) {
+    lines.push(
+      `What has helped before: ${strategies.map((s) => s.strategy).join(", ")}.`
+    );
+  }
+
+  const { tone, style } = memory.preferences || {};
+  if (tone || style) {
+    lines.push(
+      `Preferred tone: ${[tone, style].filter(Boolean).join(", ")}.`
+    );
+  }
+
+  const recentStates = memory.emotionalStateHistory
+    .slice(-5)
+    .map((entry) => entry.state);
+  if (recentStates.length > 0) {
+    lines.push(`Recent emotional states: ${recentStates.join(" → ")}.`);
+  }
+
+  if (memory.lastSessionSummary) {
+    lines.push(`Last session: ${memory.lastSessionSummary}`);
+  }
+
+  if (memory.notes.length > 0) {
+    lines.push(`The user asked you to remember: ${memory.notes.join("; ")}.`);
+  }
+
+  return lines.length > 0 ? lines.join("\n") : null;
+};
+
+/**
+ * Loads the user's memory, or null if none exists or it is switched off
+ */
+export const getActiveMemory = async (
+  userId: Types.ObjectId | string
+): Promise<ITherapyMemory | null> => {
+  const memory = await TherapyMemory.findOne({ userId });
+  return memory && memory.enabled ? memory : null;
+};
+
+const extractSessionInsights = async (
+  session: IChatSession,
+  memory: ITherapyMemory
+): Promise<SessionInsights> => {
+  const transcript = session.messages
+    .slice(-MAX_TRANSCRIPT_MESSAGES)
+    .map((msg) => `${msg.role === "user" ? "User" : "Leo"}: ${msg.content}`)
+    .join("\n");
+
+  const prompt = `
+Review this support conversation and update the long-term notes about the user.
+Respond with valid JSON only.
+
+Known so far: ${JSON.stringify(toAgentMemory(memory))}
+
+Conversation:
+${transcript}
+
+Return:
+{
+  "stressors": ["short recurring stressors or themes, e.g. exam anxiety, poor sleep"],
+  "helpfulStrategies": [{ "strategy": "technique the user found helpful", "note": "optional short context" }],
+  "preferredTone": "tone the user responds well to, or null",
+  "preferredStyle": "e.g. brief and practical, or null",
+  "currentTechnique": "technique being worked on, or null",
+  "sessionSummary": "one or two sentences on what was discussed"
+}
+Only list strategies the user said helped or agreed to try.
+`;
+
+  const { data } = await getLLMProvider().completeJSON<Partial<SessionInsights>>(
+    [
+      {
+        role: "system",
+        content:
+          "You maintain concise, factual notes for a supportive counselor. Never include diagnoses.",
+      },
+      { role: "user", content: prompt },
+    ],
+    {
+      model: getModel("analysis"),
+      temperature: 0.2,
+      accounting: {
+        feature: "memory",
+        userId: session.userId.toString(),
+        sessionId: session.sessionId,
+      },
+    }
+  );
+
+  return {
+    stressors: Array.isArray(data.stressors) ? data.stressors : [],
+    helpfulStrategies: Array.isArray(data.helpfulStrategies)
+      ? data.helpfulStrategies.filter((s) => s && typeof s.strategy === "string")
+      : [],
+    preferredTone: data.preferredTone || null,
+    preferredStyle: data.preferredStyle || null,
+    currentTechnique: data.currentTechnique || null,
+    sessionSummary: data.sessionSummary || null,
+  };
+};
+
+const mergeStressors = (
+  memory: ITherapyMemory,
+  themes: string[],
+  seenAt: Date
+) => {
+  for (const theme of new Set(themes.map(normalizeTheme).filter(Boolean))) {
+    const existing = memory.recurringStressors.find((s) => s.theme === theme);
+    if (existing) {
+      existing.count += 1;
+      existing.lastSeen = seenAt;
+    } else {
+      memory.recurringStressors.push({ theme, count: 1, lastSeen: seenAt });
+    }
+  }
+
+  memory.recurringStressors = [...memory.recurringStressors]
+    .sort((a, b) => b.count - a.count || b.lastSeen.getTime() - a.lastSeen.getTime())
+    .slice(0, MAX_STRESSORS);
+};
+
+const mergeStrategies = (
+  memory: ITherapyMemory,
+  strategies: SessionInsights["helpfulStrategies"],
+  usedAt: Date
+) => {
+  for (const { strategy, note } of strategies) {
+    const name = strategy.trim();
+    if (!name) continue;
+
+    const existing = memory.helpfulStrategies.find(
+      (s) => s.strategy.toLowerCase() === name.toLowerCase()
+    );
+    if (existing) {
+      existing.lastUsed = usedAt;
+      if (note) existing.note = note;
+    } else {
+      memory.helpfulStrategies.push({ strategy: name, note, lastUsed: usedAt });
+    }
+  }
+
+  memory.helpfulStrategies = [...memory.helpfulStrategies]
+    .sort((a, b) => b.lastUsed.getTime() - a.lastUsed.getTime())
+    .slice(0, MAX_STRATEGIES);
+};
+
+/**
+ * Folds a finished chat session into the user's long-term memory.
+ * Safe to call more than once for the same session.
+ */
+export const updateMemoryFromSession = async (
+  sessionId: string
+): Promise<ITherapyMemory | null> => {
+  const session = await ChatSession.findOne({ sessionId });
+  if (!session || session.messages.length === 0) return null;
+
+  const memory =
+    (await TherapyMemory.findOne({ userId: session.userId })) ||
+    new TherapyMemory({ userId: session.userId });
+
+  if (!memory.enabled || memory.processedSessionIds.includes(sessionId)) {
+    return memory;
+  }
+
+  const now = new Date();
+
+  // Emotional states and themes from the per-message analysis
+  const analyzed = session.messages.filter(
+    (msg) => msg.role === "user" && msg.metadata?.analysis
+  );
+  for (const msg of analyzed) {
+    memory.emotionalStateHistory.push({
+      state: msg.metadata!.analysis!.emotionalState,
+      riskLevel: msg.metadata!.analysis!.riskLevel,
+      sessionId,
+      recordedAt: msg.timestamp,
+    });
+  }
+  memory.emotionalStateHistory = memory.emotionalStateHistory.slice(
+    -MAX_EMOTIONAL_HISTORY
+  );
+  if (analyzed.length > 0) {
+    memory.riskLevel = Math.max(
+      ...analyzed.map((msg) => msg.metadata!.analysis!.riskLevel)
+    );
+  }
+
+  const analysisThemes = analyzed.flatMap(
+    (msg) => msg.metadata!.analysis!.themes
+  );
+
+  try {
+    const insights = await extractSessionInsights(session, memory);
+
+    mergeStressors(memory, [...insights.stressors, ...analysisThemes], now);
+    mergeStrategies(memory, insights.helpfulStrategies, now);
+
+    if (!memory.preferences.lockedByUser) {
+      if (insights.preferredTone) memory.preferences.tone = insights.preferredTone;
+      if (insights.preferredStyle) memory.preferences.style = insights.preferredStyle;
+    }
+    if (insights.currentTechnique) {
+      memory.currentTechnique = insights.currentTechnique;
+    }
+    if (insights.sessionSummary) {
+      memory.lastSessionSummary = insights.sessionSummary;
+    }
+  } catch (error) {
+    // Keep what the per-message analysis gave us
+    logger.error("Error extracting session insights:", error);
+    mergeStressors(memory, analysisThemes, now);
+  }
+
+  memory.processedSessionIds = [...memory.processedSessionIds, sessionId].slice(
+    -MAX_PROCESSED_SESSIONS
+  );
+
+  await memory.save();
+  logger.info(`Therapy memory updated for user ${session.userId}`);
+  return memory;
+};
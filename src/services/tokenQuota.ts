@@ -0,0 +1,52 @@
+import { Types } from "mongoose";
+import { DailyTokenUsage } from "../models/DailyTokenUsage";
+import { readNumberEnv } from "../utils/env";
+
+export interface TokenQuotaStatus {
+  // Tokens allowed per UTC day; 0 means unlimited
+  limit: number;
+  used: number;
+  remaining: number | null;
+  resetAt: Date;
+}
+
+// DAILY_TOKEN_QUOTA caps the LLM tokens spent on a user per UTC day: replies
+// and the analysis, summaries and titles made for them (0 turns it off)
+export const getDailyTokenQuota = () => readNumberEnv("DAILY_TOKEN_QUOTA", 100_000);
+
+const toDay = (date: Date) => date.toISOString().slice(0, 10);
+
+// Next UTC midnight, when every quota starts over
+export const nextQuotaReset = (now = new Date()) =>
+  new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+
+export const getTokenQuotaStatus = async (
+  userId: Types.ObjectId | string
+): Promise<TokenQuotaStatus> => {
+  const now = new Date();
+  const limit = getDailyTokenQuota();
+  const usage = await DailyTokenUsage.findOne({ userId, day: toDay(now) });
+  const used = usage?.tokens || 0;
+
+  return {
+    limit,
+    used,
+    remaining: limit > 0 ? Math.max(0, limit - used) : null,
+    resetAt: nextQuotaReset(now),
+  };
+};
+
+/**
+ * Adds one LLM call's tokens to today's total for the user
+ */
+export const recordTokenUsage = async (
+  userId: Types.ObjectId | string,
+  tokens: number
+) => {
+  if (tokens <= 0) return;
+  await DailyTokenUsage.updateOne(
+    { userId, day: toDay(new Date()) },
+    { $inc: { tokens, requests: 1 } },
+    { upsert: true }
+  );
+};
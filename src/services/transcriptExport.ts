@@ -0,0 +1,215 @@
+import PDFDocument from "pdfkit";
+import { IChatSession } from "../models/ChatSession";
+import { getPersona } from "./personas";
+
+export type ExportFormat = "md" | "json" | "pdf";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["md", "json", "pdf"];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  md: "text/markdown; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  pdf: "application/pdf",
+};
+
+export interface ExportOptions {
+  includeMetadata: boolean;
+}
+
+interface ExportedMessage {
+  role: "user" | "assistant";
+  content: string;
+  timestamp: Date;
+  metadata?: Record<string, any>;
+}
+
+export interface ExportedSession {
+  sessionId: string;
+  title: string | null;
+  persona: string;
+  startTime: Date;
+  status: string;
+  messages: ExportedMessage[];
+}
+
+const speaker = (role: ExportedMessage["role"]) =>
+  role === "user" ? "You" : "Leo";
+
+const formatTimestamp = (date: Date) =>
+  new Date(date).toISOString().replace("T", " ").slice(0, 16) + " UTC";
+
+/**
+ * Plain, serializable view of a session for export
+ */
+export const toExportedSession = (
+  session: IChatSession,
+  options: ExportOptions
+): ExportedSession => ({
+  sessionId: session.sessionId,
+  title: session.title || null,
+  persona: getPersona(session.persona).label,
+  startTime: session.startTime,
+  status: session.status,
+  messages: session.messages.map((msg) => ({
+    role: msg.role,
+    content: msg.content,
+    timestamp: msg.timestamp,
+    ...(options.includeMetadata &&
+      msg.metadata && {
+        metadata: JSON.parse(JSON.stringify(msg.metadata)),
+      }),
+  })),
+});
+
+export const renderJSON = (sessions: ExportedSession[]): string =>
+  JSON.stringify(
+    { exportedAt: new Date().toISOString(), sessions },
+    null,
+    2
+  );
+
+export const renderMarkdown = (sessions: ExportedSession[]): string => {
+  const lines: string[] = [
+    "# Conversations with Leo",
+    "",
+    `_Exported ${formatTimestamp(new Date())}_`,
+    "",
+  ];
+
+  for (const session of sessions) {
+    lines.push(
+      `## ${session.title || "Conversation"}`,
+      "",
+      `- **Started:** ${formatTimestamp(session.startTime)}`,
+      `- **Status:** ${session.status}`,
+      `- **Persona:** ${session.persona}`,
+      `- **Session ID:** ${session.sessionId}`,
+      ""
+    );
+
+    for (const msg of session.messages) {
+      lines.push(
+        `**${speaker(msg.role)}** · ${formatTimestamp(msg.timestamp)}`,
+        "",
+        // Quote every line so multi-paragraph messages stay together
+        ...msg.content.split("\n").map((line) => `> ${line}`),
+        ""
+      );
+      if (msg.metadata) {
+        lines.push(
+          "<details><summary>Metadata</summary>",
+          "",
+          "```json",
+          JSON.stringify(msg.metadata, null, 2),
+          "```",
+          "",
+          "</details>",
+          ""
+        );
+      }
+    }
+
+    lines.push("---", "");
+  }
+
+  return lines.join("\n");
+};
+
+/**
+ * Renders the transcript with pdfkit, entirely in-process.
+ * The built-in Helvetica only covers Latin scripts; set EXPORT_PDF_FONT to a
+ * TTF path to export other languages.
+ */
+export const renderPDF = (sessions: ExportedSession[]): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "A4", margin: 50, bufferPages: true });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    const customFont = process.env.EXPORT_PDF_FONT;
+    const regular = customFont ? "body" : "Helvetica";
+    const bold = customFont ? "body" : "Helvetica-Bold";
+    if (customFont) doc.registerFont("body", customFont);
+
+    doc.font(bold).fontSize(18).text("Conversations with Leo");
+    doc
+      .font(regular)
+      .fontSize(9)
+      .fillColor("#666666")
+      .text(`Exported ${formatTimestamp(new Date())}`)
+      .moveDown();
+
+    sessions.forEach((session, index) => {
+      if (index > 0) doc.addPage();
+
+      doc
+        .font(bold)
+        .fontSize(14)
+        .fillColor("#000000")
+        .text(session.title || "Conversation");
+      doc
+        .font(regular)
+        .fontSize(9)
+        .fillColor("#666666")
+        .text(
+          `Started ${formatTimestamp(session.startTime)} · Status: ${session.status} · Persona: ${session.persona}`
+        )
+        .moveDown();
+
+      for (const msg of session.messages) {
+        doc
+          .font(bold)
+          .fontSize(10)
+          .fillColor("#000000")
+          .text(`${speaker(msg.role)}  `, { continued: true })
+          .font(regular)
+          .fillColor("#666666")
+          .text(formatTimestamp(msg.timestamp));
+        doc.font(regular).fontSize(11).fillColor("#000000").text(msg.content);
+
+        if (msg.metadata) {
+          doc
+            .fontSize(8)
+            .fillColor("#888888")
+            .text(JSON.stringify(msg.metadata));
+        }
+        doc.moveDown(0.6);
+      }
+    });
+
+    // Page numbers
+    const range = doc.bufferedPageRange();
+    for (let i = range.start; i < range.start + range.count; i++) {
+      doc.switchToPage(i);
+      doc
+        .font(regular)
+        .fontSize(8)
+        .fillColor("#888888")
+        .text(`${i + 1} / ${range.count}`, 50, doc.page.height - 40, {
+          align: "center",
+          lineBreak: false,
+        });
+    }
+
+    doc.end();
+  });
+
+/**
+ * Renders sessions in the requested format
+ */
+export const renderExport = async (
+  sessions: ExportedSession[],
+  format: ExportFormat
+): Promise<string | Buffer> => {
+  switch (format) {
+    case "pdf":
+      return renderPDF(sessions);
+    case "json":
+      return renderJSON(sessions);
+    case "md":
+    default:
+      return renderMarkdown(sessions);
+  }
+};
@@ -0,0 +1,157 @@
+import { Types } from "mongoose";
+import { LLMUsage } from "../models/LLMUsage";
+import { LLMUsageRecord } from "../llm/metering";
+import { getModelPrices } from "../llm/config";
+import { logger } from "../utils/logger";
+import { DEFAULT_TIME_ZONE } from "../utils/dateRange";
+import { recordTokenUsage } from "./tokenQuota";
+
+export const USAGE_GROUPS = ["day", "provider", "model", "feature"] as const;
+export type UsageGroup = (typeof USAGE_GROUPS)[number];
+
+export interface UsageReportFilter {
+  from?: Date;
+  to?: Date;
+  userId?: string;
+  sessionId?: string;
+  // Zone the day grouping is computed in (UTC by default)
+  timeZone?: string;
+}
+
+export interface UsageReportRow {
+  day?: string;
+  provider?: string;
+  model?: string;
+  feature?: string;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // USD; null when a model in the row has no price configured
+  estimatedCost: number | null;
+}
+
+/**
+ * Saves one call's usage and counts it against the owner's daily token
+ * quota, so analysis and summaries use up the quota as well as replies.
+ * Never throws: accounting must not break a reply.
+ */
+export const recordLLMUsage = (record: LLMUsageRecord) => {
+  const userId =
+    record.userId && Types.ObjectId.isValid(record.userId) ? record.userId : undefined;
+
+  LLMUsage.create({ ...record, userId }).catch((error) =>
+    logger.error("Error recording LLM usage:", error)
+  );
+  if (userId) {
+    recordTokenUsage(userId, record.totalTokens).catch((error) =>
+      logger.error("Error recording token usage:", error)
+    );
+  }
+};
+
+const costOf = (
+  model: string,
+  promptTokens: number,
+  completionTokens: number,
+  prices = getModelPrices()
+): number | null => {
+  const price = prices[model];
+  if (!price) return null;
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+};
+
+/**
+ * Token totals and estimated cost grouped by any of day, provider,
+ * model and feature. Cost is priced per model before rolling up, so
+ * mixed-model groups are still correct.
+ */
+export const buildUsageReport = async (
+  groupBy: UsageGroup[],
+  filter: UsageReportFilter = {}
+): Promise<{ groups: UsageReportRow[]; totals: UsageReportRow }> => {
+  const match: Record<string, unknown> = {};
+  if (filter.userId) match.userId = new Types.ObjectId(filter.userId);
+  if (filter.sessionId) match.sessionId = filter.sessionId;
+  if (filter.from || filter.to) {
+    match.createdAt = {
+      ...(filter.from && { $gte: filter.from }),
+      ...(filter.to && { $lte: filter.to }),
+    };
+  }
+
+  // Finest grain first; the requested grouping is rolled up from it
+  const rows = await LLMUsage.aggregate([
+    { $match: match },
+    {
+      $group: {
+        _id: {
+          day: {
+            $dateToString: {
+              format: "%Y-%m-%d",
+              date: "$createdAt",
+              timezone: filter.timeZone || DEFAULT_TIME_ZONE,
+            },
+          },
+          provider: "$provider",
+          model: "$model",
+          feature: "$feature",
+        },
+        calls: { $sum: 1 },
+        promptTokens: { $sum: "$promptTokens" },
+        completionTokens: { $sum: "$completionTokens" },
+        totalTokens: { $sum: "$totalTokens" },
+      },
+    },
+  ]);
+
+  const prices = getModelPrices();
+  const groups = new Map<string, UsageReportRow>();
+  const totals: UsageReportRow = {
+    calls: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    estimatedCost: 0,
+  };
+
+  const add = (target: UsageReportRow, row: any, cost: number | null) => {
+    target.calls += row.calls;
+    target.promptTokens += row.promptTokens;
+    target.completionTokens += row.completionTokens;
+    target.totalTokens += row.totalTokens;
+    target.estimatedCost =
+      target.estimatedCost === null || cost === null
+        ? null
+        : target.estimatedCost + cost;
+  };
+
+  for (const row of rows) {
+    const cost = costOf(row._id.model, row.promptTokens, row.completionTokens, prices);
+    const keys = Object.fromEntries(groupBy.map((group) => [group, row._id[group]]));
+    const id = JSON.stringify(keys);
+
+    let group = groups.get(id);
+    if (!group) {
+      group = {
+        ...keys,
+        calls: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        totalTokens: 0,
+        estimatedCost: 0,
+      };
+      groups.set(id, group);
+    }
+    add(group, row, cost);
+    add(totals, row, cost);
+  }
+
+  // Newest day first, then the biggest spenders
+  const sorted = [...groups.values()].sort(
+    (a, b) =>
+      (b.day || "").localeCompare(a.day || "") || b.totalTokens - a.totalTokens
+  );
+
+  return { groups: sorted, totals };
+};
@@ -0,0 +1,35 @@
+export type ActivityType =
+  | "meditation"
+  | "exercise"
+  | "walking"
+  | "reading"
+  | "journaling"
+  | "therapy";
+
+export const ACTIVITY_TYPES: ActivityType[] = [
+  "meditation",
+  "exercise",
+  "walking",
+  "reading",
+  "journaling",
+  "therapy",
+];
+
+// Same scale the activity recommendations use
+export type ActivityDifficulty = "easy" | "moderate" | "challenging";
+
+export const ACTIVITY_DIFFICULTIES: ActivityDifficulty[] = [
+  "easy",
+  "moderate",
+  "challenging",
+];
+
+// Only completed activities count towards stats and streaks
+export type ActivityStatus = "planned" | "in_progress" | "completed" | "skipped";
+
+export const ACTIVITY_STATUSES: ActivityStatus[] = [
+  "planned",
+  "in_progress",
+  "completed",
+  "skipped",
+];
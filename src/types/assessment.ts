@@ -0,0 +1,60 @@
+import { CrisisCategory } from "./crisis";
+
+export type AssessmentType = "phq9" | "gad7";
+
+export type AssessmentSeverity =
+  | "minimal"
+  | "mild"
+  | "moderate"
+  | "moderately_severe"
+  | "severe";
+
+export interface AssessmentOption {
+  value: number;
+  label: string;
+}
+
+export interface AssessmentQuestion {
+  // Stable id, e.g. "phq9_9"; answers are given in question order
+  id: string;
+  text: string;
+}
+
+// Inclusive score range for a severity
+export interface SeverityBand {
+  min: number;
+  max: number;
+  severity: AssessmentSeverity;
+  label: string;
+}
+
+// A question whose answer is a risk signal regardless of the total
+export interface SafetyItem {
+  questionId: string;
+  category: CrisisCategory;
+  // Crisis score (0-100) for each answer value; 0 means no flag
+  scores: number[];
+}
+
+export interface AssessmentDefinition {
+  type: AssessmentType;
+  title: string;
+  description: string;
+  // Shown above the questions, e.g. the look-back period
+  instructions: string;
+  questions: AssessmentQuestion[];
+  // Same answer scale for every question
+  options: AssessmentOption[];
+  bands: SeverityBand[];
+  safetyItems?: SafetyItem[];
+  // Leo only suggests it again once the last result is this old
+  retakeAfterDays: number;
+}
+
+// A scored submission
+export interface AssessmentScore {
+  score: number;
+  maxScore: number;
+  severity: AssessmentSeverity;
+  label: string;
+}
@@ -0,0 +1,63 @@
+import { LanguageCode } from "./language";
+
+export type CrisisTier = "none" | "low" | "moderate" | "high" | "imminent";
+
+// Ordered from least to most severe
+export const CRISIS_TIERS: CrisisTier[] = [
+  "none",
+  "low",
+  "moderate",
+  "high",
+  "imminent",
+];
+
+export type CrisisCategory =
+  | "suicidal_intent"
+  | "suicidal_ideation"
+  | "self_harm"
+  | "hopelessness"
+  | "harm_to_others"
+  | "abuse"
+  | "distress";
+
+export interface LexiconRule {
+  id: string;
+  category: CrisisCategory;
+  pattern: RegExp;
+  // 0-100, compared against the tier thresholds
+  score: number;
+  // Whether "not" / "never" right before the match should soften it
+  negatable?: boolean;
+}
+
+export interface CrisisTrigger {
+  source: "lexicon" | "analysis" | "assessment";
+  ruleId: string;
+  category?: CrisisCategory;
+  // The text that matched, for the audit trail
+  matched?: string;
+  score: number;
+  negated?: boolean;
+}
+
+export interface CrisisAssessment {
+  tier: CrisisTier;
+  score: number;
+  triggers: CrisisTrigger[];
+}
+
+export interface CrisisResource {
+  name: string;
+  phone?: string;
+  text?: string;
+  url?: string;
+  available?: string;
+}
+
+export interface CrisisResponse {
+  locale: string;
+  // Language the message is written in
+  language: LanguageCode;
+  message: string;
+  resources: CrisisResource[];
+}
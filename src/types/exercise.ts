@@ -0,0 +1,54 @@
+export type ExerciseType =
+  | "thought_record"
+  | "behavioural_activation"
+  | "grounding_54321";
+
+export type ExerciseAnswer = string | number | string[];
+
+export interface ExerciseStep {
+  // Name the answer is stored under
+  key: string;
+  // "rating" is a 0-100 intensity, "list" is split on commas/new lines
+  kind: "text" | "rating" | "list";
+  // What Leo asks; {{key}} is replaced with an earlier answer
+  prompt: string;
+  // Marks the two ratings compared when the exercise is done
+  rating?: "before" | "after";
+}
+
+export interface ExerciseDefinition {
+  type: ExerciseType;
+  title: string;
+  description: string;
+  intro: string;
+  steps: ExerciseStep[];
+  // Said when the exercise is finished; {{before}}/{{after}} are the ratings
+  outro: string;
+}
+
+// Step state kept on the chat session while an exercise runs
+export interface ActiveExercise {
+  type: ExerciseType;
+  stepIndex: number;
+  responses: Record<string, ExerciseAnswer>;
+  startedAt: Date;
+}
+
+// Saved on a user message sent during an exercise, so an edit can rewind
+// to the step it answered
+export interface ExerciseSnapshot {
+  before: ActiveExercise;
+  // The record the message completed, when it answered the last step
+  recordId?: string;
+}
+
+// What the client needs to render exercise progress
+export interface ExerciseProgress {
+  type: ExerciseType;
+  title: string;
+  step: number;
+  totalSteps: number;
+  stepKey: string | null;
+  completed: boolean;
+  recordId?: string;
+}
@@ -0,0 +1,25 @@
+import { ActivityDifficulty, ActivityType } from "./activity";
+import { MoodEmotion } from "./mood";
+
+export interface GuideStep {
+  title: string;
+  instruction: string;
+  // How long the app should give the step
+  durationSeconds: number;
+}
+
+export interface GuideDefinition {
+  // Stable id used in URLs, e.g. "box-breathing"
+  slug: string;
+  title: string;
+  summary: string;
+  // What the run is logged as once completed
+  activityType: ActivityType;
+  difficulty: ActivityDifficulty;
+  tags: string[];
+  // Emotions the guide is meant to help with
+  targetEmotions: MoodEmotion[];
+  steps: GuideStep[];
+}
+
+export type GuidedRunStatus = "in_progress" | "completed";
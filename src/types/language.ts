@@ -0,0 +1,49 @@
+import { LexiconRule } from "./crisis";
+
+export type LanguageCode = "en" | "es" | "fr" | "de" | "pt";
+
+export interface Language {
+  code: LanguageCode;
+  // English name, used when telling the model which language to write in
+  name: string;
+  nativeName: string;
+}
+
+// Keyword patterns the rule-based end-of-conversation detector looks for
+export interface EndPatterns {
+  farewell: RegExp;
+  done: RegExp;
+  thanks: RegExp;
+  // The whole message is an "okay"/"got it" style reply
+  acknowledgement: RegExp;
+  // Signs the user is still going: questions, contrast, ongoing struggle
+  continuation: RegExp;
+}
+
+// Fast-path crisis screening for messages written in the language
+export interface CrisisPatterns {
+  rules: LexiconRule[];
+  // A negator governing a match ("not suicidal"), tested against the end
+  // of the clause before it
+  negation: RegExp;
+  // Where a clause starts; a negation never reaches past one
+  clauseBreak: RegExp;
+}
+
+// Everything Leo says without the model, in one language
+export interface ChatCatalog {
+  closings: string[];
+  // "Are you done for now?" checks
+  softCloseChecks: string[];
+  // Sent when the model returns nothing usable
+  emptyReply: string;
+  // Sent instead of a reply that diagnosed, prescribed or described self-harm
+  unsafeReply: string;
+  // Saved when the model can't be reached
+  unavailableReply: string;
+  crisisMessage: string;
+  // Words used when listing crisis resources ("call 988, text 988")
+  contact: { call: string; text: string };
+  endPatterns: EndPatterns;
+  crisisPatterns: CrisisPatterns;
+}
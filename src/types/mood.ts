@@ -0,0 +1,60 @@
+export type MoodEmotion =
+  | "happy"
+  | "calm"
+  | "grateful"
+  | "hopeful"
+  | "proud"
+  | "excited"
+  | "content"
+  | "sad"
+  | "lonely"
+  | "anxious"
+  | "stressed"
+  | "overwhelmed"
+  | "angry"
+  | "frustrated"
+  | "irritable"
+  | "ashamed"
+  | "guilty"
+  | "numb"
+  | "tired"
+  | "bored";
+
+export const MOOD_EMOTIONS: MoodEmotion[] = [
+  "happy",
+  "calm",
+  "grateful",
+  "hopeful",
+  "proud",
+  "excited",
+  "content",
+  "sad",
+  "lonely",
+  "anxious",
+  "stressed",
+  "overwhelmed",
+  "angry",
+  "frustrated",
+  "irritable",
+  "ashamed",
+  "guilty",
+  "numb",
+  "tired",
+  "bored",
+];
+
+// Limits for the tag lists on a mood entry
+export const MAX_MOOD_EMOTIONS = 8;
+export const MAX_MOOD_TRIGGERS = 10;
+export const MAX_MOOD_TRIGGER_LENGTH = 40;
+export const MAX_MOOD_ACTIVITIES = 10;
+
+export type MoodTrendDirection =
+  | "improving"
+  | "declining"
+  | "stable"
+  | "insufficient_data";
+
+export type MoodVolatilityLevel = "low" | "moderate" | "high";
+
+export type MoodFollowUpReason = "declining_trend" | "sustained_low";
@@ -0,0 +1,27 @@
+export type PersonaId =
+  | "leo-casual"
+  | "cbt-structured"
+  | "dbt-skills"
+  | "act-oriented"
+  | "motivational";
+
+export type TherapeuticModality = "supportive" | "cbt" | "dbt" | "act" | "mi";
+
+export interface Persona {
+  id: PersonaId;
+  // Shown in the persona picker
+  label: string;
+  modality: TherapeuticModality;
+  description: string;
+  tone: string;
+  // Persona-specific instructions, added to the shared safety rules
+  instructions: string[];
+  responseLength: {
+    minSentences: number;
+    maxSentences: number;
+    maxTokens: number;
+  };
+  temperature: number;
+  // The only techniques this persona may suggest
+  techniques: string[];
+}
@@ -0,0 +1,22 @@
+export type PromptName =
+  | "chat.system"
+  | "analysis.system"
+  | "analysis.message"
+  | "session.summary"
+  | "therapist.response"
+  | "session.analysis"
+  | "activity.recommendations";
+
+// Which template (and experiment arm) produced a piece of text
+export interface PromptRef {
+  name: PromptName;
+  // 0 is the built-in default shipped with the code
+  version: number;
+  experiment?: string;
+  variant?: string;
+}
+
+export interface RenderedPrompt {
+  content: string;
+  ref: PromptRef;
+}
@@ -0,0 +1,124 @@
+import {
+  dayKey,
+  dayRange,
+  isValidTimeZone,
+  monthRange,
+  parseDate,
+  startOfDayOffset,
+  weekRange,
+} from "../dateRange";
+
+const hours = (range: { start: Date; end: Date }) =>
+  (range.end.getTime() - range.start.getTime()) / (60 * 60 * 1000);
+
+describe("dayRange", () => {
+  it("is the UTC day by default", () => {
+    expect(dayRange(new Date("2026-03-10T15:30:00Z"))).toEqual({
+      start: new Date("2026-03-10T00:00:00Z"),
+      end: new Date("2026-03-11T00:00:00Z"),
+    });
+  });
+
+  it("starts at local midnight in the given zone", () => {
+    // Still the 9th in Los Angeles
+    expect(dayRange(new Date("2026-01-10T05:00:00Z"), "America/Los_Angeles")).toEqual({
+      start: new Date("2026-01-09T08:00:00Z"),
+      end: new Date("2026-01-10T08:00:00Z"),
+    });
+  });
+
+  it("is 23 hours long on the spring-forward day", () => {
+    const range = dayRange(new Date("2026-03-08T18:00:00Z"), "America/New_York");
+
+    expect(range.start).toEqual(new Date("2026-03-08T05:00:00Z"));
+    expect(range.end).toEqual(new Date("2026-03-09T04:00:00Z"));
+    expect(hours(range)).toBe(23);
+  });
+
+  it("is 25 hours long on the fall-back day", () => {
+    const range = dayRange(new Date("2026-10-25T12:00:00Z"), "Europe/Berlin");
+
+    expect(range.start).toEqual(new Date("2026-10-24T22:00:00Z"));
+    expect(range.end).toEqual(new Date("2026-10-25T23:00:00Z"));
+    expect(hours(range)).toBe(25);
+  });
+
+  it("handles zones with a half-hour offset", () => {
+    expect(dayRange(new Date("2026-06-01T20:00:00Z"), "Asia/Kolkata").start).toEqual(
+      new Date("2026-06-01T18:30:00Z")
+    );
+  });
+});
+
+describe("weekRange", () => {
+  it("runs Monday to Monday", () => {
+    // Wednesday
+    expect(weekRange(new Date("2026-03-04T12:00:00Z"))).toEqual({
+      start: new Date("2026-03-02T00:00:00Z"),
+      end: new Date("2026-03-09T00:00:00Z"),
+    });
+  });
+
+  it("puts Sunday in the week that started the Monday before", () => {
+    expect(weekRange(new Date("2026-03-08T12:00:00Z")).start).toEqual(
+      new Date("2026-03-02T00:00:00Z")
+    );
+  });
+
+  it("loses an hour in a week with a DST change", () => {
+    const range = weekRange(new Date("2026-03-10T12:00:00Z"), "America/New_York");
+
+    expect(range.start).toEqual(new Date("2026-03-09T04:00:00Z"));
+    expect(hours(weekRange(new Date("2026-03-05T12:00:00Z"), "America/New_York"))).toBe(
+      7 * 24 - 1
+    );
+  });
+
+  it("crosses month and year ends", () => {
+    expect(weekRange(new Date("2026-01-01T12:00:00Z"))).toEqual({
+      start: new Date("2025-12-29T00:00:00Z"),
+      end: new Date("2026-01-05T00:00:00Z"),
+    });
+  });
+});
+
+describe("monthRange", () => {
+  it("covers the local calendar month", () => {
+    expect(monthRange(new Date("2026-02-15T00:00:00Z"), "Europe/Berlin")).toEqual({
+      start: new Date("2026-01-31T23:00:00Z"),
+      end: new Date("2026-02-28T23:00:00Z"),
+    });
+  });
+});
+
+describe("startOfDayOffset", () => {
+  it("counts calendar days, not 24-hour blocks, across DST", () => {
+    expect(startOfDayOffset(new Date("2026-03-10T12:00:00Z"), -6, "America/New_York")).toEqual(
+      new Date("2026-03-04T05:00:00Z")
+    );
+  });
+});
+
+describe("dayKey", () => {
+  it("formats the local date", () => {
+    expect(dayKey(new Date("2026-03-10T02:00:00Z"), "America/New_York")).toBe("2026-03-09");
+    expect(dayKey(new Date("2026-03-10T02:00:00Z"))).toBe("2026-03-10");
+  });
+});
+
+describe("parseDate", () => {
+  it("distinguishes absent from invalid", () => {
+    expect(parseDate(undefined)).toBeUndefined();
+    expect(parseDate("not a date")).toBeNull();
+    expect(parseDate("2026-03-10")).toEqual(new Date("2026-03-10T00:00:00Z"));
+  });
+});
+
+describe("isValidTimeZone", () => {
+  it("accepts IANA names only", () => {
+    expect(isValidTimeZone("Africa/Lagos")).toBe(true);
+    expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+    expect(isValidTimeZone("")).toBe(false);
+    expect(isValidTimeZone(42)).toBe(false);
+  });
+});
@@ -0,0 +1,71 @@
+import { Types } from "mongoose";
+import {
+  cursorFilter,
+  encodeCursor,
+  MAX_PAGE_SIZE,
+  DEFAULT_PAGE_SIZE,
+  parseLimit,
+  toPage,
+} from "../pagination";
+
+const item = (value: Date) => ({ _id: new Types.ObjectId(), value });
+
+describe("parseLimit", () => {
+  it("clamps to the allowed range", () => {
+    expect(parseLimit("5")).toBe(5);
+    expect(parseLimit("1000")).toBe(MAX_PAGE_SIZE);
+  });
+
+  it("falls back for missing or invalid values", () => {
+    expect(parseLimit(undefined)).toBe(DEFAULT_PAGE_SIZE);
+    expect(parseLimit("0")).toBe(DEFAULT_PAGE_SIZE);
+    expect(parseLimit("-3")).toBe(DEFAULT_PAGE_SIZE);
+    expect(parseLimit("ten")).toBe(DEFAULT_PAGE_SIZE);
+  });
+});
+
+describe("toPage", () => {
+  const items = [1, 2, 3].map((day) => item(new Date(Date.UTC(2026, 2, day))));
+
+  it("returns a cursor only when there is another page", () => {
+    const page = toPage(items, 2, (i) => i.value);
+
+    expect(page.items).toEqual(items.slice(0, 2));
+    expect(page.nextCursor).not.toBeNull();
+    expect(toPage(items, 3, (i) => i.value).nextCursor).toBeNull();
+  });
+});
+
+describe("cursorFilter", () => {
+  it("continues after the last item, breaking ties on _id", () => {
+    const last = item(new Date("2026-03-02T10:00:00Z"));
+    const filter = cursorFilter(encodeCursor(last.value, last._id), "lastActivityAt", -1);
+
+    expect(filter).toEqual({
+      $or: [
+        { lastActivityAt: { $lt: last.value } },
+        { lastActivityAt: last.value, _id: { $lt: last._id } },
+      ],
+    });
+  });
+
+  it("goes the other way for ascending sorts and keeps non-date values", () => {
+    const id = new Types.ObjectId();
+    const filter = cursorFilter(encodeCursor(42, id), "score", 1);
+
+    expect(filter).toEqual({
+      $or: [{ score: { $gt: 42 } }, { score: 42, _id: { $gt: id } }],
+    });
+  });
+
+  it("rejects malformed cursors", () => {
+    expect(cursorFilter("not-a-cursor", "startTime", -1)).toBeNull();
+    expect(
+      cursorFilter(
+        Buffer.from(JSON.stringify({ v: 1, id: "nope" })).toString("base64url"),
+        "startTime",
+        -1
+      )
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,143 @@
+export const DEFAULT_TIME_ZONE = "UTC";
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DateRange {
+  start: Date;
+  // Exclusive: the first instant of the next period
+  end: Date;
+}
+
+/**
+ * Parses a ?from=/?to= style value. undefined when absent, null when invalid.
+ */
+export const parseDate = (value: unknown): Date | null | undefined => {
+  if (value === undefined) return undefined;
+  const date = new Date(String(value));
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+// Formatters are costly to build, so keep one per zone
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * True for IANA zone names the runtime knows, e.g. "Africa/Lagos"
+ */
+export const isValidTimeZone = (value: unknown): value is string => {
+  if (typeof value !== "string" || value.trim() === "") return false;
+  try {
+    formatterFor(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Wall-clock fields of an instant in a zone
+const zonedParts = (date: Date, timeZone: string) => {
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(timeZone).formatToParts(date)) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+};
+
+// How far the zone's wall clock is ahead of UTC at that instant
+const offsetMs = (date: Date, timeZone: string) => {
+  const p = zonedParts(date, timeZone);
+  const asUTC = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUTC - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+/**
+ * The instant of local midnight on the given calendar date. Month and day
+ * may overflow (e.g. day 32) the same way Date.UTC allows.
+ */
+const zonedMidnight = (year: number, month: number, day: number, timeZone: string) => {
+  const wallClock = Date.UTC(year, month - 1, day);
+  // Twice, in case the first guess lands on the other side of a DST change
+  let instant = wallClock - offsetMs(new Date(wallClock), timeZone);
+  instant = wallClock - offsetMs(new Date(instant), timeZone);
+  return new Date(instant);
+};
+
+/**
+ * Local calendar date of an instant as "YYYY-MM-DD"
+ */
+export const dayKey = (date: Date, timeZone = DEFAULT_TIME_ZONE): string => {
+  const { year, month, day } = zonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+};
+
+/**
+ * The local day containing `date`
+ */
+export const dayRange = (date: Date, timeZone = DEFAULT_TIME_ZONE): DateRange => {
+  const { year, month, day } = zonedParts(date, timeZone);
+  return {
+    start: zonedMidnight(year, month, day, timeZone),
+    end: zonedMidnight(year, month, day + 1, timeZone),
+  };
+};
+
+/**
+ * The local ISO week (Monday to Sunday) containing `date`
+ */
+export const weekRange = (date: Date, timeZone = DEFAULT_TIME_ZONE): DateRange => {
+  const { year, month, day } = zonedParts(date, timeZone);
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  const monday = day - ((weekday + 6) % 7);
+  return {
+    start: zonedMidnight(year, month, monday, timeZone),
+    end: zonedMidnight(year, month, monday + 7, timeZone),
+  };
+};
+
+/**
+ * The local calendar month containing `date`
+ */
+export const monthRange = (date: Date, timeZone = DEFAULT_TIME_ZONE): DateRange => {
+  const { year, month } = zonedParts(date, timeZone);
+  return {
+    start: zonedMidnight(year, month, 1, timeZone),
+    end: zonedMidnight(year, month + 1, 1, timeZone),
+  };
+};
+
+/**
+ * Local midnight `days` calendar days before (negative) or after the day
+ * containing `date`
+ */
+export const startOfDayOffset = (
+  date: Date,
+  days: number,
+  timeZone = DEFAULT_TIME_ZONE
+): Date => {
+  const { year, month, day } = zonedParts(date, timeZone);
+  return zonedMidnight(year, month, day + days, timeZone);
+};
@@ -0,0 +1,9 @@
+/**
+ * Reads a numeric environment variable, falling back when unset or invalid
+ */
+export const readNumberEnv = (name: string, fallback: number): number => {
+  const raw = process.env[name];
+  if (!raw) return fallback;
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : fallback;
+};
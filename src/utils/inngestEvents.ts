@@ -32,9 +32,8 @@ export const sendMoodUpdateEvent = async (moodData: any) => {
         userId: moodData.userId,
         mood: moodData.mood,
         timestamp: new Date().toISOString(),
-        context: moodData.context,
         activities: moodData.activities,
-        notes: moodData.notes,
+        note: moodData.note,
         ...moodData,
       },
     });
@@ -45,6 +44,27 @@ export const sendMoodUpdateEvent = async (moodData: any) => {
   }
 };
 
+export const sendMoodDeclineEvent = async (insightData: any) => {
+  try {
+    await inngest.send({
+      name: "mood/decline.detected",
+      data: {
+        insightId: insightData.id,
+        userId: insightData.userId,
+        reason: insightData.reason,
+        trend: insightData.trend,
+        sustainedLowDays: insightData.sustainedLowDays,
+        average: insightData.average,
+        timestamp: new Date().toISOString(),
+      },
+    });
+    logger.info("Mood decline event sent successfully");
+  } catch (error) {
+    logger.error("Failed to send mood decline event:", error);
+    throw error;
+  }
+};
+
 export const sendActivityCompletionEvent = async (activityData: any) => {
   try {
     await inngest.send({
@@ -65,3 +85,43 @@ export const sendActivityCompletionEvent = async (activityData: any) => {
     throw error;
   }
 };
+
+export const sendCrisisAlertEvent = async (crisisData: any) => {
+  try {
+    await inngest.send({
+      name: "safety/crisis.detected",
+      data: {
+        crisisEventId: crisisData.id,
+        userId: crisisData.userId,
+        source: crisisData.source,
+        sessionId: crisisData.sessionId,
+        messageId: crisisData.messageId,
+        tier: crisisData.tier,
+        score: crisisData.score,
+        triggers: crisisData.triggers,
+        timestamp: new Date().toISOString(),
+      },
+    });
+    logger.info("Crisis alert event sent successfully");
+  } catch (error) {
+    logger.error("Failed to send crisis alert event:", error);
+    throw error;
+  }
+};
+
+export const sendSessionCompletedEvent = async (sessionData: any) => {
+  try {
+    await inngest.send({
+      name: "therapy/session.completed",
+      data: {
+        sessionId: sessionData.sessionId,
+        userId: sessionData.userId,
+        timestamp: new Date().toISOString(),
+      },
+    });
+    logger.info("Session completed event sent successfully");
+  } catch (error) {
+    logger.error("Failed to send session completed event:", error);
+    throw error;
+  }
+};
@@ -0,0 +1,13 @@
+import { Request } from "express";
+
+/**
+ * Picks the user's locale from the body or the Accept-Language header
+ */
+export const resolveLocale = (req: Request): string => {
+  if (typeof req.body?.locale === "string" && req.body.locale) {
+    return req.body.locale;
+  }
+  const header = req.headers["accept-language"];
+  const first = header?.split(",")[0]?.split(";")[0]?.trim();
+  return first && first !== "*" ? first : "en";
+};
@@ -0,0 +1,9 @@
+/**
+ * Whether value is one of the record's own keys. Unlike `in` or a plain
+ * lookup, inherited names such as "toString" or "constructor" don't count.
+ */
+export const isOwnKey = <K extends PropertyKey>(
+  record: Record<K, unknown>,
+  value: unknown
+): value is K =>
+  typeof value === "string" && Object.prototype.hasOwnProperty.call(record, value);
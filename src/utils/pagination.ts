@@ -0,0 +1,85 @@
+import { Types } from "mongoose";
+
+export type SortDirection = 1 | -1;
+
+interface CursorPayload {
+  // Sort-field value of the last item on the page
+  v: string | number;
+  // Set when v is an ISO date
+  d?: 1;
+  // _id of the last item, to break ties
+  id: string;
+}
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+/**
+ * Parses ?limit=, clamped to [1, MAX_PAGE_SIZE]
+ */
+export const parseLimit = (raw: unknown, fallback = DEFAULT_PAGE_SIZE) => {
+  const limit = Number.parseInt(String(raw ?? ""), 10);
+  if (!Number.isFinite(limit) || limit < 1) return fallback;
+  return Math.min(limit, MAX_PAGE_SIZE);
+};
+
+export const encodeCursor = (
+  value: Date | number | string,
+  id: Types.ObjectId | string
+): string => {
+  const payload: CursorPayload =
+    value instanceof Date
+      ? { v: value.toISOString(), d: 1, id: id.toString() }
+      : { v: value, id: id.toString() };
+  return Buffer.from(JSON.stringify(payload)).toString("base64url");
+};
+
+/**
+ * Turns a cursor back into a Mongo filter for the next page.
+ * Returns null for a malformed cursor.
+ */
+export const cursorFilter = (
+  cursor: string,
+  field: string,
+  direction: SortDirection
+): Record<string, any> | null => {
+  try {
+    const payload: CursorPayload = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf8")
+    );
+    if (payload.v === undefined || !Types.ObjectId.isValid(payload.id)) {
+      return null;
+    }
+
+    const value = payload.d ? new Date(payload.v) : payload.v;
+    const id = new Types.ObjectId(payload.id);
+    const op = direction === -1 ? "$lt" : "$gt";
+
+    return {
+      $or: [
+        { [field]: { [op]: value } },
+        { [field]: value, _id: { [op]: id } },
+      ],
+    };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Splits a limit+1 query result into the page and the cursor for the next one
+ */
+export const toPage = <T extends { _id: any }>(
+  items: T[],
+  limit: number,
+  cursorValue: (item: T) => Date | number | string
+): { items: T[]; nextCursor: string | null } => {
+  const hasMore = items.length > limit;
+  const page = hasMore ? items.slice(0, limit) : items;
+  const last = page[page.length - 1];
+
+  return {
+    items: page,
+    nextCursor: hasMore && last ? encodeCursor(cursorValue(last), last._id) : null,
+  };
+};
@@ -0,0 +1,35 @@
+import { Request, Response } from "express";
+
+/**
+ * Returns true when the client asked for a Server-Sent Events stream
+ */
+export const wantsEventStream = (req: Request): boolean => {
+  const accept = req.headers.accept || "";
+  return accept.includes("text/event-stream");
+};
+
+/**
+ * Opens an SSE stream on the response and flushes the headers right away
+ */
+export const initEventStream = (res: Response) => {
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache, no-transform");
+  res.setHeader("Connection", "keep-alive");
+  // Stop reverse proxies (nginx) from buffering the stream
+  res.setHeader("X-Accel-Buffering", "no");
+  res.flushHeaders();
+};
+
+/**
+ * Writes a single named event with a JSON payload
+ */
+export const sendEvent = (res: Response, event: string, data: unknown) => {
+  if (res.writableEnded) return;
+  res.write(`event: ${event}\n`);
+  res.write(`data: ${JSON.stringify(data)}\n\n`);
+};
+
+export const closeEventStream = (res: Response) => {
+  if (!res.writableEnded) res.end();
+};
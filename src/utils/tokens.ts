@@ -0,0 +1,17 @@
+// Average characters per token for English text on GPT/Llama-style tokenizers
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Cheap token estimate. Not exact, but stable and provider-independent,
+ * which is what budgeting the prompt needs.
+ */
+export const estimateTokens = (text: string): number =>
+  Math.ceil(text.length / CHARS_PER_TOKEN);
+
+/**
+ * Cuts text down to roughly maxTokens, marking where it was cut
+ */
+export const truncateToTokens = (text: string, maxTokens: number): string => {
+  if (estimateTokens(text) <= maxTokens) return text;
+  return `${text.slice(0, maxTokens * CHARS_PER_TOKEN).trimEnd()} …`;
+};